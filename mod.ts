@@ -0,0 +1,317 @@
+/**
+ * Embeddable multi-host reverse proxy.
+ *
+ * ```ts
+ * import { createProxyHandler } from "./mod.ts";
+ *
+ * const handler = createProxyHandler({
+ *   hosts: [{ host: "api.openai.com" }],
+ *   timeoutMs: 30000,
+ *   rateLimit: { windowMs: 60000, maxRequests: 100 },
+ * });
+ * Deno.serve(handler);
+ * ```
+ *
+ * @module
+ */
+export {
+  type AccessLogEntry,
+  formatCombined,
+  REQUEST_ID_HEADER,
+  requestIdFrom,
+  writeAccessLog,
+} from "./src/access_log.ts";
+export {
+  type AuthenticatedClient,
+  type Authenticator,
+  type AuthResult,
+  type ClientKeyStore,
+  createAuthenticator,
+  createKvKeyStore,
+  createMemoryKeyStore,
+  DEFAULT_KEY_HEADER,
+  DEFAULT_KV_KEY_PREFIX,
+  hashClientKey,
+  type KvKeyStore,
+} from "./src/auth.ts";
+export {
+  type BodyDirection,
+  type BodyLimits,
+  BodyTooLargeError,
+  declaredTooLarge,
+  limitStream,
+  resolveBodyLimits,
+} from "./src/body_limits.ts";
+export {
+  applyValidators,
+  CACHE_STALE_RETENTION_MS,
+  type CachedResponse,
+  cachedToResponse,
+  type CacheStore,
+  createMemoryCacheStore,
+  DEFAULT_CACHE_MAX_BYTES,
+  DEFAULT_CACHE_MAX_ENTRY_BYTES,
+  entrySize,
+  freshness,
+  hasValidator,
+  isFresh,
+  isStorable,
+  type MemoryCacheStoreOptions,
+  parseCacheControl,
+  readBody,
+  refreshEntry,
+  requestForbidsStorage,
+  requestRequiresRevalidation,
+  varyMatches,
+  varyValues,
+} from "./src/cache.ts";
+export { createKvCacheStore, DEFAULT_KV_CACHE_PREFIX } from "./src/cache_kv.ts";
+export {
+  type CircuitBreaker,
+  type CircuitBreakerConfig,
+  type CircuitDecision,
+  type CircuitState,
+  createCircuitBreaker,
+  DEFAULT_CIRCUIT_RESET_MS,
+  DEFAULT_FAILURE_THRESHOLD,
+} from "./src/circuit_breaker.ts";
+export {
+  type Cidr,
+  forwardedForChain,
+  type IpAddress,
+  ipInCidrs,
+  parseCidr,
+  parseForwardedFor,
+  parseIp,
+  parseXForwardedFor,
+  resolveClientIp,
+} from "./src/client_ip.ts";
+export {
+  type AccessLogConfig,
+  type AccessLogFormat,
+  type AuthConfig,
+  type BalanceStrategy,
+  type CacheConfig,
+  type CacheStoreConfig,
+  type ClientKeyConfig,
+  configFromEnv,
+  type CorsConfig,
+  DEFAULT_ADMIN_PREFIX,
+  DEFAULT_CONFIG,
+  DEFAULT_PORT,
+  type EnvReader,
+  type HeaderPolicy,
+  type HeaderRules,
+  type HealthCheckConfig,
+  type HostCacheConfig,
+  type HostConfig,
+  type KvKeyStoreConfig,
+  type KvLocation,
+  type MetricsConfig,
+  parseHostList,
+  portFromEnv,
+  PROXY_VERSION,
+  type ProxyConfig,
+  type RateLimitStoreConfig,
+  type ReadinessCheck,
+  type RouteRule,
+  type TracingConfig,
+  type UpstreamConfig,
+  type UpstreamCredential,
+} from "./src/config.ts";
+export {
+  ConfigError,
+  configPathFrom,
+  loadConfigFile,
+  parseConfig,
+  parseConfigText,
+  stripJsonComments,
+} from "./src/config_file.ts";
+export {
+  MAX_TOKEN_CHARS,
+  type RewritableContent,
+  rewritableContent,
+  rewriteContentStream,
+} from "./src/content_rewrite.ts";
+export {
+  decodeCookieName,
+  encodeCookieName,
+  rewriteSetCookie,
+  rewriteSetCookieHeaders,
+  upstreamCookieHeader,
+} from "./src/cookies.ts";
+export {
+  allowedOrigin,
+  applyCorsHeaders,
+  compileCors,
+  type CompiledCors,
+  isPreflight,
+  originToRegExp,
+  preflightResponse,
+  stripCorsHeaders,
+} from "./src/cors.ts";
+export {
+  applyCredentialHeaders,
+  applyCredentialQuery,
+  REDACTED,
+  redactSecrets,
+  resolveCredentials,
+  type ResolvedCredential,
+} from "./src/credentials.ts";
+export {
+  clientIpFromInfo,
+  createProxyHandler,
+  type ProxyHandler,
+  type ProxyHandlerInfo,
+} from "./src/handler.ts";
+export {
+  applyHeaderRules,
+  type CompiledHeaderRules,
+  compileHeaderRules,
+  DEFAULT_HEADER_POLICY,
+  expandHeaderTemplate,
+  HEADER_TEMPLATE_VARIABLES,
+  type HeaderTemplateValues,
+  HOP_BY_HOP_HEADERS,
+  stripHopByHop,
+  unknownPlaceholders,
+} from "./src/header_policy.ts";
+export {
+  type CheckResult,
+  createReadinessProbe,
+  DEFAULT_READINESS_TIMEOUT_MS,
+  healthResponse,
+  type HealthStatus,
+  READINESS_CHECK_INTERVAL_MS,
+  readyResponse,
+  runCheck,
+} from "./src/health.ts";
+export {
+  defaultPort,
+  type HostSpec,
+  IS_VALID_HOSTNAME,
+  parseHostSpec,
+  parseTarget,
+  patternToRegExp,
+  type Target,
+} from "./src/hosts.ts";
+export {
+  type ProxyPathFor,
+  rewriteLocations,
+  rewriteUrl,
+} from "./src/locations.ts";
+export {
+  type Counter,
+  createMetricsRegistry,
+  createProxyMetrics,
+  type Gauge,
+  type Histogram,
+  type Labels,
+  LATENCY_BUCKETS,
+  METRICS_CONTENT_TYPE,
+  type MetricsRegistry,
+  observeStream,
+  type ProxyMetrics,
+  rejectionOutcome,
+  statusClass,
+} from "./src/metrics.ts";
+export {
+  createRateLimiter,
+  mostRestrictive,
+  type RateLimitConfig,
+  type RateLimitDecision,
+  type RateLimiter,
+  type RateLimiterOptions,
+  rateLimitHeaders,
+  takeToken,
+} from "./src/rate_limit.ts";
+export {
+  createKvRateLimiter,
+  DEFAULT_KV_RATE_LIMIT_PREFIX,
+  type KvRateLimiterOptions,
+} from "./src/rate_limit_kv.ts";
+export {
+  type ConfigWatcher,
+  watchConfigFile,
+  type WatchConfigOptions,
+} from "./src/reload.ts";
+export {
+  type AttemptResult,
+  backoffDelay,
+  DEFAULT_RETRY_BASE_DELAY_MS,
+  DEFAULT_RETRY_MAX_DELAY_MS,
+  DEFAULT_RETRY_STATUSES,
+  isConnectError,
+  isIdempotent,
+  parseRetryAfter,
+  type ReplayableBody,
+  replayableBody,
+  RETRY_BUFFER_BYTES,
+  type RetryConfig,
+  retryDelay,
+  sleep,
+} from "./src/retry.ts";
+export {
+  type CompiledRoute,
+  compileRoutes,
+  evaluateRoutes,
+  globToRegExp,
+  normalizePath,
+  type RouteDecision,
+} from "./src/routes.ts";
+export {
+  checkTarget,
+  DEFAULT_MAX_REDIRECTS,
+  type HostResolver,
+  INTERNAL_ADDRESS_RANGES,
+  isInternalAddress,
+  isRedirect,
+  redirectMethod,
+  resolveWithDns,
+  type TargetCheck,
+} from "./src/ssrf.ts";
+export {
+  guardStream,
+  headersDeadline,
+  resolveTimeouts,
+  type TimeoutPhase,
+  type Timeouts,
+  UpstreamTimeoutError,
+} from "./src/timeouts.ts";
+export {
+  type AttributeValue,
+  createOtlpExporter,
+  encodeSpans,
+  formatTraceparent,
+  injectTraceContext,
+  type OtlpExporterOptions,
+  parseTraceparent,
+  preciseNow,
+  type Span,
+  type SpanExporter,
+  startSpan,
+  type TraceContext,
+} from "./src/tracing.ts";
+export {
+  type Backend,
+  backendPath,
+  backendUrl,
+  createUpstreamPool,
+  DEFAULT_HEALTH_CHECK_INTERVAL_MS,
+  type HealthChecker,
+  startHealthChecks,
+  type UpstreamPool,
+} from "./src/upstreams.ts";
+export {
+  type BridgeOptions,
+  bridgeWebSockets,
+  connectWebSocket,
+  forwardableCloseCode,
+  isValidHandshake,
+  isWebSocketUpgrade,
+  offeredProtocols,
+  stripHandshakeHeaders,
+  type WebSocketConnectOptions,
+  type WebSocketConnector,
+  whenOpen,
+} from "./src/websocket.ts";
@@ -0,0 +1,115 @@
+// ===================================================================
+// ACCESS LOG (Per-request entries & request ids)
+// ===================================================================
+import type { AccessLogFormat } from "./config.ts";
+import { logEvent } from "./log.ts";
+
+/** Header carrying the request id, both upstream and back to the client. */
+export const REQUEST_ID_HEADER = "x-request-id";
+
+// Ids are echoed into logs and headers, so only plain tokens are accepted.
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:\-]{1,128}$/;
+
+/**
+ * The id for a request: the client's `X-Request-Id` when it is a plain
+ * token of at most 128 characters, otherwise a new UUID.
+ */
+export function requestIdFrom(headers: Headers): string {
+  const given = headers.get(REQUEST_ID_HEADER);
+  return given && VALID_REQUEST_ID.test(given) ? given : crypto.randomUUID();
+}
+
+/** Everything recorded about one request. */
+export interface AccessLogEntry {
+  requestId: string;
+  /** When the request arrived. */
+  time: Date;
+  clientIp: string;
+  /** `key:<id>` for authenticated clients. */
+  clientId?: string;
+  method: string;
+  /** Request path, without the query string (it may carry secrets). */
+  path: string;
+  targetHost?: string;
+  status: number;
+  /** See the `outcome` metrics label. */
+  outcome: string;
+  /** Milliseconds spent waiting for upstream response headers. */
+  upstreamMs?: number;
+  /** Milliseconds until the response body was fully sent. */
+  durationMs: number;
+  /** Request body bytes forwarded upstream. */
+  bytesIn: number;
+  /** Response body bytes sent to the client. */
+  bytesOut: number;
+  userAgent: string | null;
+  referer: string | null;
+}
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+function quoted(value: string | null): string {
+  return value === null
+    ? '"-"'
+    : `"${value.replace(/["\\]/g, "\\$&").replace(/\p{Cc}/gu, "")}"`;
+}
+
+/**
+ * Formats `entry` in the Apache/NGINX combined log format, followed by the
+ * request id, total time and upstream time in milliseconds:
+ *
+ * `203.0.113.7 - web [10/Oct/2025:13:55:36 +0000] "GET /api.example.com/v1 HTTP/1.1" 200 512 "-" "curl/8.0" "req-1" 84 79`
+ */
+export function formatCombined(entry: AccessLogEntry): string {
+  const [, year, month, day, time] = entry.time.toISOString()
+    .match(/^(\d+)-(\d+)-(\d+)T(\d\d:\d\d:\d\d)/)!;
+  const date = `${day}/${MONTHS[Number(month) - 1]}/${year}:${time} +0000`;
+  const user = entry.clientId?.startsWith("key:")
+    ? entry.clientId.slice(4)
+    : "-";
+  return [
+    entry.clientIp,
+    "-",
+    user,
+    `[${date}]`,
+    quoted(`${entry.method} ${entry.path} HTTP/1.1`),
+    entry.status,
+    entry.bytesOut || "-",
+    quoted(entry.referer),
+    quoted(entry.userAgent),
+    quoted(entry.requestId),
+    Math.round(entry.durationMs),
+    entry.upstreamMs === undefined ? "-" : Math.round(entry.upstreamMs),
+  ].join(" ");
+}
+
+/** Writes `entry` to stdout in `format`. */
+export function writeAccessLog(
+  format: AccessLogFormat,
+  entry: AccessLogEntry,
+): void {
+  if (format === "combined") {
+    console.log(formatCombined(entry));
+    return;
+  }
+  const { time, durationMs, upstreamMs, ...fields } = entry;
+  logEvent("INFO", "Request completed", {
+    ...fields,
+    requestTime: time.toISOString(),
+    durationMs: Math.round(durationMs),
+    upstreamMs: upstreamMs === undefined ? undefined : Math.round(upstreamMs),
+  });
+}
@@ -0,0 +1,78 @@
+import { assertEquals, assertMatch, assertNotEquals } from "@std/assert";
+import {
+  type AccessLogEntry,
+  formatCombined,
+  requestIdFrom,
+  writeAccessLog,
+} from "./access_log.ts";
+
+const entry: AccessLogEntry = {
+  requestId: "req-1",
+  time: new Date("2025-10-10T13:55:36.123Z"),
+  clientIp: "203.0.113.7",
+  clientId: "key:web",
+  method: "GET",
+  path: "/api.example.com/v1",
+  targetHost: "api.example.com",
+  status: 200,
+  outcome: "proxied",
+  upstreamMs: 79.4,
+  durationMs: 84.2,
+  bytesIn: 0,
+  bytesOut: 512,
+  userAgent: 'curl/8.0 "x"',
+  referer: null,
+};
+
+Deno.test("requestIdFrom", async (t) => {
+  await t.step("propagates plain ids", () => {
+    assertEquals(
+      requestIdFrom(new Headers({ "x-request-id": "abc-123_4.5:6" })),
+      "abc-123_4.5:6",
+    );
+  });
+
+  await t.step("replaces missing or unsafe ids", () => {
+    for (const given of [undefined, "a b", "x".repeat(129), 'a"b']) {
+      const headers = new Headers(given ? { "x-request-id": given } : {});
+      const id = requestIdFrom(headers);
+      assertNotEquals(id, given);
+      assertMatch(id, /^[0-9a-f-]{36}$/);
+    }
+  });
+});
+
+Deno.test("formatCombined", () => {
+  assertEquals(
+    formatCombined(entry),
+    '203.0.113.7 - web [10/Oct/2025:13:55:36 +0000] "GET /api.example.com/v1 HTTP/1.1" 200 512 "-" "curl/8.0 \\"x\\"" "req-1" 84 79',
+  );
+  assertEquals(
+    formatCombined({
+      ...entry,
+      clientId: "203.0.113.7",
+      bytesOut: 0,
+      upstreamMs: undefined,
+    }),
+    '203.0.113.7 - - [10/Oct/2025:13:55:36 +0000] "GET /api.example.com/v1 HTTP/1.1" 200 - "-" "curl/8.0 \\"x\\"" "req-1" 84 -',
+  );
+});
+
+Deno.test("writeAccessLog writes JSON lines", () => {
+  const lines: string[] = [];
+  const original = console.log;
+  console.log = (line: string) => lines.push(line);
+  try {
+    writeAccessLog("json", entry);
+  } finally {
+    console.log = original;
+  }
+  const logged = JSON.parse(lines[0]);
+  assertEquals(logged.level, "INFO");
+  assertEquals(logged.message, "Request completed");
+  assertEquals(logged.requestId, "req-1");
+  assertEquals(logged.requestTime, "2025-10-10T13:55:36.123Z");
+  assertEquals(logged.durationMs, 84);
+  assertEquals(logged.upstreamMs, 79);
+  assertEquals(logged.bytesOut, 512);
+});
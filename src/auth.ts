@@ -0,0 +1,172 @@
+// ===================================================================
+// CLIENT AUTHENTICATION (Proxy-issued API keys)
+// ===================================================================
+import type {
+  AuthConfig,
+  ClientKeyConfig,
+  KvKeyStoreConfig,
+} from "./config.ts";
+import { patternToRegExp } from "./hosts.ts";
+import { kvPrefix, lazyKv } from "./kv.ts";
+import { type CompiledRoute, compileRoutes } from "./routes.ts";
+
+/** Default header carrying the client key. */
+export const DEFAULT_KEY_HEADER = "x-proxy-key";
+
+/** Default Deno KV prefix for client key records. */
+export const DEFAULT_KV_KEY_PREFIX = ["proxy", "client_keys"];
+
+/** Looks up client keys by the hash of their secret. */
+export interface ClientKeyStore {
+  lookup(hash: string): Promise<ClientKeyConfig | undefined>;
+}
+
+/** A client key with its host scope and route rules pre-compiled. */
+export interface AuthenticatedClient {
+  key: ClientKeyConfig;
+  hosts?: RegExp[];
+  routes: CompiledRoute[];
+}
+
+/** Result of {@link Authenticator.authenticate}. */
+export type AuthResult =
+  | {
+    ok: true;
+    client: AuthenticatedClient;
+    /** Request headers carrying the key, to strip before forwarding. */
+    keyHeaders: string[];
+  }
+  | { ok: false; reason: "missing" | "invalid" };
+
+/** Validates client keys against one or more stores. */
+export interface Authenticator {
+  /** Authenticates `request` by the key it carries. */
+  authenticate(request: Request): Promise<AuthResult>;
+  /** The key stores consulted, in order. */
+  readonly stores: ClientKeyStore[];
+}
+
+/**
+ * Returns the lower-case hex SHA-256 of a client key. The Deno KV cache
+ * hashes its keys with it too.
+ */
+export async function hashClientKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(key),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/** A store over a fixed list of keys, e.g. from the config file. */
+export function createMemoryKeyStore(keys: ClientKeyConfig[]): ClientKeyStore {
+  const byHash = new Map(keys.map((key) => [key.hash.toLowerCase(), key]));
+  return {
+    lookup: (hash) => Promise.resolve(byHash.get(hash)),
+  };
+}
+
+/** A {@link ClientKeyStore} backed by Deno KV that can be closed. */
+export interface KvKeyStore extends ClientKeyStore {
+  /** Stores `key` under its hash. */
+  put(key: ClientKeyConfig): Promise<void>;
+  /** Closes the database if this store opened it. */
+  close(): void;
+}
+
+/**
+ * A store reading `ClientKeyConfig` records from Deno KV at
+ * `[...prefix, hash]`. Pass an open `Deno.Kv`, or a config whose database
+ * is opened lazily on first use.
+ */
+export function createKvKeyStore(
+  source: Deno.Kv | KvKeyStoreConfig = {},
+): KvKeyStore {
+  const prefix = kvPrefix(source, DEFAULT_KV_KEY_PREFIX);
+  const kv = lazyKv(source);
+
+  return {
+    async lookup(hash) {
+      const entry = await (await kv.get()).get<ClientKeyConfig>([
+        ...prefix,
+        hash,
+      ]);
+      return entry.value ?? undefined;
+    },
+    async put(key) {
+      await (await kv.get()).set([...prefix, key.hash.toLowerCase()], key);
+    },
+    close: kv.close,
+  };
+}
+
+function keyFromRequest(
+  request: Request,
+  config: AuthConfig,
+): { secret: string; header: string } | null {
+  const header = config.header ?? DEFAULT_KEY_HEADER;
+  const value = request.headers.get(header);
+  if (value) return { secret: value.trim(), header };
+  if (config.bearer) {
+    const match = /^Bearer\s+(.+)$/i.exec(
+      request.headers.get("authorization") ?? "",
+    );
+    if (match) return { secret: match[1].trim(), header: "authorization" };
+  }
+  return null;
+}
+
+/**
+ * Creates an authenticator for `config`. Inline keys are checked first, then
+ * `extraStores` in order (e.g. a {@link createKvKeyStore} store).
+ */
+export function createAuthenticator(
+  config: AuthConfig,
+  extraStores: ClientKeyStore[] = [],
+): Authenticator {
+  const stores: ClientKeyStore[] = [];
+  if (config.keys?.length) stores.push(createMemoryKeyStore(config.keys));
+  stores.push(...extraStores);
+  const compiled = new Map<ClientKeyConfig, AuthenticatedClient>();
+
+  const compile = (key: ClientKeyConfig): AuthenticatedClient => {
+    let client = compiled.get(key);
+    if (!client) {
+      client = {
+        key,
+        hosts: key.hosts?.map(patternToRegExp),
+        routes: compileRoutes(key.routes ?? []),
+      };
+      // KV records are fresh objects on every lookup; only cache static keys.
+      if (config.keys?.includes(key)) compiled.set(key, client);
+    }
+    return client;
+  };
+
+  return {
+    stores,
+    async authenticate(request) {
+      const found = keyFromRequest(request, config);
+      if (!found) return { ok: false, reason: "missing" };
+
+      const hash = await hashClientKey(found.secret);
+      for (const store of stores) {
+        const key = await store.lookup(hash);
+        if (key) {
+          return { ok: true, client: compile(key), keyHeaders: [found.header] };
+        }
+      }
+      return { ok: false, reason: "invalid" };
+    },
+  };
+}
+
+/** Whether `client` is scoped to reach `targetHost`. */
+export function clientMayReachHost(
+  client: AuthenticatedClient,
+  targetHost: string,
+): boolean {
+  return !client.hosts || client.hosts.some((regex) => regex.test(targetHost));
+}
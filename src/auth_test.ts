@@ -0,0 +1,96 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+  clientMayReachHost,
+  createAuthenticator,
+  createKvKeyStore,
+  hashClientKey,
+} from "./auth.ts";
+
+Deno.test("hashClientKey returns hex SHA-256", async () => {
+  assertEquals(
+    await hashClientKey("abc"),
+    "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+  );
+});
+
+Deno.test("createAuthenticator", async (t) => {
+  const keys = [
+    { id: "web", hash: await hashClientKey("web-secret") },
+    {
+      id: "scoped",
+      hash: await hashClientKey("scoped-secret"),
+      hosts: ["*.example.com"],
+    },
+  ];
+
+  await t.step("accepts the key header", async () => {
+    const auth = createAuthenticator({ keys });
+    const result = await auth.authenticate(
+      new Request("http://proxy.local/", {
+        headers: { "x-proxy-key": "web-secret" },
+      }),
+    );
+    assert(result.ok);
+    assertEquals(result.client.key.id, "web");
+    assertEquals(result.keyHeaders, ["x-proxy-key"]);
+  });
+
+  await t.step("accepts bearer tokens only when enabled", async () => {
+    const request = () =>
+      new Request("http://proxy.local/", {
+        headers: { authorization: "Bearer web-secret" },
+      });
+    const off = await createAuthenticator({ keys }).authenticate(request());
+    assertEquals(off, { ok: false, reason: "missing" });
+
+    const on = await createAuthenticator({ keys, bearer: true })
+      .authenticate(request());
+    assert(on.ok);
+    assertEquals(on.keyHeaders, ["authorization"]);
+  });
+
+  await t.step("rejects unknown keys", async () => {
+    const result = await createAuthenticator({ keys, header: "x-key" })
+      .authenticate(
+        new Request("http://proxy.local/", {
+          headers: { "x-key": "guess" },
+        }),
+      );
+    assertEquals(result, { ok: false, reason: "invalid" });
+  });
+
+  await t.step("scopes keys to host patterns", async () => {
+    const result = await createAuthenticator({ keys }).authenticate(
+      new Request("http://proxy.local/", {
+        headers: { "x-proxy-key": "scoped-secret" },
+      }),
+    );
+    assert(result.ok);
+    assert(clientMayReachHost(result.client, "api.example.com"));
+    assert(!clientMayReachHost(result.client, "api.openai.com"));
+  });
+});
+
+Deno.test("createKvKeyStore looks keys up in Deno KV", async () => {
+  const dir = await Deno.makeTempDir();
+  const store = createKvKeyStore({ path: `${dir}/keys.db` });
+  try {
+    const hash = await hashClientKey("kv-secret");
+    await store.put({ id: "from-kv", hash, hosts: ["api.example.com"] });
+
+    const auth = createAuthenticator({ kv: {} }, [store]);
+    const result = await auth.authenticate(
+      new Request("http://proxy.local/", {
+        headers: { "x-proxy-key": "kv-secret" },
+      }),
+    );
+    assert(result.ok);
+    assertEquals(result.client.key.id, "from-kv");
+    assertEquals(await store.lookup(await hashClientKey("other")), undefined);
+  } finally {
+    store.close();
+    // Let the close settle before removing the database files.
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,78 @@
+// ===================================================================
+// BODY LIMITS (Request & response size caps, enforced while streaming)
+// ===================================================================
+import type { HostConfig, ProxyConfig } from "./config.ts";
+
+/** Which body a limit applies to. */
+export type BodyDirection = "request" | "response";
+
+/** The size limits for one exchange, in bytes; unlimited when undefined. */
+export interface BodyLimits {
+  requestBytes?: number;
+  responseBytes?: number;
+}
+
+/** The limits for requests to `host`, with host settings taking priority. */
+export function resolveBodyLimits(
+  config: ProxyConfig,
+  host: HostConfig,
+): BodyLimits {
+  return {
+    requestBytes: host.maxRequestBytes ?? config.maxRequestBytes,
+    responseBytes: host.maxResponseBytes ?? config.maxResponseBytes,
+  };
+}
+
+/**
+ * Whether the `Content-Length` in `headers` already exceeds `maxBytes`.
+ * Bodies without one are counted while they stream instead.
+ */
+export function declaredTooLarge(
+  headers: Headers,
+  maxBytes: number | undefined,
+): boolean {
+  const length = headers.get("content-length");
+  return maxBytes !== undefined && length !== null && /^\d+$/.test(length) &&
+    Number(length) > maxBytes;
+}
+
+/** Raised when a body grows past its limit while streaming. */
+export class BodyTooLargeError extends Error {
+  direction: BodyDirection;
+  limitBytes: number;
+
+  constructor(direction: BodyDirection, limitBytes: number) {
+    super(`The ${direction} body exceeds the limit of ${limitBytes} bytes`);
+    this.name = "BodyTooLargeError";
+    this.direction = direction;
+    this.limitBytes = limitBytes;
+  }
+}
+
+/**
+ * Passes `stream` through until more than `maxBytes` went by. The chunk
+ * crossing the limit is not passed on: `onExceeded` is called, the source
+ * is cancelled and the stream fails with a {@link BodyTooLargeError}.
+ */
+export function limitStream(
+  stream: ReadableStream<Uint8Array>,
+  direction: BodyDirection,
+  maxBytes: number,
+  onExceeded: (error: BodyTooLargeError) => void,
+): ReadableStream<Uint8Array> {
+  let bytes = 0;
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        bytes += chunk.byteLength;
+        if (bytes > maxBytes) {
+          const error = new BodyTooLargeError(direction, maxBytes);
+          onExceeded(error);
+          controller.error(error);
+          return;
+        }
+        controller.enqueue(chunk);
+      },
+    }),
+  );
+}
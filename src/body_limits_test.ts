@@ -0,0 +1,64 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import {
+  BodyTooLargeError,
+  declaredTooLarge,
+  limitStream,
+  resolveBodyLimits,
+} from "./body_limits.ts";
+import { testConfig } from "./test_helpers.ts";
+
+Deno.test("resolveBodyLimits", () => {
+  const config = testConfig({ maxRequestBytes: 1000 });
+  assertEquals(resolveBodyLimits(config, { host: "a.test" }), {
+    requestBytes: 1000,
+    responseBytes: undefined,
+  });
+  assertEquals(
+    resolveBodyLimits(config, {
+      host: "a.test",
+      maxRequestBytes: 10,
+      maxResponseBytes: 20,
+    }),
+    { requestBytes: 10, responseBytes: 20 },
+  );
+});
+
+Deno.test("declaredTooLarge", () => {
+  const headers = new Headers({ "content-length": "11" });
+  assert(declaredTooLarge(headers, 10));
+  assert(!declaredTooLarge(headers, 11));
+  assert(!declaredTooLarge(headers, undefined));
+  assert(!declaredTooLarge(new Headers(), 10));
+  assert(!declaredTooLarge(new Headers({ "content-length": "x" }), 10));
+});
+
+Deno.test("limitStream", async (t) => {
+  await t.step("passes bodies within the limit through", async () => {
+    const limited = limitStream(
+      new Response("hello").body!,
+      "response",
+      5,
+      () => {
+        throw new Error("must not exceed");
+      },
+    );
+    assertEquals(await new Response(limited).text(), "hello");
+  });
+
+  await t.step("fails once the limit is exceeded", async () => {
+    let exceeded: BodyTooLargeError | undefined;
+    const limited = limitStream(
+      new Response("hello world").body!,
+      "request",
+      5,
+      (error) => exceeded = error,
+    );
+    await assertRejects(
+      () => new Response(limited).text(),
+      BodyTooLargeError,
+      "exceeds the limit of 5 bytes",
+    );
+    assertEquals(exceeded?.direction, "request");
+    assertEquals(exceeded?.limitBytes, 5);
+  });
+});
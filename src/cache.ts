@@ -0,0 +1,350 @@
+// ===================================================================
+// RESPONSE CACHE (RFC 9111 shared cache, pluggable store)
+// ===================================================================
+
+/** A stored upstream response, together with what is needed to age it. */
+export interface CachedResponse {
+  status: number;
+  statusText: string;
+  headers: [string, string][];
+  body: Uint8Array<ArrayBuffer>;
+  /** When the upstream request was sent, in ms since the epoch. */
+  requestTime: number;
+  /** When the upstream response arrived, in ms since the epoch. */
+  responseTime: number;
+  /** Values of the request headers named in `Vary` when it was stored. */
+  vary: Record<string, string | null>;
+}
+
+/**
+ * Keeps cached responses. Implementations decide where entries live: see
+ * {@link createMemoryCacheStore} (process memory) and `createKvCacheStore`
+ * (Deno KV, shared).
+ */
+export interface CacheStore {
+  get(key: string): Promise<CachedResponse | undefined>;
+  /** Stores `entry`; the store may drop it after `retainMs`. */
+  set(key: string, entry: CachedResponse, retainMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  /**
+   * Bytes held by this process, or `undefined` when the store cannot count
+   * them cheaply.
+   */
+  readonly size: number | undefined;
+  /** Releases any connection the store opened. */
+  close(): void;
+}
+
+/** Options for {@link createMemoryCacheStore}. */
+export interface MemoryCacheStoreOptions {
+  /** Total bytes of bodies and headers kept. Defaults to 50 MiB. */
+  maxBytes?: number;
+}
+
+/** Default for {@link MemoryCacheStoreOptions.maxBytes}. */
+export const DEFAULT_CACHE_MAX_BYTES = 50 * 1024 * 1024;
+
+/** Default for `CacheConfig.maxEntryBytes`. */
+export const DEFAULT_CACHE_MAX_ENTRY_BYTES = 1024 * 1024;
+
+/** How long entries are kept past freshness so they can be revalidated. */
+export const CACHE_STALE_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/** Approximate memory footprint of `entry`. */
+export function entrySize(entry: CachedResponse): number {
+  return entry.headers.reduce(
+    (sum, [name, value]) => sum + name.length + value.length,
+    entry.body.byteLength,
+  );
+}
+
+/**
+ * An in-memory store that evicts the least recently used entries once
+ * `maxBytes` is exceeded.
+ */
+export function createMemoryCacheStore(
+  options: MemoryCacheStoreOptions = {},
+): CacheStore {
+  const { maxBytes = DEFAULT_CACHE_MAX_BYTES } = options;
+  // Map iteration follows insertion order, so re-inserting on every hit
+  // keeps the least recently used entry first.
+  const entries = new Map<string, { entry: CachedResponse; size: number }>();
+  let bytes = 0;
+
+  const remove = (key: string) => {
+    const existing = entries.get(key);
+    if (existing) {
+      bytes -= existing.size;
+      entries.delete(key);
+    }
+  };
+
+  return {
+    get(key) {
+      const found = entries.get(key);
+      if (found) {
+        entries.delete(key);
+        entries.set(key, found);
+      }
+      return Promise.resolve(found?.entry);
+    },
+    set(key, entry) {
+      remove(key);
+      const size = entrySize(entry);
+      if (size <= maxBytes) {
+        entries.set(key, { entry, size });
+        bytes += size;
+        for (const oldest of entries.keys()) {
+          if (bytes <= maxBytes) break;
+          remove(oldest);
+        }
+      }
+      return Promise.resolve();
+    },
+    delete(key) {
+      remove(key);
+      return Promise.resolve();
+    },
+    get size() {
+      return bytes;
+    },
+    close() {},
+  };
+}
+
+/**
+ * Parses a `Cache-Control` header into lower-case directives. Directives
+ * without a value map to `true`.
+ */
+export function parseCacheControl(
+  value: string | null,
+): Map<string, string | true> {
+  const directives = new Map<string, string | true>();
+  for (const part of (value ?? "").split(",")) {
+    const [name, ...rest] = part.split("=");
+    const key = name.trim().toLowerCase();
+    if (!key) continue;
+    directives.set(
+      key,
+      rest.length ? rest.join("=").trim().replace(/^"(.*)"$/, "$1") : true,
+    );
+  }
+  return directives;
+}
+
+function seconds(value: string | true | undefined): number | undefined {
+  if (typeof value !== "string" || !/^\d+$/.test(value)) return undefined;
+  return Number(value) * 1000;
+}
+
+function dateHeader(headers: Headers, name: string): number | undefined {
+  const value = headers.get(name);
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/** Whether the client asked to bypass the cache entirely. */
+export function requestForbidsStorage(request: Headers): boolean {
+  return parseCacheControl(request.get("cache-control")).has("no-store");
+}
+
+/** Whether the client asked for a stored response to be revalidated. */
+export function requestRequiresRevalidation(request: Headers): boolean {
+  const directives = parseCacheControl(request.get("cache-control"));
+  return directives.has("no-cache") ||
+    seconds(directives.get("max-age")) === 0 ||
+    (!request.has("cache-control") &&
+      /no-cache/i.test(request.get("pragma") ?? ""));
+}
+
+const HEURISTICALLY_CACHEABLE = [
+  200,
+  203,
+  204,
+  300,
+  301,
+  308,
+  404,
+  405,
+  410,
+  414,
+  501,
+];
+
+/**
+ * Whether a shared cache may store `response` (RFC 9111 §3). Besides the
+ * usual directives this requires explicit freshness, a validator, or a
+ * host `ttlMs` override: the proxy never guesses a lifetime.
+ *
+ * `authorized` tells whether the client itself sent `Authorization`;
+ * such responses are only stored when the upstream marks them shareable.
+ */
+export function isStorable(
+  response: Response,
+  options: { authorized: boolean; ttlMs?: number },
+): boolean {
+  const { headers } = response;
+  const directives = parseCacheControl(headers.get("cache-control"));
+  if (!HEURISTICALLY_CACHEABLE.includes(response.status)) return false;
+  if (directives.has("no-store") || directives.has("private")) return false;
+  if (headers.has("set-cookie")) return false;
+  if ((headers.get("vary") ?? "").includes("*")) return false;
+  if (
+    options.authorized && !directives.has("public") &&
+    !directives.has("s-maxage") && !directives.has("must-revalidate")
+  ) {
+    return false;
+  }
+  return options.ttlMs !== undefined ||
+    directives.has("s-maxage") || directives.has("max-age") ||
+    headers.has("expires") || headers.has("etag") ||
+    headers.has("last-modified");
+}
+
+/** The request header names `headers` declares in `Vary`, lower case. */
+function varyNames(headers: Headers): string[] {
+  return (headers.get("vary") ?? "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/** Captures the request header values the response varies on. */
+export function varyValues(
+  response: Headers,
+  request: Headers,
+): Record<string, string | null> {
+  return Object.fromEntries(
+    varyNames(response).map((name) => [name, request.get(name)]),
+  );
+}
+
+/** Whether `entry` was stored for a request matching `request` on `Vary`. */
+export function varyMatches(entry: CachedResponse, request: Headers): boolean {
+  return Object.entries(entry.vary).every(([name, value]) =>
+    request.get(name) === value
+  );
+}
+
+/** Freshness lifetime and current age of `entry`, in milliseconds. */
+export function freshness(
+  entry: CachedResponse,
+  now: number,
+  ttlMs?: number,
+): { lifetimeMs: number; ageMs: number } {
+  const headers = new Headers(entry.headers);
+  const directives = parseCacheControl(headers.get("cache-control"));
+  const date = dateHeader(headers, "date") ?? entry.responseTime;
+  const expires = dateHeader(headers, "expires");
+  const lifetimeMs = ttlMs ?? seconds(directives.get("s-maxage")) ??
+    seconds(directives.get("max-age")) ??
+    (expires !== undefined ? Math.max(0, expires - date) : 0);
+
+  // RFC 9111 §4.2.3.
+  const apparentAge = Math.max(0, entry.responseTime - date);
+  const ageValue = Number(headers.get("age") ?? 0) * 1000 || 0;
+  const correctedAge = ageValue + (entry.responseTime - entry.requestTime);
+  const ageMs = Math.max(apparentAge, correctedAge) +
+    (now - entry.responseTime);
+  return { lifetimeMs, ageMs };
+}
+
+/** Whether `entry` may be served without contacting the upstream. */
+export function isFresh(
+  entry: CachedResponse,
+  now: number,
+  ttlMs?: number,
+): boolean {
+  const headers = new Headers(entry.headers);
+  if (ttlMs === undefined) {
+    const directives = parseCacheControl(headers.get("cache-control"));
+    if (directives.has("no-cache")) return false;
+  }
+  const { lifetimeMs, ageMs } = freshness(entry, now, ttlMs);
+  return lifetimeMs > ageMs;
+}
+
+/** Adds `If-None-Match` / `If-Modified-Since` for revalidating `entry`. */
+export function applyValidators(
+  headers: Headers,
+  entry: CachedResponse,
+): void {
+  const stored = new Headers(entry.headers);
+  const etag = stored.get("etag");
+  const lastModified = stored.get("last-modified");
+  if (etag) headers.set("if-none-match", etag);
+  if (lastModified) headers.set("if-modified-since", lastModified);
+}
+
+/** Whether `entry` carries a validator it can be revalidated with. */
+export function hasValidator(entry: CachedResponse): boolean {
+  return entry.headers.some(([name]) =>
+    name === "etag" || name === "last-modified"
+  );
+}
+
+/**
+ * Applies the headers of a `304 Not Modified` to `entry` (RFC 9111
+ * §4.3.4), returning the refreshed entry.
+ */
+export function refreshEntry(
+  entry: CachedResponse,
+  notModified: Response,
+  requestTime: number,
+  responseTime: number,
+): CachedResponse {
+  const headers = new Headers(entry.headers);
+  for (const [name, value] of notModified.headers) {
+    if (name !== "content-length") headers.set(name, value);
+  }
+  return { ...entry, headers: [...headers], requestTime, responseTime };
+}
+
+/**
+ * Reads `stream` into memory, or resolves `undefined` once it grows past
+ * `maxBytes` (cancelling the rest) or fails.
+ */
+export async function readBody(
+  stream: ReadableStream<Uint8Array>,
+  maxBytes: number,
+): Promise<Uint8Array<ArrayBuffer> | undefined> {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      length += value.byteLength;
+      if (length > maxBytes) {
+        await reader.cancel();
+        return undefined;
+      }
+      chunks.push(value);
+    }
+  } catch {
+    return undefined;
+  }
+  const body = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+/** Rebuilds a response from `entry`, with its current `Age`. */
+export function cachedToResponse(entry: CachedResponse, now: number): Response {
+  const headers = new Headers(entry.headers);
+  headers.set(
+    "age",
+    String(Math.floor(freshness(entry, now).ageMs / 1000)),
+  );
+  const nullBody = entry.status === 204 || entry.status === 304;
+  return new Response(nullBody ? null : entry.body, {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers,
+  });
+}
@@ -0,0 +1,92 @@
+// ===================================================================
+// RESPONSE CACHE (Deno KV store, shared across instances)
+// ===================================================================
+import { hashClientKey as hashKey } from "./auth.ts";
+import type { CachedResponse, CacheStore } from "./cache.ts";
+import type { KvLocation } from "./config.ts";
+import { kvPrefix, lazyKv } from "./kv.ts";
+
+/** Default Deno KV prefix for cached responses. */
+export const DEFAULT_KV_CACHE_PREFIX = ["proxy", "cache"];
+
+// Deno KV values are limited to 64 KiB, so bodies are split into chunks.
+const CHUNK_BYTES = 60 * 1024;
+
+interface StoredEntry extends Omit<CachedResponse, "body"> {
+  /** Identifies this entry's body chunks. */
+  bodyId: string;
+  chunks: number;
+  length: number;
+}
+
+/**
+ * A cache store in Deno KV, so every proxy instance sharing the database
+ * shares cached responses. Entries live at `[...prefix, "entry", hash]`
+ * with their bodies at `[...prefix, "body", bodyId, n]`; both expire in KV
+ * once the cache no longer needs them.
+ *
+ * Body chunks are written before the entry that points at them, under a
+ * fresh id per write, so readers never see a body from another response.
+ */
+export function createKvCacheStore(
+  source: Deno.Kv | KvLocation = {},
+): CacheStore {
+  const prefix = kvPrefix(source, DEFAULT_KV_CACHE_PREFIX);
+  const kv = lazyKv(source);
+
+  return {
+    async get(key) {
+      const db = await kv.get();
+      const entry =
+        (await db.get<StoredEntry>([...prefix, "entry", await hashKey(key)]))
+          .value;
+      if (!entry) return undefined;
+
+      const body = new Uint8Array(entry.length);
+      let offset = 0;
+      let chunks = 0;
+      for await (
+        const chunk of db.list<Uint8Array>({
+          prefix: [...prefix, "body", entry.bodyId],
+        })
+      ) {
+        body.set(chunk.value, offset);
+        offset += chunk.value.byteLength;
+        chunks++;
+      }
+      // Chunks may have expired independently; treat that as a miss.
+      if (chunks !== entry.chunks || offset !== entry.length) return undefined;
+
+      const { bodyId: _id, chunks: _n, length: _len, ...response } = entry;
+      return { ...response, body };
+    },
+    async set(key, entry, retainMs) {
+      const db = await kv.get();
+      const bodyId = crypto.randomUUID();
+      const expireIn = Math.max(1, retainMs);
+      const { body, ...response } = entry;
+      let chunks = 0;
+      for (let offset = 0; offset < body.byteLength; offset += CHUNK_BYTES) {
+        await db.set(
+          [...prefix, "body", bodyId, chunks++],
+          body.slice(offset, offset + CHUNK_BYTES),
+          { expireIn },
+        );
+      }
+      const stored: StoredEntry = {
+        ...response,
+        bodyId,
+        chunks,
+        length: body.byteLength,
+      };
+      await db.set([...prefix, "entry", await hashKey(key)], stored, {
+        expireIn,
+      });
+    },
+    async delete(key) {
+      await (await kv.get()).delete([...prefix, "entry", await hashKey(key)]);
+    },
+    size: undefined,
+    close: kv.close,
+  };
+}
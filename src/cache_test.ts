@@ -0,0 +1,156 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+  type CachedResponse,
+  createMemoryCacheStore,
+  isFresh,
+  isStorable,
+  parseCacheControl,
+  readBody,
+  varyMatches,
+} from "./cache.ts";
+import { createKvCacheStore } from "./cache_kv.ts";
+
+function entry(
+  headers: Record<string, string>,
+  body = "body",
+  overrides: Partial<CachedResponse> = {},
+): CachedResponse {
+  return {
+    status: 200,
+    statusText: "OK",
+    headers: Object.entries(headers),
+    body: new TextEncoder().encode(body),
+    requestTime: 0,
+    responseTime: 0,
+    vary: {},
+    ...overrides,
+  };
+}
+
+Deno.test("parseCacheControl", () => {
+  assertEquals(
+    [...parseCacheControl('Max-Age=60, no-cache="set-cookie", public')],
+    [["max-age", "60"], ["no-cache", "set-cookie"], ["public", true]],
+  );
+});
+
+Deno.test("isStorable", async (t) => {
+  const storable = (
+    headers: Record<string, string>,
+    options: { authorized?: boolean; ttlMs?: number; status?: number } = {},
+  ) =>
+    isStorable(new Response(null, { status: options.status ?? 200, headers }), {
+      authorized: options.authorized ?? false,
+      ttlMs: options.ttlMs,
+    });
+
+  await t.step("needs explicit freshness or a validator", () => {
+    assertEquals(storable({ "cache-control": "max-age=60" }), true);
+    assertEquals(storable({ etag: '"v1"' }), true);
+    assertEquals(storable({}), false);
+    assertEquals(storable({}, { ttlMs: 1000 }), true);
+  });
+
+  await t.step("honors no-store, private and Vary: *", () => {
+    assertEquals(storable({ "cache-control": "no-store, max-age=60" }), false);
+    assertEquals(storable({ "cache-control": "private, max-age=60" }), false);
+    assertEquals(storable({ "cache-control": "max-age=60", vary: "*" }), false);
+  });
+
+  await t.step("shares authorized responses only when marked", () => {
+    const fresh = { "cache-control": "max-age=60" };
+    assertEquals(storable(fresh, { authorized: true }), false);
+    assertEquals(
+      storable({ "cache-control": "public, max-age=60" }, { authorized: true }),
+      true,
+    );
+  });
+
+  await t.step("skips statuses that are not cacheable by default", () => {
+    assertEquals(
+      storable({ "cache-control": "max-age=60" }, { status: 500 }),
+      false,
+    );
+  });
+});
+
+Deno.test("isFresh", async (t) => {
+  await t.step("ages entries from max-age and Age", () => {
+    const cached = entry({ "cache-control": "max-age=60", age: "30" });
+    assertEquals(isFresh(cached, 29_000), true);
+    assertEquals(isFresh(cached, 31_000), false);
+  });
+
+  await t.step("uses Expires relative to Date", () => {
+    const cached = entry({
+      date: new Date(0).toUTCString(),
+      expires: new Date(10_000).toUTCString(),
+    });
+    assertEquals(isFresh(cached, 9_000), true);
+    assertEquals(isFresh(cached, 11_000), false);
+  });
+
+  await t.step("treats no-cache as always stale", () => {
+    assertEquals(isFresh(entry({ "cache-control": "no-cache" }), 0), false);
+  });
+
+  await t.step("lets a host TTL override upstream headers", () => {
+    const cached = entry({ "cache-control": "no-cache" });
+    assertEquals(isFresh(cached, 4_000, 5_000), true);
+  });
+});
+
+Deno.test("varyMatches", () => {
+  const cached = entry({}, "body", { vary: { "accept-language": "en" } });
+  assertEquals(
+    varyMatches(cached, new Headers({ "accept-language": "en" })),
+    true,
+  );
+  assertEquals(
+    varyMatches(cached, new Headers({ "accept-language": "de" })),
+    false,
+  );
+});
+
+Deno.test("readBody gives up past the limit", async () => {
+  const body = () => new Response("0123456789").body!;
+  assertEquals(
+    new TextDecoder().decode(await readBody(body(), 10)),
+    "0123456789",
+  );
+  assertEquals(await readBody(body(), 9), undefined);
+});
+
+Deno.test("createMemoryCacheStore evicts least recently used", async () => {
+  const store = createMemoryCacheStore({ maxBytes: 10 });
+  await store.set("a", entry({}, "aaaa"), 1000);
+  await store.set("b", entry({}, "bbbb"), 1000);
+  await store.get("a");
+  await store.set("c", entry({}, "cccc"), 1000);
+  assert(await store.get("a"));
+  assertEquals(await store.get("b"), undefined);
+  assert(await store.get("c"));
+  assertEquals(store.size, 8);
+});
+
+Deno.test("createKvCacheStore round-trips chunked bodies", async () => {
+  const dir = await Deno.makeTempDir();
+  const kv = await Deno.openKv(`${dir}/cache.db`);
+  try {
+    const store = createKvCacheStore(kv);
+    const large = "x".repeat(150 * 1024);
+    const cached = entry({ etag: '"v1"' }, large, { vary: { accept: null } });
+    await store.set("api.example.com/big", cached, 60_000);
+
+    const loaded = await store.get("api.example.com/big");
+    assertEquals(loaded?.body.byteLength, cached.body.byteLength);
+    assertEquals(loaded?.headers, cached.headers);
+    assertEquals(loaded?.vary, { accept: null });
+
+    await store.delete("api.example.com/big");
+    assertEquals(await store.get("api.example.com/big"), undefined);
+  } finally {
+    kv.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,114 @@
+// ===================================================================
+// CIRCUIT BREAKER (Failing fast while an upstream is down)
+// ===================================================================
+
+/**
+ * Circuit breaker settings. After `failureThreshold` consecutive failures
+ * the circuit opens and requests fail fast for `resetMs`; then a single
+ * trial request decides whether it closes again.
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive failures that open the circuit. Defaults to 5. */
+  failureThreshold?: number;
+  /** Milliseconds the circuit stays open. Defaults to 30000. */
+  resetMs?: number;
+}
+
+/** Default for {@link CircuitBreakerConfig.failureThreshold}. */
+export const DEFAULT_FAILURE_THRESHOLD = 5;
+
+/** Default for {@link CircuitBreakerConfig.resetMs}. */
+export const DEFAULT_CIRCUIT_RESET_MS = 30000;
+
+/** `half_open` while a trial request is deciding. */
+export type CircuitState = "closed" | "open" | "half_open";
+
+/** Outcome of {@link CircuitBreaker.allow}. */
+export type CircuitDecision =
+  | { allowed: true }
+  | { allowed: false; retryAfterMs: number };
+
+/** Tracks upstream failures per key (a target hostname). */
+export interface CircuitBreaker {
+  /**
+   * Whether a request to `key` may go out. Once the open period is over,
+   * one caller is let through as the trial; the others keep failing fast
+   * until it reports back.
+   */
+  allow(
+    key: string,
+    config: CircuitBreakerConfig,
+    now?: number,
+  ): CircuitDecision;
+  /** Records a working response from `key`, closing its circuit. */
+  success(key: string): void;
+  /**
+   * Records a failed request to `key`. Returns `true` when this failure
+   * opened the circuit.
+   */
+  failure(key: string, config: CircuitBreakerConfig, now?: number): boolean;
+  state(key: string, now?: number): CircuitState;
+  /** Number of upstreams with failures on record. */
+  readonly size: number;
+}
+
+interface Circuit {
+  failures: number;
+  /** While open: when the next trial may go out. */
+  openUntil?: number;
+  /** A trial is under way; it expires like an open period. */
+  trialUntil?: number;
+}
+
+/** Creates an in-memory circuit breaker. */
+export function createCircuitBreaker(): CircuitBreaker {
+  const circuits = new Map<string, Circuit>();
+
+  const open = (
+    circuit: Circuit,
+    config: CircuitBreakerConfig,
+    now: number,
+  ) => {
+    circuit.openUntil = now + (config.resetMs ?? DEFAULT_CIRCUIT_RESET_MS);
+    circuit.trialUntil = undefined;
+  };
+
+  return {
+    allow(key, config, now = Date.now()) {
+      const circuit = circuits.get(key);
+      if (!circuit?.openUntil) return { allowed: true };
+      if (now < circuit.openUntil) {
+        return { allowed: false, retryAfterMs: circuit.openUntil - now };
+      }
+      // A trial that never reported back does not block the next one.
+      if (circuit.trialUntil !== undefined && now < circuit.trialUntil) {
+        return { allowed: false, retryAfterMs: circuit.trialUntil - now };
+      }
+      circuit.trialUntil = now + (config.resetMs ?? DEFAULT_CIRCUIT_RESET_MS);
+      return { allowed: true };
+    },
+    success(key) {
+      circuits.delete(key);
+    },
+    failure(key, config, now = Date.now()) {
+      const circuit = circuits.get(key) ?? { failures: 0 };
+      circuits.set(key, circuit);
+      circuit.failures++;
+      const threshold = config.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+      // A failed trial reopens the circuit straight away.
+      if (circuit.trialUntil !== undefined || circuit.failures === threshold) {
+        open(circuit, config, now);
+        return true;
+      }
+      return false;
+    },
+    state(key, now = Date.now()) {
+      const circuit = circuits.get(key);
+      if (!circuit?.openUntil) return "closed";
+      return now < circuit.openUntil ? "open" : "half_open";
+    },
+    get size() {
+      return circuits.size;
+    },
+  };
+}
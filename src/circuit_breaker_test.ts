@@ -0,0 +1,47 @@
+import { assertEquals } from "@std/assert";
+import { createCircuitBreaker } from "./circuit_breaker.ts";
+
+Deno.test("createCircuitBreaker", async (t) => {
+  const config = { failureThreshold: 2, resetMs: 1000 };
+
+  await t.step("opens after consecutive failures", () => {
+    const breaker = createCircuitBreaker();
+    assertEquals(breaker.failure("a.test", config, 0), false);
+    breaker.success("a.test");
+    assertEquals(breaker.failure("a.test", config, 0), false);
+    assertEquals(breaker.allow("a.test", config, 0), { allowed: true });
+    assertEquals(breaker.failure("a.test", config, 100), true);
+    assertEquals(breaker.state("a.test", 100), "open");
+    assertEquals(breaker.allow("a.test", config, 600), {
+      allowed: false,
+      retryAfterMs: 500,
+    });
+    assertEquals(breaker.allow("b.test", config, 600), { allowed: true });
+  });
+
+  await t.step("lets one trial through once the period is over", () => {
+    const breaker = createCircuitBreaker();
+    breaker.failure("a.test", config, 0);
+    breaker.failure("a.test", config, 0);
+    assertEquals(breaker.state("a.test", 1000), "half_open");
+    assertEquals(breaker.allow("a.test", config, 1000), { allowed: true });
+    assertEquals(breaker.allow("a.test", config, 1001).allowed, false);
+
+    // A failed trial reopens the circuit at once.
+    assertEquals(breaker.failure("a.test", config, 1200), true);
+    assertEquals(breaker.allow("a.test", config, 2100).allowed, false);
+
+    assertEquals(breaker.allow("a.test", config, 2200), { allowed: true });
+    breaker.success("a.test");
+    assertEquals(breaker.state("a.test", 2200), "closed");
+    assertEquals(breaker.size, 0);
+  });
+
+  await t.step("does not wait forever for a lost trial", () => {
+    const breaker = createCircuitBreaker();
+    breaker.failure("a.test", config, 0);
+    breaker.failure("a.test", config, 0);
+    assertEquals(breaker.allow("a.test", config, 1000).allowed, true);
+    assertEquals(breaker.allow("a.test", config, 2000).allowed, true);
+  });
+});
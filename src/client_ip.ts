@@ -0,0 +1,194 @@
+// ===================================================================
+// CLIENT IP RESOLUTION (Trusted proxies, X-Forwarded-For, Forwarded)
+// ===================================================================
+
+/** A parsed IPv4 or IPv6 address. IPv4-mapped IPv6 is folded into IPv4. */
+export interface IpAddress {
+  version: 4 | 6;
+  value: bigint;
+}
+
+/** A parsed CIDR block such as `10.0.0.0/8` or `fd00::/8`. */
+export interface Cidr {
+  version: 4 | 6;
+  base: bigint;
+  bits: number;
+}
+
+const IPV4 = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+function parseIpv4(text: string): bigint | undefined {
+  const match = IPV4.exec(text);
+  if (!match) return undefined;
+  let value = 0n;
+  for (const octet of match.slice(1)) {
+    const n = Number(octet);
+    if (n > 255) return undefined;
+    value = (value << 8n) | BigInt(n);
+  }
+  return value;
+}
+
+function parseIpv6(text: string): bigint | undefined {
+  const halves = text.split("::");
+  if (halves.length > 2) return undefined;
+  const toGroups = (part: string): number[] | undefined => {
+    if (part === "") return [];
+    const groups: number[] = [];
+    const pieces = part.split(":");
+    for (let i = 0; i < pieces.length; i++) {
+      const piece = pieces[i];
+      if (i === pieces.length - 1 && piece.includes(".")) {
+        const v4 = parseIpv4(piece);
+        if (v4 === undefined) return undefined;
+        groups.push(Number(v4 >> 16n), Number(v4 & 0xffffn));
+      } else if (/^[0-9a-f]{1,4}$/i.test(piece)) {
+        groups.push(parseInt(piece, 16));
+      } else {
+        return undefined;
+      }
+    }
+    return groups;
+  };
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  if (!head || !tail) return undefined;
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return undefined;
+  const groups = [...head, ...Array(missing).fill(0), ...tail];
+  return groups.reduce((acc, g) => (acc << 16n) | BigInt(g), 0n);
+}
+
+/**
+ * Parses an IP address, tolerating IPv6 brackets and zone ids. Returns
+ * `undefined` for anything that is not an address (e.g. `unknown`).
+ */
+export function parseIp(text: string): IpAddress | undefined {
+  let address = text.trim();
+  if (address.startsWith("[") && address.endsWith("]")) {
+    address = address.slice(1, -1);
+  }
+  address = address.replace(/%.*$/, "");
+
+  const v4 = parseIpv4(address);
+  if (v4 !== undefined) return { version: 4, value: v4 };
+  const v6 = parseIpv6(address);
+  if (v6 === undefined) return undefined;
+  if (v6 >> 32n === 0xffffn) {
+    return { version: 4, value: v6 & 0xffffffffn };
+  }
+  return { version: 6, value: v6 };
+}
+
+/**
+ * Parses a CIDR block. A bare address is treated as a single-host block.
+ *
+ * @throws {Error} when `text` is not a valid address or prefix length.
+ */
+export function parseCidr(text: string): Cidr {
+  const [address, prefix, ...rest] = text.trim().split("/");
+  const ip = parseIp(address);
+  const maxBits = ip?.version === 4 ? 32 : 128;
+  const bits = prefix === undefined ? maxBits : Number(prefix);
+  if (
+    !ip || rest.length > 0 || !Number.isInteger(bits) || bits < 0 ||
+    bits > maxBits || (prefix !== undefined && !/^\d+$/.test(prefix))
+  ) {
+    throw new Error(`Invalid CIDR "${text}"`);
+  }
+  const shift = BigInt(maxBits - bits);
+  return { version: ip.version, base: (ip.value >> shift) << shift, bits };
+}
+
+/** Whether `ip` falls inside any of `cidrs`. */
+export function ipInCidrs(ip: IpAddress, cidrs: Cidr[]): boolean {
+  return cidrs.some((cidr) => {
+    if (cidr.version !== ip.version) return false;
+    const shift = BigInt((ip.version === 4 ? 32 : 128) - cidr.bits);
+    return (ip.value >> shift) << shift === cidr.base;
+  });
+}
+
+/** Strips a port from a node such as `1.2.3.4:80` or `[::1]:80`. */
+function stripPort(node: string): string {
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(node);
+  if (bracketed) return bracketed[1];
+  const v4WithPort = /^(\d{1,3}(?:\.\d{1,3}){3}):\d+$/.exec(node);
+  return v4WithPort ? v4WithPort[1] : node;
+}
+
+/** The `for=` nodes of an RFC 7239 `Forwarded` header, in order. */
+export function parseForwardedFor(value: string): string[] {
+  const nodes: string[] = [];
+  for (const element of value.split(",")) {
+    for (const pair of element.split(";")) {
+      const eq = pair.indexOf("=");
+      if (eq === -1) continue;
+      if (pair.slice(0, eq).trim().toLowerCase() !== "for") continue;
+      const node = pair.slice(eq + 1).trim().replace(/^"(.*)"$/, "$1");
+      nodes.push(stripPort(node));
+    }
+  }
+  return nodes;
+}
+
+/** The addresses listed in an `X-Forwarded-For` header, in order. */
+export function parseXForwardedFor(value: string): string[] {
+  return value.split(",").map((node) => stripPort(node.trim())).filter(
+    Boolean,
+  );
+}
+
+/** The hops recorded by `Forwarded` if present, else `X-Forwarded-For`. */
+function recordedHops(headers: Headers): string[] {
+  const forwarded = headers.get("forwarded");
+  if (forwarded) return parseForwardedFor(forwarded);
+  const xff = headers.get("x-forwarded-for");
+  return xff ? parseXForwardedFor(xff) : [];
+}
+
+/**
+ * Determines the real client address for a request received from `peer`.
+ *
+ * Forwarding headers are only believed when `peer` is a trusted proxy. The
+ * recorded hops are then walked from the right, skipping trusted proxies,
+ * and the first untrusted address is the client. If a trusted hop recorded
+ * something that is not an address, the nearest trusted hop is used.
+ */
+export function resolveClientIp(
+  peer: string,
+  headers: Headers,
+  trusted: Cidr[],
+): string {
+  const peerIp = parseIp(peer);
+  if (!peerIp || !ipInCidrs(peerIp, trusted)) return peer;
+
+  const chain = recordedHops(headers);
+  let client = peer;
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const ip = parseIp(chain[i]);
+    if (!ip) break;
+    client = chain[i];
+    if (!ipInCidrs(ip, trusted)) break;
+  }
+  return client;
+}
+
+/**
+ * The `X-Forwarded-For` chain to send upstream: the hops recorded by a
+ * trusted `peer` followed by the peer itself. Hops claimed by an untrusted
+ * peer are dropped, as are recorded nodes that are not IPs (`unknown`,
+ * obfuscated `_hidden` identifiers). A peer that is not an IP (a Unix
+ * socket) adds nothing.
+ */
+export function forwardedForChain(
+  peer: string,
+  headers: Headers,
+  trusted: Cidr[],
+): string[] {
+  const peerIp = parseIp(peer);
+  if (!peerIp) return [];
+  if (!ipInCidrs(peerIp, trusted)) return [peer];
+  const hops = recordedHops(headers).filter((node) => parseIp(node));
+  return [...hops, peer];
+}
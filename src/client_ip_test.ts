@@ -0,0 +1,116 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  forwardedForChain,
+  ipInCidrs,
+  parseCidr,
+  parseForwardedFor,
+  parseIp,
+  resolveClientIp,
+} from "./client_ip.ts";
+
+Deno.test("parseIp", async (t) => {
+  await t.step("parses IPv4 and IPv6", () => {
+    assertEquals(parseIp("10.0.0.1"), { version: 4, value: 0x0a000001n });
+    assertEquals(parseIp("::1"), { version: 6, value: 1n });
+    assertEquals(parseIp("[2001:db8::1]")?.value, 0x20010db8n << 96n | 1n);
+    assertEquals(parseIp("fe80::1%eth0")?.version, 6);
+  });
+
+  await t.step("folds IPv4-mapped IPv6 into IPv4", () => {
+    assertEquals(parseIp("::ffff:10.0.0.1"), parseIp("10.0.0.1"));
+  });
+
+  await t.step("rejects non-addresses", () => {
+    for (const text of ["unknown", "_hidden", "256.0.0.1", "1::2::3", "1:2"]) {
+      assertEquals(parseIp(text), undefined, text);
+    }
+  });
+});
+
+Deno.test("parseCidr", async (t) => {
+  await t.step("matches addresses inside the block", () => {
+    const cidrs = ["10.0.0.0/8", "fd00::/8", "192.0.2.7"].map(parseCidr);
+    const inside = (ip: string) => ipInCidrs(parseIp(ip)!, cidrs);
+    assertEquals(inside("10.255.0.1"), true);
+    assertEquals(inside("11.0.0.1"), false);
+    assertEquals(inside("fd12::1"), true);
+    assertEquals(inside("fe80::1"), false);
+    assertEquals(inside("192.0.2.7"), true);
+    assertEquals(inside("192.0.2.8"), false);
+  });
+
+  await t.step("rejects invalid blocks", () => {
+    for (const text of ["10.0.0.0/33", "10.0.0.0/", "::/129", "host/8"]) {
+      assertThrows(() => parseCidr(text), Error, "Invalid CIDR", text);
+    }
+  });
+});
+
+Deno.test("parseForwardedFor", () => {
+  assertEquals(
+    parseForwardedFor(
+      'for=192.0.2.43;proto=https, For="[2001:db8:cafe::17]:4711", by=x',
+    ),
+    ["192.0.2.43", "2001:db8:cafe::17"],
+  );
+});
+
+Deno.test("resolveClientIp", async (t) => {
+  const trusted = ["10.0.0.0/8"].map(parseCidr);
+
+  await t.step("skips trusted hops from the right", () => {
+    const headers = new Headers({
+      "x-forwarded-for": "1.1.1.1, 203.0.113.7, 10.0.0.2",
+    });
+    assertEquals(resolveClientIp("10.0.0.1", headers, trusted), "203.0.113.7");
+  });
+
+  await t.step("prefers Forwarded over X-Forwarded-For", () => {
+    const headers = new Headers({
+      "forwarded": "for=203.0.113.9",
+      "x-forwarded-for": "203.0.113.7",
+    });
+    assertEquals(resolveClientIp("10.0.0.1", headers, trusted), "203.0.113.9");
+  });
+
+  await t.step("ignores headers from untrusted peers", () => {
+    const headers = new Headers({ "x-forwarded-for": "203.0.113.7" });
+    assertEquals(resolveClientIp("192.0.2.1", headers, trusted), "192.0.2.1");
+  });
+
+  await t.step("stops at a hop that is not an address", () => {
+    const headers = new Headers({ "x-forwarded-for": "unknown, 10.0.0.2" });
+    assertEquals(resolveClientIp("10.0.0.1", headers, trusted), "10.0.0.2");
+  });
+});
+
+Deno.test("forwardedForChain", () => {
+  const trusted = ["10.0.0.0/8"].map(parseCidr);
+  const headers = new Headers({ "x-forwarded-for": "203.0.113.7" });
+  assertEquals(forwardedForChain("10.0.0.1", headers, trusted), [
+    "203.0.113.7",
+    "10.0.0.1",
+  ]);
+  assertEquals(forwardedForChain("192.0.2.1", headers, trusted), [
+    "192.0.2.1",
+  ]);
+  assertEquals(forwardedForChain("unix:/run/proxy.sock", headers, trusted), []);
+  assertEquals(
+    forwardedForChain(
+      "10.0.0.1",
+      new Headers({
+        forwarded: 'for=unknown, for=_hidden, for="[2001:db8::1]:80"',
+      }),
+      trusted,
+    ),
+    ["2001:db8::1", "10.0.0.1"],
+  );
+  assertEquals(
+    forwardedForChain(
+      "10.0.0.1",
+      new Headers({ "x-forwarded-for": "unknown, 203.0.113.7" }),
+      trusted,
+    ),
+    ["203.0.113.7", "10.0.0.1"],
+  );
+});
@@ -0,0 +1,568 @@
+// ===================================================================
+// 1. CONFIGURATION
+// ===================================================================
+import type { CircuitBreakerConfig } from "./circuit_breaker.ts";
+import type { RateLimitConfig } from "./rate_limit.ts";
+import type { RetryConfig } from "./retry.ts";
+import type { HostResolver } from "./ssrf.ts";
+import type { WebSocketConnector } from "./websocket.ts";
+
+/**
+ * Header edits applied in one direction (to requests or to responses), in
+ * the order of the fields below. Values may contain the placeholders
+ * `{clientId}`, `{clientIp}`, `{requestId}`, `{targetHost}` and `{version}`.
+ */
+export interface HeaderRules {
+  /** Headers to remove. */
+  remove?: string[];
+  /** Headers to rename (old name → new name), keeping their values. */
+  rename?: Record<string, string>;
+  /** Headers to set, overriding any value already present. */
+  set?: Record<string, string>;
+  /** Headers to add alongside any value already present. */
+  add?: Record<string, string>;
+  /**
+   * Headers the default policy removes that are passed on anyway. Hop-by-hop
+   * headers are always removed.
+   */
+  keep?: string[];
+}
+
+/**
+ * Header edits, applied after the hop-by-hop headers are stripped and the
+ * default policy (see `DEFAULT_HEADER_POLICY`) ran.
+ */
+export interface HeaderPolicy {
+  /** Edits applied to the request forwarded upstream. */
+  request?: HeaderRules;
+  /** Edits applied to the response returned to the client. */
+  response?: HeaderRules;
+}
+
+/**
+ * An allow or deny rule on request paths (and optionally methods) for a
+ * host. Rules are evaluated in order; see `evaluateRoutes` for details.
+ */
+export interface RouteRule {
+  /** Whether a matching request is let through or rejected. */
+  action: "allow" | "deny";
+  /**
+   * Path glob, matched against the upstream path. `*` matches within one
+   * segment and `**` matches any number of segments (`/v1/files/**` also
+   * matches `/v1/files`).
+   */
+  path: string;
+  /** Methods the rule applies to (upper case). All methods when omitted. */
+  methods?: string[];
+  /** Label used in rejection messages and logs. */
+  name?: string;
+}
+
+/**
+ * A secret the proxy adds to upstream requests for a host, replacing any
+ * value the client sent in the same place. Exactly one of `header`/`query`
+ * and one of `env`/`value` must be set.
+ */
+export interface UpstreamCredential {
+  /** Request header to set (e.g. `authorization`). */
+  header?: string;
+  /** Query parameter to set (e.g. `key`). */
+  query?: string;
+  /** Environment variable holding the secret. */
+  env?: string;
+  /** The secret itself. Prefer `env` so secrets stay out of config files. */
+  value?: string;
+  /** Text prepended to the secret, e.g. `"Bearer "`. */
+  prefix?: string;
+}
+
+/**
+ * Cross-origin access to a host. The proxy answers preflights itself and
+ * sets the `Access-Control-*` headers on responses, replacing any the
+ * upstream sent.
+ */
+export interface CorsConfig {
+  /**
+   * Allowed origins, e.g. `https://app.example.com`. A `*` inside a pattern
+   * matches one hostname label or a port (`https://*.example.com`,
+   * `http://localhost:*`); `"*"` alone allows every origin.
+   */
+  origins: string[];
+  /** Methods allowed cross-origin (upper case). Any method when omitted. */
+  methods?: string[];
+  /** Request headers allowed. Whatever the browser asks for when omitted. */
+  headers?: string[];
+  /** Response headers exposed to scripts beyond the CORS-safelisted ones. */
+  exposeHeaders?: string[];
+  /**
+   * Allow cookies and HTTP authentication on cross-origin requests. Needs
+   * explicit `origins`; `"*"` is rejected.
+   */
+  credentials?: boolean;
+  /** Seconds browsers may cache a preflight answer. */
+  maxAge?: number;
+}
+
+/** Response caching for one host; see {@link CacheConfig}. */
+export interface HostCacheConfig {
+  /** Set to `false` to never cache this host. Defaults to `true`. */
+  enabled?: boolean;
+  /**
+   * Freshness lifetime in seconds, overriding the upstream's
+   * `Cache-Control`/`Expires`. Responses marked `no-store` or `private`
+   * are still not stored.
+   */
+  ttl?: number;
+}
+
+/** Settings for one whitelisted host pattern. */
+export interface HostConfig {
+  /**
+   * Host pattern (e.g. `api.openai.com`, `*.github.com`). A `*` matches a
+   * single hostname label. A scheme and port may be given, as in
+   * `http://localhost:9000`; the default is `https` on its default port.
+   */
+  host: string;
+  /** Overrides {@link ProxyConfig.timeoutMs} for this host. */
+  timeoutMs?: number;
+  /** Overrides {@link ProxyConfig.idleTimeoutMs} for this host. */
+  idleTimeoutMs?: number;
+  /** Overrides {@link ProxyConfig.totalTimeoutMs} for this host. */
+  totalTimeoutMs?: number;
+  /** Overrides {@link ProxyConfig.maxRequestBytes} for this host. */
+  maxRequestBytes?: number;
+  /** Overrides {@link ProxyConfig.maxResponseBytes} for this host. */
+  maxResponseBytes?: number;
+  /**
+   * Additional per-client limit for this host, enforced after the global
+   * {@link ProxyConfig.rateLimit}.
+   */
+  rateLimit?: RateLimitConfig;
+  /** Allowed HTTP methods (upper case). All methods when omitted. */
+  methods?: string[];
+  /**
+   * Path and method rules, evaluated after the host matched. When at least
+   * one `allow` rule exists, requests matching no rule are rejected.
+   */
+  routes?: RouteRule[];
+  /** Header edits for this host. */
+  headers?: HeaderPolicy;
+  /**
+   * `drop` (the default) removes `Set-Cookie` from responses. `rewrite`
+   * passes cookies on, scoped to the `/<targetHost>` path on the proxy's
+   * host, and sends upstream only the cookies it set.
+   */
+  cookies?: "drop" | "rewrite";
+  /**
+   * Rewrite URLs in HTML and CSS responses to proxy paths, so pages can be
+   * browsed through the proxy.
+   */
+  rewriteContent?: boolean;
+  /** Overrides {@link ProxyConfig.offsiteLocations} for this host. */
+  offsiteLocations?: "pass" | "block";
+  /** Upstream credentials injected into every request to this host. */
+  credentials?: UpstreamCredential[];
+  /**
+   * Cross-origin access for browsers. When omitted, preflights are
+   * forwarded and upstream CORS headers pass through unchanged.
+   */
+  cors?: CorsConfig;
+  /**
+   * Allow targets that are IP literals or resolve to loopback, link-local,
+   * private or other internal addresses. Off by default to prevent SSRF.
+   */
+  allowInternalAddresses?: boolean;
+  /**
+   * Allow a plain `http://` scheme in {@link host} (or in an upstream's
+   * backends). Off by default: requests, responses and injected
+   * credentials would cross the network unencrypted.
+   */
+  allowHttp?: boolean;
+  /** Response caching for this host, when {@link ProxyConfig.cache} is on. */
+  cache?: HostCacheConfig;
+  /** Overrides {@link ProxyConfig.retry} for this host. */
+  retry?: RetryConfig;
+  /** Overrides {@link ProxyConfig.circuitBreaker} for this host. */
+  circuitBreaker?: CircuitBreakerConfig;
+}
+
+/** How an {@link UpstreamConfig} spreads requests over its backends. */
+export type BalanceStrategy = "round_robin" | "priority";
+
+/** Active health checks for the backends of an {@link UpstreamConfig}. */
+export interface HealthCheckConfig {
+  /**
+   * Path fetched with `GET`, below each backend's base URL. Any response
+   * below 500 counts as healthy. Defaults to `/`.
+   */
+  path?: string;
+  /** Milliseconds between checks. Defaults to 10000. */
+  intervalMs?: number;
+  /** Milliseconds to wait for an answer. Defaults to 5000. */
+  timeoutMs?: number;
+}
+
+/**
+ * A named route: requests to `/<name>/...` go to one of `backends`, with
+ * the same settings a {@link HostConfig} has. Names take precedence over
+ * literal target hosts.
+ */
+export interface UpstreamConfig extends Omit<HostConfig, "host"> {
+  /** First path segment selecting this upstream, e.g. `openai`. */
+  name: string;
+  /**
+   * Backend base URLs (scheme, host, optional port and path prefix), e.g.
+   * `https://api.openai.com/v1`. The rest of the request path is appended.
+   */
+  backends: string[];
+  /**
+   * `round_robin` (the default) takes turns; `priority` uses the first
+   * healthy backend in list order and fails over to the next.
+   */
+  balance?: BalanceStrategy;
+  /** Probe backends in the background. All count as healthy when omitted. */
+  healthCheck?: HealthCheckConfig;
+}
+
+/** A proxy-issued client key, stored by the SHA-256 hash of its secret. */
+export interface ClientKeyConfig {
+  /** Stable identifier used for rate limiting and logs. */
+  id: string;
+  /** Lower-case hex SHA-256 of the key (see `hashClientKey`). */
+  hash: string;
+  /**
+   * Host patterns or upstream names this key may reach. Every whitelisted
+   * host and upstream if omitted.
+   */
+  hosts?: string[];
+  /** Route rules this key is additionally restricted by. */
+  routes?: RouteRule[];
+  /** Overrides the global rate limit for this key. */
+  rateLimit?: RateLimitConfig;
+}
+
+/** Where in Deno KV a store keeps its entries. */
+export interface KvLocation {
+  /** Database path passed to `Deno.openKv`. The default database if omitted. */
+  path?: string;
+  /** Key prefix the store's entries live under. */
+  prefix?: string[];
+}
+
+/** Location of client keys kept in Deno KV; entries live at `[...prefix, hash]`. */
+export type KvKeyStoreConfig = KvLocation;
+
+/**
+ * Where rate-limit buckets are kept: in process memory (the default), or in
+ * Deno KV so that several proxy instances share one limit.
+ */
+export type RateLimitStoreConfig =
+  | { type: "memory" }
+  | ({ type: "kv" } & KvLocation);
+
+/**
+ * Where cached responses are kept: in process memory, bounded by
+ * `maxBytes` (50 MiB by default), or in Deno KV to share them between
+ * proxy instances.
+ */
+export type CacheStoreConfig =
+  | { type: "memory"; maxBytes?: number }
+  | ({ type: "kv" } & KvLocation);
+
+/** A shared HTTP cache for `GET` responses, following RFC 9111. */
+export interface CacheConfig {
+  /** Where entries live. Defaults to `{ type: "memory" }`. */
+  store?: CacheStoreConfig;
+  /** Largest response body stored, in bytes. Defaults to 1 MiB. */
+  maxEntryBytes?: number;
+}
+
+/** Default for {@link ProxyConfig.adminPrefix}. */
+export const DEFAULT_ADMIN_PREFIX = "/_proxy";
+
+/** The Prometheus metrics endpoint. */
+export interface MetricsConfig {
+  /**
+   * Path the metrics are served on, instead of being proxied. Defaults to
+   * `<adminPrefix>/metrics`.
+   */
+  path?: string;
+  /** Bearer token scrapers must send. Anyone may scrape when omitted. */
+  token?: string;
+}
+
+/** An upstream the readiness endpoint must be able to reach. */
+export interface ReadinessCheck {
+  /** Label in the readiness report. Defaults to the URL's host. */
+  name?: string;
+  /** URL fetched with `GET`; any response below 500 counts as reachable. */
+  url: string;
+  /** Milliseconds to wait for a response. Defaults to 5000. */
+  timeoutMs?: number;
+}
+
+/**
+ * W3C trace context handling and OpenTelemetry span export. With tracing
+ * on, the proxy joins incoming traces and records a span per request.
+ */
+export interface TracingConfig {
+  /**
+   * OTLP/HTTP traces endpoint, e.g. `http://localhost:4318/v1/traces`.
+   * Trace context is still propagated when omitted, but no spans are sent.
+   */
+  endpoint?: string;
+  /** Extra headers for the collector, e.g. an API key. */
+  headers?: Record<string, string>;
+  /** `service.name` resource attribute. Defaults to `deno-proxy`. */
+  serviceName?: string;
+  /**
+   * Share of new traces recorded, from 0 to 1. Requests joining a trace
+   * follow the caller's sampling decision instead. Defaults to 1.
+   */
+  sampleRatio?: number;
+}
+
+/** Line format of the access log. */
+export type AccessLogFormat = "json" | "combined";
+
+/** One log entry per request, written once its response has been sent. */
+export interface AccessLogConfig {
+  /**
+   * `json` (the default) writes structured lines like the proxy's other
+   * logs; `combined` writes the Apache/NGINX combined log format.
+   */
+  format?: AccessLogFormat;
+}
+
+/** Client authentication with proxy-issued API keys. */
+export interface AuthConfig {
+  /** Header carrying the client key. Defaults to `x-proxy-key`. */
+  header?: string;
+  /** Also accept the key as `Authorization: Bearer <key>`. */
+  bearer?: boolean;
+  /** Keys defined inline. */
+  keys?: ClientKeyConfig[];
+  /** Keys kept in Deno KV, consulted after the inline keys. */
+  kv?: KvKeyStoreConfig;
+}
+
+/** Everything a proxy handler needs to know to serve requests. */
+export interface ProxyConfig {
+  /**
+   * Whitelisted hosts. A request is served with the settings of the first
+   * entry whose pattern matches the target host.
+   */
+  hosts: HostConfig[];
+  /**
+   * Named routes to sets of backends. Their names are checked before the
+   * {@link hosts} patterns.
+   */
+  upstreams?: UpstreamConfig[];
+  /** Header edits for every host, applied before each host's own. */
+  headers?: HeaderPolicy;
+  /**
+   * Milliseconds to wait for the upstream's response headers, including
+   * connecting and sending the request body.
+   */
+  timeoutMs: number;
+  /**
+   * Longest pause, in milliseconds, between two chunks of a response body
+   * (or frames of a WebSocket). Defaults to {@link timeoutMs}.
+   */
+  idleTimeoutMs?: number;
+  /**
+   * Cap, in milliseconds, on a whole upstream exchange, from sending the
+   * request to the end of the response body. Unlimited when omitted.
+   */
+  totalTimeoutMs?: number;
+  /**
+   * Largest request body, in bytes, forwarded upstream. Larger requests
+   * get `413 Payload Too Large`. Unlimited when omitted.
+   */
+  maxRequestBytes?: number;
+  /**
+   * Largest upstream response body, in bytes. Larger responses are cut
+   * off, or answered with `502` when their `Content-Length` gives them
+   * away. Unlimited when omitted.
+   */
+  maxResponseBytes?: number;
+  /** Per-client rate limit. */
+  rateLimit: RateLimitConfig;
+  /**
+   * Overrides of {@link rateLimit} for specific client identities: a client
+   * IP, or `key:<id>` for an authenticated client key.
+   */
+  clientRateLimits?: Record<string, RateLimitConfig>;
+  /** Where rate-limit state lives. Defaults to `{ type: "memory" }`. */
+  rateLimitStore?: RateLimitStoreConfig;
+  /** Retry failed upstream requests. No retries when omitted. */
+  retry?: RetryConfig;
+  /**
+   * Fail fast with `503` while a target host keeps failing. Off when
+   * omitted.
+   */
+  circuitBreaker?: CircuitBreakerConfig;
+  /** Cache upstream `GET` responses. Off when omitted. */
+  cache?: CacheConfig;
+  /** Serve Prometheus metrics. Off when omitted. */
+  metrics?: MetricsConfig;
+  /**
+   * Path prefix of the proxy's own endpoints (`/health`, `/ready`,
+   * `/metrics`). Defaults to `/_proxy`, which cannot collide with a target
+   * host because `_` is not allowed in hostnames.
+   */
+  adminPrefix?: string;
+  /** Upstreams that must be reachable for `<adminPrefix>/ready` to pass. */
+  readinessChecks?: ReadinessCheck[];
+  /** Trace context propagation and span export. Off when omitted. */
+  tracing?: TracingConfig;
+  /** Per-request access log. Off when omitted. */
+  accessLog?: AccessLogConfig;
+  /**
+   * Require clients to present a proxy-issued key. When set, the key's id
+   * replaces the client IP as the identity for rate limiting and logs.
+   */
+  auth?: AuthConfig;
+  /**
+   * Addresses or CIDR blocks (e.g. `10.0.0.0/8`, `fd00::/8`) of reverse
+   * proxies in front of this one. Only requests arriving from these have
+   * their `X-Forwarded-For` / `Forwarded` headers believed when determining
+   * the client IP.
+   */
+  trustedProxies?: string[];
+  /**
+   * How `X-Forwarded-For` is sent upstream: `append` (the default) adds the
+   * client address to the chain recorded by trusted proxies, `strip` omits
+   * the header so upstreams never learn client addresses.
+   */
+  forwardedFor?: "append" | "strip";
+  /**
+   * `Location`, `Content-Location` and `Link` URLs on whitelisted hosts are
+   * rewritten to their proxy paths. Others are left alone with `pass` (the
+   * default); `block` refuses redirects to them with `502` and removes the
+   * other headers and links pointing at them.
+   */
+  offsiteLocations?: "pass" | "block";
+  /**
+   * Most upstream redirects followed per request. Every hop must stay on a
+   * whitelisted host, with the scheme and port its entry allows. Defaults
+   * to 5; `0` returns redirects to the client as-is.
+   */
+  maxRedirects?: number;
+  /**
+   * Resolves target hostnames for the internal-address check. Defaults to
+   * `Deno.resolveDns`; override it to embed or test the proxy in-process.
+   */
+  resolveHost?: HostResolver;
+  /**
+   * `fetch` implementation used for upstream requests. Defaults to the
+   * global `fetch`; override it to embed or test the proxy in-process.
+   */
+  fetch?: typeof fetch;
+  /**
+   * Opens upstream WebSockets. Defaults to Deno's `WebSocket`; override it
+   * to embed or test the proxy in-process.
+   */
+  connectWebSocket?: WebSocketConnector;
+}
+
+/** Defaults applied when a setting is not provided. */
+export const DEFAULT_CONFIG: Readonly<Omit<ProxyConfig, "fetch">> = {
+  hosts: [],
+  timeoutMs: 600000, // 10 minutes
+  rateLimit: {
+    windowMs: 60000, // 1 minute window
+    maxRequests: 1000, // 1000 requests per minute
+  },
+};
+
+/** Version reported in `X-Proxied-By` and by the health endpoints. */
+export const PROXY_VERSION = "2.5";
+
+/** Default port for the standalone server. */
+export const DEFAULT_PORT = 8000;
+
+/** Minimal read-only view of `Deno.env`, so tests can pass a plain map. */
+export interface EnvReader {
+  get(key: string): string | undefined;
+}
+
+/** Splits a comma-separated host list, dropping blanks. */
+export function parseHostList(value: string): string[] {
+  return value
+    .split(",")
+    .map((h) => h.trim())
+    .filter(Boolean);
+}
+
+function intFromEnv(env: EnvReader, key: string, fallback: number): number {
+  const raw = env.get(key);
+  if (raw === undefined || raw === "") return fallback;
+  const value = parseInt(raw, 10);
+  if (Number.isNaN(value)) {
+    throw new Error(`${key} must be an integer, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Builds a {@link ProxyConfig} from the `ALLOWED_HOSTS`, `PROXY_*TIMEOUT_MS`,
+ * `PROXY_MAX_*_BYTES`, `RATE_LIMIT_*`, `TRUSTED_PROXIES` and `ACCESS_LOG`
+ * environment variables.
+ * Tracing is turned on by the standard `OTEL_EXPORTER_OTLP_TRACES_ENDPOINT`
+ * (with `OTEL_SERVICE_NAME`).
+ */
+export function configFromEnv(env: EnvReader = Deno.env): ProxyConfig {
+  const idleTimeoutMs = intFromEnv(env, "PROXY_IDLE_TIMEOUT_MS", 0);
+  const totalTimeoutMs = intFromEnv(env, "PROXY_TOTAL_TIMEOUT_MS", 0);
+  const maxRequestBytes = intFromEnv(env, "PROXY_MAX_REQUEST_BYTES", 0);
+  const maxResponseBytes = intFromEnv(env, "PROXY_MAX_RESPONSE_BYTES", 0);
+  const trustedProxies = parseHostList(env.get("TRUSTED_PROXIES") ?? "");
+  const accessLog = env.get("ACCESS_LOG");
+  if (accessLog && accessLog !== "json" && accessLog !== "combined") {
+    throw new Error(
+      `ACCESS_LOG must be "json" or "combined", got "${accessLog}"`,
+    );
+  }
+  const tracesEndpoint = env.get("OTEL_EXPORTER_OTLP_TRACES_ENDPOINT");
+  const serviceName = env.get("OTEL_SERVICE_NAME");
+  return {
+    hosts: parseHostList(env.get("ALLOWED_HOSTS") ?? "").map((host) => ({
+      host,
+    })),
+    timeoutMs: intFromEnv(env, "PROXY_TIMEOUT_MS", DEFAULT_CONFIG.timeoutMs),
+    rateLimit: {
+      windowMs: intFromEnv(
+        env,
+        "RATE_LIMIT_WINDOW_MS",
+        DEFAULT_CONFIG.rateLimit.windowMs,
+      ),
+      maxRequests: intFromEnv(
+        env,
+        "RATE_LIMIT_MAX_REQUESTS",
+        DEFAULT_CONFIG.rateLimit.maxRequests,
+      ),
+    },
+    ...(idleTimeoutMs > 0 ? { idleTimeoutMs } : {}),
+    ...(totalTimeoutMs > 0 ? { totalTimeoutMs } : {}),
+    ...(maxRequestBytes > 0 ? { maxRequestBytes } : {}),
+    ...(maxResponseBytes > 0 ? { maxResponseBytes } : {}),
+    ...(trustedProxies.length ? { trustedProxies } : {}),
+    ...(accessLog
+      ? { accessLog: { format: accessLog as AccessLogFormat } }
+      : {}),
+    ...(tracesEndpoint
+      ? {
+        tracing: {
+          endpoint: tracesEndpoint,
+          ...(serviceName ? { serviceName } : {}),
+        },
+      }
+      : {}),
+  };
+}
+
+/** Reads the standalone server port from `PROXY_PORT`. */
+export function portFromEnv(env: EnvReader = Deno.env): number {
+  return intFromEnv(env, "PROXY_PORT", DEFAULT_PORT);
+}
@@ -0,0 +1,1096 @@
+// ===================================================================
+// DECLARATIVE CONFIG FILE (JSON / JSONC)
+// ===================================================================
+import type { CircuitBreakerConfig } from "./circuit_breaker.ts";
+import { parseCidr } from "./client_ip.ts";
+import {
+  type AccessLogConfig,
+  type AuthConfig,
+  type CacheConfig,
+  type CacheStoreConfig,
+  type ClientKeyConfig,
+  type CorsConfig,
+  DEFAULT_CONFIG,
+  type EnvReader,
+  type HeaderPolicy,
+  type HeaderRules,
+  type HealthCheckConfig,
+  type HostCacheConfig,
+  type HostConfig,
+  type KvLocation,
+  type MetricsConfig,
+  type ProxyConfig,
+  type RateLimitStoreConfig,
+  type ReadinessCheck,
+  type RouteRule,
+  type TracingConfig,
+  type UpstreamConfig,
+  type UpstreamCredential,
+} from "./config.ts";
+import {
+  DEFAULT_HEADER_POLICY,
+  HOP_BY_HOP_HEADERS,
+  unknownPlaceholders,
+} from "./header_policy.ts";
+import {
+  type HostSpec,
+  IS_VALID_HOSTNAME,
+  parseHostSpec,
+  patternToRegExp,
+} from "./hosts.ts";
+import type { RateLimitConfig } from "./rate_limit.ts";
+import type { RetryConfig } from "./retry.ts";
+
+/**
+ * Raised when a config file cannot be read, parsed or validated. The message
+ * names the file and the offending property path, e.g.
+ * `proxy.jsonc: hosts[1].rateLimit.maxRequests: expected a positive integer`.
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * Removes `//` and `/* *\/` comments and trailing commas from JSONC text,
+ * leaving string literals untouched. Line breaks inside comments are kept
+ * so JSON parse errors still point at the right line.
+ */
+export function stripJsonComments(text: string): string {
+  let out = "";
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '"') {
+      const start = i++;
+      while (i < text.length && text[i] !== '"') {
+        i += text[i] === "\\" ? 2 : 1;
+      }
+      out += text.slice(start, ++i);
+    } else if (ch === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") i++;
+    } else if (ch === "/" && text[i + 1] === "*") {
+      const end = text.indexOf("*/", i + 2);
+      const stop = end === -1 ? text.length : end + 2;
+      out += text.slice(i, stop).replace(/[^\n]/g, " ");
+      i = stop;
+    } else if (ch === ",") {
+      // A comma is trailing if only whitespace and comments follow it.
+      let j = i + 1;
+      while (j < text.length) {
+        if (/\s/.test(text[j])) {
+          j++;
+        } else if (text.startsWith("//", j)) {
+          const end = text.indexOf("\n", j);
+          j = end === -1 ? text.length : end;
+        } else if (text.startsWith("/*", j)) {
+          const end = text.indexOf("*/", j + 2);
+          j = end === -1 ? text.length : end + 2;
+        } else {
+          break;
+        }
+      }
+      if (text[j] !== "}" && text[j] !== "]") out += ch;
+      i++;
+    } else {
+      out += ch;
+      i++;
+    }
+  }
+  return out;
+}
+
+// --- Validation helpers ---
+
+type Json = Record<string, unknown>;
+
+function fail(path: string, message: string): never {
+  throw new ConfigError(path ? `${path}: ${message}` : message);
+}
+
+function expectObject(value: unknown, path: string): Json {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    fail(path, "expected an object");
+  }
+  return value as Json;
+}
+
+function expectKnownKeys(obj: Json, path: string, known: string[]): void {
+  for (const key of Object.keys(obj)) {
+    if (!known.includes(key)) {
+      fail(
+        path ? `${path}.${key}` : key,
+        `unknown property (expected one of: ${known.join(", ")})`,
+      );
+    }
+  }
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) fail(path, "expected an array");
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string" || value === "") {
+    fail(path, "expected a non-empty string");
+  }
+  return value;
+}
+
+function expectPositiveInt(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    fail(path, "expected a positive integer");
+  }
+  return value;
+}
+
+function expectNonNegativeInt(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    fail(path, "expected a non-negative integer");
+  }
+  return value;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean") fail(path, "expected a boolean");
+  return value;
+}
+
+function expectStringArray(value: unknown, path: string): string[] {
+  return expectArray(value, path).map((item, i) =>
+    expectString(item, `${path}[${i}]`)
+  );
+}
+
+const HTTP_TOKEN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+function expectHeaderName(value: unknown, path: string): string {
+  const name = expectString(value, path);
+  if (!HTTP_TOKEN.test(name)) fail(path, `invalid header name "${name}"`);
+  return name.toLowerCase();
+}
+
+function parseRateLimit(value: unknown, path: string): RateLimitConfig {
+  const obj = expectObject(value, path);
+  expectKnownKeys(obj, path, ["windowMs", "maxRequests"]);
+  return {
+    windowMs: expectPositiveInt(obj.windowMs, `${path}.windowMs`),
+    maxRequests: expectPositiveInt(obj.maxRequests, `${path}.maxRequests`),
+  };
+}
+
+function parseRetry(value: unknown, path: string): RetryConfig {
+  const obj = expectObject(value, path);
+  expectKnownKeys(obj, path, [
+    "attempts",
+    "baseDelayMs",
+    "maxDelayMs",
+    "statuses",
+  ]);
+  const retry: RetryConfig = {
+    attempts: expectNonNegativeInt(obj.attempts, `${path}.attempts`),
+  };
+  if (obj.baseDelayMs !== undefined) {
+    retry.baseDelayMs = expectPositiveInt(
+      obj.baseDelayMs,
+      `${path}.baseDelayMs`,
+    );
+  }
+  if (obj.maxDelayMs !== undefined) {
+    retry.maxDelayMs = expectPositiveInt(obj.maxDelayMs, `${path}.maxDelayMs`);
+  }
+  if (obj.statuses !== undefined) {
+    retry.statuses = expectArray(obj.statuses, `${path}.statuses`).map(
+      (status, i) => {
+        const code = expectPositiveInt(status, `${path}.statuses[${i}]`);
+        if (code < 400 || code > 599) {
+          fail(`${path}.statuses[${i}]`, "expected a 4xx or 5xx status");
+        }
+        return code;
+      },
+    );
+  }
+  return retry;
+}
+
+function parseCircuitBreaker(
+  value: unknown,
+  path: string,
+): CircuitBreakerConfig {
+  const obj = expectObject(value, path);
+  expectKnownKeys(obj, path, ["failureThreshold", "resetMs"]);
+  const breaker: CircuitBreakerConfig = {};
+  if (obj.failureThreshold !== undefined) {
+    breaker.failureThreshold = expectPositiveInt(
+      obj.failureThreshold,
+      `${path}.failureThreshold`,
+    );
+  }
+  if (obj.resetMs !== undefined) {
+    breaker.resetMs = expectPositiveInt(obj.resetMs, `${path}.resetMs`);
+  }
+  return breaker;
+}
+
+function expectHttpUrl(value: unknown, path: string): string {
+  const url = expectString(value, path);
+  if (!URL.canParse(url) || !/^https?:$/.test(new URL(url).protocol)) {
+    fail(path, "expected an http(s) URL");
+  }
+  return url;
+}
+
+function parseHeaderMap(value: unknown, path: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, headerValue] of Object.entries(expectObject(value, path))) {
+    const key = expectHeaderName(name, path);
+    if (typeof headerValue !== "string") {
+      fail(`${path}.${name}`, "expected a string");
+    }
+    headers[key] = headerValue;
+  }
+  return headers;
+}
+
+function parseHeaderTemplates(
+  value: unknown,
+  path: string,
+): Record<string, string> {
+  const headers = parseHeaderMap(value, path);
+  for (const [name, template] of Object.entries(headers)) {
+    const [unknown] = unknownPlaceholders(template);
+    if (unknown !== undefined) {
+      fail(`${path}.${name}`, `unknown placeholder "{${unknown}}"`);
+    }
+  }
+  return headers;
+}
+
+function expectHeaderNames(value: unknown, path: string): string[] {
+  return expectArray(value, path).map((name, i) =>
+    expectHeaderName(name, `${path}[${i}]`)
+  );
+}
+
+function parseHeaderRules(
+  value: unknown,
+  path: string,
+  direction: keyof HeaderPolicy,
+): HeaderRules {
+  const obj = expectObject(value, path);
+  expectKnownKeys(obj, path, ["remove", "rename", "set", "add", "keep"]);
+  const rules: HeaderRules = {};
+  if (obj.remove !== undefined) {
+    rules.remove = expectHeaderNames(obj.remove, `${path}.remove`);
+  }
+  if (obj.rename !== undefined) {
+    rules.rename = {};
+    const renames = expectObject(obj.rename, `${path}.rename`);
+    for (const [from, to] of Object.entries(renames)) {
+      rules.rename[expectHeaderName(from, `${path}.rename`)] = expectHeaderName(
+        to,
+        `${path}.rename.${from}`,
+      );
+    }
+  }
+  if (obj.set !== undefined) {
+    rules.set = parseHeaderTemplates(obj.set, `${path}.set`);
+  }
+  if (obj.add !== undefined) {
+    rules.add = parseHeaderTemplates(obj.add, `${path}.add`);
+  }
+  if (obj.keep !== undefined) {
+    const removed = DEFAULT_HEADER_POLICY[direction]?.remove ?? [];
+    rules.keep = expectHeaderNames(obj.keep, `${path}.keep`);
+    rules.keep.forEach((name, i) => {
+      if (HOP_BY_HOP_HEADERS.includes(name)) {
+        fail(
+          `${path}.keep[${i}]`,
+          `hop-by-hop header "${name}" cannot be kept`,
+        );
+      }
+      if (!removed.includes(name)) {
+        fail(
+          `${path}.keep[${i}]`,
+          `"${name}" is not removed by default; expected one of ${
+            removed.join(", ") || "none"
+          }`,
+        );
+      }
+    });
+  }
+  return rules;
+}
+
+function parseHeaderPolicy(value: unknown, path: string): HeaderPolicy {
+  const obj = expectObject(value, path);
+  expectKnownKeys(obj, path, ["request", "response"]);
+  const policy: HeaderPolicy = {};
+  for (const direction of ["request", "response"] as const) {
+    if (obj[direction] !== undefined) {
+      policy[direction] = parseHeaderRules(
+        obj[direction],
+        `${path}.${direction}`,
+        direction,
+      );
+    }
+  }
+  return policy;
+}
+
+function parseCors(value: unknown, path: string): CorsConfig {
+  const obj = expectObject(value, path);
+  expectKnownKeys(obj, path, [
+    "origins",
+    "methods",
+    "headers",
+    "exposeHeaders",
+    "credentials",
+    "maxAge",
+  ]);
+  const origins = expectStringArray(obj.origins, `${path}.origins`);
+  if (!origins.length) fail(`${path}.origins`, "expected at least one origin");
+  origins.forEach((origin, i) => {
+    if (origin !== "*" && !/^https?:\/\/[^/]+$/.test(origin)) {
+      fail(
+        `${path}.origins[${i}]`,
+        `expected "*" or a scheme and host like "https://app.example.com"`,
+      );
+    }
+  });
+  const cors: CorsConfig = { origins };
+  if (obj.methods !== undefined) {
+    cors.methods = parseMethods(obj.methods, `${path}.methods`);
+  }
+  for (const key of ["headers", "exposeHeaders"] as const) {
+    if (obj[key] !== undefined) {
+      cors[key] = expectArray(obj[key], `${path}.${key}`).map((name, i) =>
+        expectHeaderName(name, `${path}.${key}[${i}]`)
+      );
+    }
+  }
+  if (obj.credentials !== undefined) {
+    cors.credentials = expectBoolean(obj.credentials, `${path}.credentials`);
+    if (cors.credentials && origins.includes("*")) {
+      fail(
+        `${path}.credentials`,
+        `cannot be combined with "*" origins; list the allowed origins`,
+      );
+    }
+  }
+  if (obj.maxAge !== undefined) {
+    cors.maxAge = expectPositiveInt(obj.maxAge, `${path}.maxAge`);
+  }
+  return cors;
+}
+
+function parseMethods(value: unknown, path: string): string[] {
+  return expectStringArray(value, path).map((method, i) => {
+    if (!HTTP_TOKEN.test(method)) {
+      fail(`${path}[${i}]`, `invalid HTTP method "${method}"`);
+    }
+    return method.toUpperCase();
+  });
+}
+
+function parseRoute(value: unknown, path: string): RouteRule {
+  const obj = expectObject(value, path);
+  expectKnownKeys(obj, path, ["action", "path", "methods", "name"]);
+  if (obj.action !== "allow" && obj.action !== "deny") {
+    fail(`${path}.action`, `expected "allow" or "deny"`);
+  }
+  const rule: RouteRule = {
+    action: obj.action,
+    path: expectString(obj.path, `${path}.path`),
+  };
+  if (!rule.path.startsWith("/")) fail(`${path}.path`, `must start with "/"`);
+  if (obj.methods !== undefined) {
+    rule.methods = parseMethods(obj.methods, `${path}.methods`);
+  }
+  if (obj.name !== undefined) {
+    rule.name = expectString(obj.name, `${path}.name`);
+  }
+  return rule;
+}
+
+function parseCredential(value: unknown, path: string): UpstreamCredential {
+  const obj = expectObject(value, path);
+  expectKnownKeys(obj, path, ["header", "query", "env", "value", "prefix"]);
+  if ((obj.header === undefined) === (obj.query === undefined)) {
+    fail(path, `expected exactly one of "header" or "query"`);
+  }
+  if ((obj.env === undefined) === (obj.value === undefined)) {
+    fail(path, `expected exactly one of "env" or "value"`);
+  }
+  const credential: UpstreamCredential = {};
+  if (obj.header !== undefined) {
+    credential.header = expectHeaderName(obj.header, `${path}.header`);
+  } else {
+    credential.query = expectString(obj.query, `${path}.query`);
+  }
+  if (obj.env !== undefined) {
+    credential.env = expectString(obj.env, `${path}.env`);
+  } else {
+    // Never include the value itself in error messages.
+    credential.value = expectString(obj.value, `${path}.value`);
+  }
+  if (obj.prefix !== undefined) {
+    if (typeof obj.prefix !== "string") {
+      fail(`${path}.prefix`, "expected a string");
+    }
+    credential.prefix = obj.prefix;
+  }
+  return credential;
+}
+
+function parseOffsiteLocations(
+  value: unknown,
+  path: string,
+): "pass" | "block" {
+  if (value !== "pass" && value !== "block") {
+    fail(path, `expected "pass" or "block"`);
+  }
+  return value;
+}
+
+// Settings shared by host entries and upstreams.
+const HOST_SETTINGS = [
+  "timeoutMs",
+  "idleTimeoutMs",
+  "totalTimeoutMs",
+  "maxRequestBytes",
+  "maxResponseBytes",
+  "rateLimit",
+  "methods",
+  "routes",
+  "headers",
+  "cookies",
+  "offsiteLocations",
+  "rewriteContent",
+  "credentials",
+  "cors",
+  "allowInternalAddresses",
+  "allowHttp",
+  "cache",
+  "retry",
+  "circuitBreaker",
+];
+
+function parseHostSettings(obj: Json, path: string): Omit<HostConfig, "host"> {
+  const entry: Omit<HostConfig, "host"> = {};
+  if (obj.timeoutMs !== undefined) {
+    entry.timeoutMs = expectPositiveInt(obj.timeoutMs, `${path}.timeoutMs`);
+  }
+  if (obj.idleTimeoutMs !== undefined) {
+    entry.idleTimeoutMs = expectPositiveInt(
+      obj.idleTimeoutMs,
+      `${path}.idleTimeoutMs`,
+    );
+  }
+  if (obj.totalTimeoutMs !== undefined) {
+    entry.totalTimeoutMs = expectPositiveInt(
+      obj.totalTimeoutMs,
+      `${path}.totalTimeoutMs`,
+    );
+  }
+  if (obj.maxRequestBytes !== undefined) {
+    entry.maxRequestBytes = expectPositiveInt(
+      obj.maxRequestBytes,
+      `${path}.maxRequestBytes`,
+    );
+  }
+  if (obj.maxResponseBytes !== undefined) {
+    entry.maxResponseBytes = expectPositiveInt(
+      obj.maxResponseBytes,
+      `${path}.maxResponseBytes`,
+    );
+  }
+  if (obj.rateLimit !== undefined) {
+    entry.rateLimit = parseRateLimit(obj.rateLimit, `${path}.rateLimit`);
+  }
+  if (obj.methods !== undefined) {
+    entry.methods = parseMethods(obj.methods, `${path}.methods`);
+  }
+  if (obj.routes !== undefined) {
+    entry.routes = expectArray(obj.routes, `${path}.routes`).map((route, i) =>
+      parseRoute(route, `${path}.routes[${i}]`)
+    );
+  }
+  if (obj.headers !== undefined) {
+    entry.headers = parseHeaderPolicy(obj.headers, `${path}.headers`);
+  }
+  if (obj.cookies !== undefined) {
+    if (obj.cookies !== "drop" && obj.cookies !== "rewrite") {
+      fail(`${path}.cookies`, `expected "drop" or "rewrite"`);
+    }
+    entry.cookies = obj.cookies;
+  }
+  if (obj.offsiteLocations !== undefined) {
+    entry.offsiteLocations = parseOffsiteLocations(
+      obj.offsiteLocations,
+      `${path}.offsiteLocations`,
+    );
+  }
+  if (obj.rewriteContent !== undefined) {
+    entry.rewriteContent = expectBoolean(
+      obj.rewriteContent,
+      `${path}.rewriteContent`,
+    );
+  }
+  if (obj.credentials !== undefined) {
+    entry.credentials = expectArray(obj.credentials, `${path}.credentials`)
+      .map((credential, i) =>
+        parseCredential(credential, `${path}.credentials[${i}]`)
+      );
+  }
+  if (obj.cors !== undefined) {
+    entry.cors = parseCors(obj.cors, `${path}.cors`);
+  }
+  if (obj.allowInternalAddresses !== undefined) {
+    entry.allowInternalAddresses = expectBoolean(
+      obj.allowInternalAddresses,
+      `${path}.allowInternalAddresses`,
+    );
+  }
+  if (obj.allowHttp !== undefined) {
+    entry.allowHttp = expectBoolean(obj.allowHttp, `${path}.allowHttp`);
+  }
+  if (obj.cache !== undefined) {
+    entry.cache = parseHostCache(obj.cache, `${path}.cache`);
+  }
+  if (obj.retry !== undefined) {
+    entry.retry = parseRetry(obj.retry, `${path}.retry`);
+  }
+  if (obj.circuitBreaker !== undefined) {
+    entry.circuitBreaker = parseCircuitBreaker(
+      obj.circuitBreaker,
+      `${path}.circuitBreaker`,
+    );
+  }
+  return entry;
+}
+
+function parseHost(value: unknown, path: string): HostConfig {
+  if (typeof value === "string") {
+    value = { host: value };
+  }
+  const obj = expectObject(value, path);
+  expectKnownKeys(obj, path, ["host", ...HOST_SETTINGS]);
+  const entry: HostConfig = {
+    host: expectString(obj.host, `${path}.host`),
+    ...parseHostSettings(obj, path),
+  };
+  let spec: HostSpec;
+  try {
+    spec = parseHostSpec(entry.host);
+    patternToRegExp(spec.pattern);
+  } catch (error) {
+    fail(`${path}.host`, (error as Error).message);
+  }
+  if (spec.protocol === "http:" && !entry.allowHttp) {
+    fail(`${path}.host`, `http:// requires "allowHttp": true`);
+  }
+  return entry;
+}
+
+function parseHealthCheck(value: unknown, path: string): HealthCheckConfig {
+  const obj = expectObject(value, path);
+  expectKnownKeys(obj, path, ["path", "intervalMs", "timeoutMs"]);
+  const check: HealthCheckConfig = {};
+  if (obj.path !== undefined) {
+    check.path = expectString(obj.path, `${path}.path`);
+    if (!/^\/[^?#\s]*$/.test(check.path)) {
+      fail(`${path}.path`, `expected an absolute path such as "/health"`);
+    }
+  }
+  if (obj.intervalMs !== undefined) {
+    check.intervalMs = expectPositiveInt(obj.intervalMs, `${path}.intervalMs`);
+  }
+  if (obj.timeoutMs !== undefined) {
+    check.timeoutMs = expectPositiveInt(obj.timeoutMs, `${path}.timeoutMs`);
+  }
+  return check;
+}
+
+function parseUpstream(value: unknown, path: string): UpstreamConfig {
+  const obj = expectObject(value, path);
+  expectKnownKeys(obj, path, [
+    "name",
+    "backends",
+    "balance",
+    "healthCheck",
+    ...HOST_SETTINGS,
+  ]);
+  const name = expectString(obj.name, `${path}.name`);
+  if (!IS_VALID_HOSTNAME.test(name)) {
+    fail(`${path}.name`, "expected letters, digits, dots and hyphens");
+  }
+  const backends = expectArray(obj.backends, `${path}.backends`).map(
+    (backend, i) => {
+      const url = expectHttpUrl(backend, `${path}.backends[${i}]`);
+      const { protocol, search, hash } = new URL(url);
+      if (search || hash) {
+        fail(`${path}.backends[${i}]`, "expected no query or fragment");
+      }
+      if (protocol === "http:" && obj.allowHttp !== true) {
+        fail(`${path}.backends[${i}]`, `http:// requires "allowHttp": true`);
+      }
+      return url;
+    },
+  );
+  if (!backends.length) fail(`${path}.backends`, "expected at least one URL");
+  const upstream: UpstreamConfig = {
+    name,
+    backends,
+    ...parseHostSettings(obj, path),
+  };
+  if (obj.balance !== undefined) {
+    if (obj.balance !== "round_robin" && obj.balance !== "priority") {
+      fail(`${path}.balance`, `expected "round_robin" or "priority"`);
+    }
+    upstream.balance = obj.balance;
+  }
+  if (obj.healthCheck !== undefined) {
+    upstream.healthCheck = parseHealthCheck(
+      obj.healthCheck,
+      `${path}.healthCheck`,
+    );
+  }
+  return upstream;
+}
+
+function parseHostPattern(value: unknown, path: string): string {
+  const host = expectString(value, path);
+  try {
+    patternToRegExp(host);
+  } catch (error) {
+    fail(path, (error as Error).message);
+  }
+  return host;
+}
+
+function parseClientKey(value: unknown, path: string): ClientKeyConfig {
+  const obj = expectObject(value, path);
+  expectKnownKeys(obj, path, ["id", "hash", "hosts", "routes", "rateLimit"]);
+  const key: ClientKeyConfig = {
+    id: expectString(obj.id, `${path}.id`),
+    hash: expectString(obj.hash, `${path}.hash`).toLowerCase(),
+  };
+  if (!/^[0-9a-f]{64}$/.test(key.hash)) {
+    fail(`${path}.hash`, "expected a hex SHA-256 digest (64 characters)");
+  }
+  if (obj.hosts !== undefined) {
+    key.hosts = expectArray(obj.hosts, `${path}.hosts`).map((host, i) =>
+      parseHostPattern(host, `${path}.hosts[${i}]`)
+    );
+  }
+  if (obj.routes !== undefined) {
+    key.routes = expectArray(obj.routes, `${path}.routes`).map((route, i) =>
+      parseRoute(route, `${path}.routes[${i}]`)
+    );
+  }
+  if (obj.rateLimit !== undefined) {
+    key.rateLimit = parseRateLimit(obj.rateLimit, `${path}.rateLimit`);
+  }
+  return key;
+}
+
+function parseKvLocation(obj: Json, path: string): KvLocation {
+  const location: KvLocation = {};
+  if (obj.path !== undefined) {
+    location.path = expectString(obj.path, `${path}.path`);
+  }
+  if (obj.prefix !== undefined) {
+    location.prefix = expectStringArray(obj.prefix, `${path}.prefix`);
+  }
+  return location;
+}
+
+function parseRateLimitStore(
+  value: unknown,
+  path: string,
+): RateLimitStoreConfig {
+  const obj = expectObject(value, path);
+  if (obj.type === "memory") {
+    expectKnownKeys(obj, path, ["type"]);
+    return { type: "memory" };
+  }
+  if (obj.type === "kv") {
+    expectKnownKeys(obj, path, ["type", "path", "prefix"]);
+    return { type: "kv", ...parseKvLocation(obj, path) };
+  }
+  fail(`${path}.type`, `expected "memory" or "kv"`);
+}
+
+function parseCacheStore(value: unknown, path: string): CacheStoreConfig {
+  const obj = expectObject(value, path);
+  if (obj.type === "memory") {
+    expectKnownKeys(obj, path, ["type", "maxBytes"]);
+    return obj.maxBytes === undefined ? { type: "memory" } : {
+      type: "memory",
+      maxBytes: expectPositiveInt(obj.maxBytes, `${path}.maxBytes`),
+    };
+  }
+  if (obj.type === "kv") {
+    expectKnownKeys(obj, path, ["type", "path", "prefix"]);
+    return { type: "kv", ...parseKvLocation(obj, path) };
+  }
+  fail(`${path}.type`, `expected "memory" or "kv"`);
+}
+
+function parseCache(value: unknown, path: string): CacheConfig {
+  const obj = expectObject(value, path);
+  expectKnownKeys(obj, path, ["store", "maxEntryBytes"]);
+  const cache: CacheConfig = {};
+  if (obj.store !== undefined) {
+    cache.store = parseCacheStore(obj.store, `${path}.store`);
+  }
+  if (obj.maxEntryBytes !== undefined) {
+    cache.maxEntryBytes = expectPositiveInt(
+      obj.maxEntryBytes,
+      `${path}.maxEntryBytes`,
+    );
+  }
+  return cache;
+}
+
+function parseHostCache(value: unknown, path: string): HostCacheConfig {
+  const obj = expectObject(value, path);
+  expectKnownKeys(obj, path, ["enabled", "ttl"]);
+  const cache: HostCacheConfig = {};
+  if (obj.enabled !== undefined) {
+    cache.enabled = expectBoolean(obj.enabled, `${path}.enabled`);
+  }
+  if (obj.ttl !== undefined) {
+    cache.ttl = expectNonNegativeInt(obj.ttl, `${path}.ttl`);
+  }
+  return cache;
+}
+
+function parseMetrics(value: unknown, path: string): MetricsConfig {
+  const obj = expectObject(value, path);
+  expectKnownKeys(obj, path, ["path", "token"]);
+  const metrics: MetricsConfig = {};
+  if (obj.path !== undefined) {
+    metrics.path = expectString(obj.path, `${path}.path`);
+    if (!/^\/[^?#\s]*$/.test(metrics.path)) {
+      fail(`${path}.path`, `expected an absolute path such as "/metrics"`);
+    }
+  }
+  if (obj.token !== undefined) {
+    metrics.token = expectString(obj.token, `${path}.token`);
+  }
+  return metrics;
+}
+
+function parseReadinessCheck(value: unknown, path: string): ReadinessCheck {
+  const obj = expectObject(value, path);
+  expectKnownKeys(obj, path, ["name", "url", "timeoutMs"]);
+  const check: ReadinessCheck = { url: expectHttpUrl(obj.url, `${path}.url`) };
+  if (obj.name !== undefined) {
+    check.name = expectString(obj.name, `${path}.name`);
+  }
+  if (obj.timeoutMs !== undefined) {
+    check.timeoutMs = expectPositiveInt(obj.timeoutMs, `${path}.timeoutMs`);
+  }
+  return check;
+}
+
+function parseTracing(value: unknown, path: string): TracingConfig {
+  const obj = expectObject(value, path);
+  expectKnownKeys(obj, path, [
+    "endpoint",
+    "headers",
+    "serviceName",
+    "sampleRatio",
+  ]);
+  const tracing: TracingConfig = {};
+  if (obj.endpoint !== undefined) {
+    tracing.endpoint = expectHttpUrl(obj.endpoint, `${path}.endpoint`);
+  }
+  if (obj.headers !== undefined) {
+    tracing.headers = parseHeaderMap(obj.headers, `${path}.headers`);
+  }
+  if (obj.serviceName !== undefined) {
+    tracing.serviceName = expectString(obj.serviceName, `${path}.serviceName`);
+  }
+  if (obj.sampleRatio !== undefined) {
+    const ratio = obj.sampleRatio;
+    if (typeof ratio !== "number" || !(ratio >= 0 && ratio <= 1)) {
+      fail(`${path}.sampleRatio`, "expected a number from 0 to 1");
+    }
+    tracing.sampleRatio = ratio;
+  }
+  return tracing;
+}
+
+function parseAccessLog(value: unknown, path: string): AccessLogConfig {
+  const obj = expectObject(value, path);
+  expectKnownKeys(obj, path, ["format"]);
+  const accessLog: AccessLogConfig = {};
+  if (obj.format !== undefined) {
+    if (obj.format !== "json" && obj.format !== "combined") {
+      fail(`${path}.format`, `expected "json" or "combined"`);
+    }
+    accessLog.format = obj.format;
+  }
+  return accessLog;
+}
+
+function parseAuth(value: unknown, path: string): AuthConfig {
+  const obj = expectObject(value, path);
+  expectKnownKeys(obj, path, ["header", "bearer", "keys", "kv"]);
+  const auth: AuthConfig = {};
+  if (obj.header !== undefined) {
+    auth.header = expectHeaderName(obj.header, `${path}.header`);
+  }
+  if (obj.bearer !== undefined) {
+    auth.bearer = expectBoolean(obj.bearer, `${path}.bearer`);
+  }
+  if (obj.keys !== undefined) {
+    const ids = new Set<string>();
+    auth.keys = expectArray(obj.keys, `${path}.keys`).map((key, i) => {
+      const parsed = parseClientKey(key, `${path}.keys[${i}]`);
+      if (ids.has(parsed.id)) {
+        fail(`${path}.keys[${i}].id`, `duplicate key id "${parsed.id}"`);
+      }
+      ids.add(parsed.id);
+      return parsed;
+    });
+  }
+  if (obj.kv !== undefined) {
+    const kv = expectObject(obj.kv, `${path}.kv`);
+    expectKnownKeys(kv, `${path}.kv`, ["path", "prefix"]);
+    auth.kv = parseKvLocation(kv, `${path}.kv`);
+  }
+  if (!auth.keys?.length && !auth.kv) {
+    fail(path, `expected "keys" or "kv" to be configured`);
+  }
+  return auth;
+}
+
+/**
+ * Validates a parsed config document and returns a {@link ProxyConfig}.
+ * Settings missing from the document fall back to {@link DEFAULT_CONFIG}.
+ *
+ * @throws {ConfigError} naming the first invalid property.
+ */
+export function parseConfig(value: unknown): ProxyConfig {
+  const obj = expectObject(value, "");
+  expectKnownKeys(obj, "", [
+    "$schema",
+    "timeoutMs",
+    "idleTimeoutMs",
+    "totalTimeoutMs",
+    "maxRequestBytes",
+    "maxResponseBytes",
+    "rateLimit",
+    "clientRateLimits",
+    "rateLimitStore",
+    "retry",
+    "circuitBreaker",
+    "cache",
+    "metrics",
+    "adminPrefix",
+    "readinessChecks",
+    "tracing",
+    "accessLog",
+    "auth",
+    "trustedProxies",
+    "forwardedFor",
+    "offsiteLocations",
+    "maxRedirects",
+    "headers",
+    "hosts",
+    "upstreams",
+  ]);
+  const config: ProxyConfig = {
+    // A file may route through upstreams alone.
+    hosts: obj.hosts === undefined && obj.upstreams !== undefined
+      ? []
+      : expectArray(obj.hosts, "hosts").map((host, i) =>
+        parseHost(host, `hosts[${i}]`)
+      ),
+    timeoutMs: obj.timeoutMs === undefined
+      ? DEFAULT_CONFIG.timeoutMs
+      : expectPositiveInt(obj.timeoutMs, "timeoutMs"),
+    rateLimit: obj.rateLimit === undefined
+      ? { ...DEFAULT_CONFIG.rateLimit }
+      : parseRateLimit(obj.rateLimit, "rateLimit"),
+  };
+  if (obj.upstreams !== undefined) {
+    const names = new Set<string>();
+    config.upstreams = expectArray(obj.upstreams, "upstreams").map(
+      (upstream, i) => {
+        const parsed = parseUpstream(upstream, `upstreams[${i}]`);
+        const name = parsed.name.toLowerCase();
+        if (names.has(name)) {
+          fail(`upstreams[${i}].name`, `duplicate upstream "${parsed.name}"`);
+        }
+        names.add(name);
+        return parsed;
+      },
+    );
+  }
+  if (obj.headers !== undefined) {
+    config.headers = parseHeaderPolicy(obj.headers, "headers");
+  }
+  if (obj.idleTimeoutMs !== undefined) {
+    config.idleTimeoutMs = expectPositiveInt(
+      obj.idleTimeoutMs,
+      "idleTimeoutMs",
+    );
+  }
+  if (obj.totalTimeoutMs !== undefined) {
+    config.totalTimeoutMs = expectPositiveInt(
+      obj.totalTimeoutMs,
+      "totalTimeoutMs",
+    );
+  }
+  if (obj.maxRequestBytes !== undefined) {
+    config.maxRequestBytes = expectPositiveInt(
+      obj.maxRequestBytes,
+      "maxRequestBytes",
+    );
+  }
+  if (obj.maxResponseBytes !== undefined) {
+    config.maxResponseBytes = expectPositiveInt(
+      obj.maxResponseBytes,
+      "maxResponseBytes",
+    );
+  }
+  if (obj.clientRateLimits !== undefined) {
+    const limits = expectObject(obj.clientRateLimits, "clientRateLimits");
+    config.clientRateLimits = {};
+    for (const [clientId, limit] of Object.entries(limits)) {
+      config.clientRateLimits[clientId] = parseRateLimit(
+        limit,
+        `clientRateLimits.${clientId}`,
+      );
+    }
+  }
+  if (obj.rateLimitStore !== undefined) {
+    config.rateLimitStore = parseRateLimitStore(
+      obj.rateLimitStore,
+      "rateLimitStore",
+    );
+  }
+  if (obj.retry !== undefined) config.retry = parseRetry(obj.retry, "retry");
+  if (obj.circuitBreaker !== undefined) {
+    config.circuitBreaker = parseCircuitBreaker(
+      obj.circuitBreaker,
+      "circuitBreaker",
+    );
+  }
+  if (obj.cache !== undefined) config.cache = parseCache(obj.cache, "cache");
+  if (obj.metrics !== undefined) {
+    config.metrics = parseMetrics(obj.metrics, "metrics");
+  }
+  if (obj.adminPrefix !== undefined) {
+    config.adminPrefix = expectString(obj.adminPrefix, "adminPrefix");
+    if (!/^(\/[^/?#\s]+)+$/.test(config.adminPrefix)) {
+      fail(
+        "adminPrefix",
+        `expected a path without a trailing slash, such as "/_proxy"`,
+      );
+    }
+  }
+  if (obj.readinessChecks !== undefined) {
+    config.readinessChecks = expectArray(
+      obj.readinessChecks,
+      "readinessChecks",
+    ).map((check, i) => parseReadinessCheck(check, `readinessChecks[${i}]`));
+  }
+  if (obj.tracing !== undefined) {
+    config.tracing = parseTracing(obj.tracing, "tracing");
+  }
+  if (obj.accessLog !== undefined) {
+    config.accessLog = parseAccessLog(obj.accessLog, "accessLog");
+  }
+  if (obj.auth !== undefined) config.auth = parseAuth(obj.auth, "auth");
+  if (obj.trustedProxies !== undefined) {
+    config.trustedProxies = expectStringArray(
+      obj.trustedProxies,
+      "trustedProxies",
+    );
+    config.trustedProxies.forEach((cidr, i) => {
+      try {
+        parseCidr(cidr);
+      } catch {
+        fail(`trustedProxies[${i}]`, "expected an IP address or CIDR block");
+      }
+    });
+  }
+  if (obj.forwardedFor !== undefined) {
+    if (obj.forwardedFor !== "append" && obj.forwardedFor !== "strip") {
+      fail("forwardedFor", `expected "append" or "strip"`);
+    }
+    config.forwardedFor = obj.forwardedFor;
+  }
+  if (obj.offsiteLocations !== undefined) {
+    config.offsiteLocations = parseOffsiteLocations(
+      obj.offsiteLocations,
+      "offsiteLocations",
+    );
+  }
+  if (obj.maxRedirects !== undefined) {
+    config.maxRedirects = expectNonNegativeInt(
+      obj.maxRedirects,
+      "maxRedirects",
+    );
+  }
+  return config;
+}
+
+/** Parses and validates JSON or JSONC config text. */
+export function parseConfigText(text: string): ProxyConfig {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripJsonComments(text));
+  } catch (error) {
+    throw new ConfigError(`invalid JSON: ${(error as Error).message}`);
+  }
+  return parseConfig(value);
+}
+
+/**
+ * Reads, parses and validates the config file at `path`.
+ *
+ * @throws {ConfigError} prefixed with `path` when anything is wrong.
+ */
+export async function loadConfigFile(path: string): Promise<ProxyConfig> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch (error) {
+    throw new ConfigError(`${path}: ${(error as Error).message}`);
+  }
+  try {
+    return parseConfigText(text);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      throw new ConfigError(`${path}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Returns the config file path from a `--config <path>` / `--config=<path>`
+ * argument, falling back to the `PROXY_CONFIG` environment variable.
+ */
+export function configPathFrom(
+  args: string[],
+  env: EnvReader = Deno.env,
+): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--config" && args[i + 1]) return args[i + 1];
+    if (args[i].startsWith("--config=")) {
+      return args[i].slice("--config=".length);
+    }
+  }
+  return env.get("PROXY_CONFIG") || undefined;
+}
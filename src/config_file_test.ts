@@ -0,0 +1,503 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import {
+  ConfigError,
+  configPathFrom,
+  loadConfigFile,
+  parseConfigText,
+  stripJsonComments,
+} from "./config_file.ts";
+
+Deno.test("stripJsonComments", async (t) => {
+  await t.step("removes comments and trailing commas", () => {
+    const text = `{
+      // line comment
+      "a": 1, /* block */
+      "b": [1, 2,],
+    }`;
+    assertEquals(JSON.parse(stripJsonComments(text)), { a: 1, b: [1, 2] });
+  });
+
+  await t.step("drops trailing commas followed by comments", () => {
+    const text = `{
+      "timeoutMs": 5, // note
+      "b": [1, 2, /* x */ ],
+      "c": {"d": 3, /* one */ // two
+      },
+    }`;
+    assertEquals(JSON.parse(stripJsonComments(text)), {
+      timeoutMs: 5,
+      b: [1, 2],
+      c: { d: 3 },
+    });
+  });
+
+  await t.step("leaves string contents alone", () => {
+    const text = `{"url": "https://x//y", "c": "/* no */", "q": "a\\",b"}`;
+    assertEquals(JSON.parse(stripJsonComments(text)), {
+      url: "https://x//y",
+      c: "/* no */",
+      q: 'a",b',
+    });
+  });
+});
+
+Deno.test("parseConfigText", async (t) => {
+  await t.step("parses a full JSONC document", () => {
+    const config = parseConfigText(`{
+      "timeoutMs": 5000,
+      "rateLimit": { "windowMs": 1000, "maxRequests": 10 },
+      "hosts": [
+        "deno.land",
+        {
+          "host": "api.openai.com",
+          "timeoutMs": 30000,
+          "methods": ["get", "POST"],
+          "credentials": [
+            { "header": "Authorization", "env": "OPENAI_API_KEY", "prefix": "Bearer " },
+          ],
+          "routes": [
+            { "action": "deny", "path": "/v1/files/**", "methods": ["delete"] },
+            { "action": "allow", "path": "/v1/**", "name": "v1" },
+          ],
+          "rateLimit": { "windowMs": 60000, "maxRequests": 5 },
+          "headers": {
+            "request": { "set": { "X-Team": "web" }, "remove": ["Cookie"] },
+            "response": { "remove": ["x-request-id"] },
+          },
+        },
+      ],
+    }`);
+    assertEquals(config, {
+      timeoutMs: 5000,
+      rateLimit: { windowMs: 1000, maxRequests: 10 },
+      hosts: [
+        { host: "deno.land" },
+        {
+          host: "api.openai.com",
+          timeoutMs: 30000,
+          methods: ["GET", "POST"],
+          credentials: [
+            {
+              header: "authorization",
+              env: "OPENAI_API_KEY",
+              prefix: "Bearer ",
+            },
+          ],
+          routes: [
+            { action: "deny", path: "/v1/files/**", methods: ["DELETE"] },
+            { action: "allow", path: "/v1/**", name: "v1" },
+          ],
+          rateLimit: { windowMs: 60000, maxRequests: 5 },
+          headers: {
+            request: { set: { "x-team": "web" }, remove: ["cookie"] },
+            response: { remove: ["x-request-id"] },
+          },
+        },
+      ],
+    });
+  });
+
+  await t.step("fills in defaults", () => {
+    const config = parseConfigText(`{"hosts": []}`);
+    assertEquals(config.timeoutMs, 600000);
+    assertEquals(config.rateLimit, { windowMs: 60000, maxRequests: 1000 });
+  });
+
+  await t.step("names the offending property", () => {
+    const cases: [string, string][] = [
+      [`[]`, "expected an object"],
+      [`{}`, "hosts: expected an array"],
+      [`{"hosts": [], "port": 1}`, "port: unknown property"],
+      [`{"hosts": [{}]}`, "hosts[0].host: expected a non-empty string"],
+      [
+        `{"hosts": ["a", {"host": "b", "rateLimit": {"windowMs": 1}}]}`,
+        "hosts[1].rateLimit.maxRequests: expected a positive integer",
+      ],
+      [
+        `{"hosts": [{"host": "*.*.*.*.com"}]}`,
+        "hosts[0].host: Pattern",
+      ],
+      [
+        `{"hosts": [{"host": "a", "methods": ["GE T"]}]}`,
+        `hosts[0].methods[0]: invalid HTTP method "GE T"`,
+      ],
+      [
+        `{"hosts": [{"host": "a", "headers": {"request": {"set": {"x": 1}}}}]}`,
+        "hosts[0].headers.request.set.x: expected a string",
+      ],
+      [
+        `{"hosts": [{"host": "a", "headers": {"request": {"add": {"x": "{user}"}}}}]}`,
+        `hosts[0].headers.request.add.x: unknown placeholder "{user}"`,
+      ],
+      [
+        `{"hosts": [{"host": "a", "headers": {"response": {"keep": ["upgrade"]}}}]}`,
+        `hosts[0].headers.response.keep[0]: hop-by-hop header "upgrade" cannot be kept`,
+      ],
+      [
+        `{"hosts": [{"host": "a", "headers": {"request": {"keep": ["server"]}}}]}`,
+        `hosts[0].headers.request.keep[0]: "server" is not removed by default`,
+      ],
+      [
+        `{"hosts": [{"host": "a", "cookies": "keep"}]}`,
+        `hosts[0].cookies: expected "drop" or "rewrite"`,
+      ],
+      [
+        `{"hosts": [{"host": "a", "rewriteContent": "yes"}]}`,
+        "hosts[0].rewriteContent: expected a boolean",
+      ],
+      [
+        `{"hosts": [], "offsiteLocations": "allow"}`,
+        `offsiteLocations: expected "pass" or "block"`,
+      ],
+      [
+        `{"hosts": [{"host": "a", "routes": [{"action": "permit"}]}]}`,
+        `hosts[0].routes[0].action: expected "allow" or "deny"`,
+      ],
+      [
+        `{"hosts": [{"host": "a", "routes": [{"action": "deny", "path": "x"}]}]}`,
+        `hosts[0].routes[0].path: must start with "/"`,
+      ],
+      [`{"hosts": [], "auth": {}}`, `auth: expected "keys" or "kv"`],
+      [
+        `{"hosts": [], "auth": {"keys": [{"id": "a", "hash": "abc"}]}}`,
+        "auth.keys[0].hash: expected a hex SHA-256 digest",
+      ],
+      [
+        `{"hosts": [], "auth": {"keys": [
+          {"id": "a", "hash": "${"0".repeat(64)}"},
+          {"id": "a", "hash": "${"1".repeat(64)}"}
+        ]}}`,
+        `auth.keys[1].id: duplicate key id "a"`,
+      ],
+      [
+        `{"hosts": [{"host": "a", "credentials": [{"env": "K"}]}]}`,
+        `hosts[0].credentials[0]: expected exactly one of "header" or "query"`,
+      ],
+      [
+        `{"hosts": [{"host": "a", "credentials": [{"query": "k"}]}]}`,
+        `hosts[0].credentials[0]: expected exactly one of "env" or "value"`,
+      ],
+      [
+        `{"hosts": [], "rateLimitStore": {"type": "redis"}}`,
+        `rateLimitStore.type: expected "memory" or "kv"`,
+      ],
+      [
+        `{"hosts": [], "trustedProxies": ["10.0.0.0/8", "10.0.0.0/40"]}`,
+        "trustedProxies[1]: expected an IP address or CIDR block",
+      ],
+      [
+        `{"hosts": [{"host": "a", "cors": {"origins": ["app.test"]}}]}`,
+        `hosts[0].cors.origins[0]: expected "*" or a scheme and host`,
+      ],
+      [
+        `{"hosts": [{"host": "a", "cors": {"origins": ["*"], "maxAge": -1}}]}`,
+        "hosts[0].cors.maxAge: expected a positive integer",
+      ],
+      [
+        `{"hosts": [{"host": "a", "cors": {"origins": ["*"], "credentials": true}}]}`,
+        `hosts[0].cors.credentials: cannot be combined with "*" origins`,
+      ],
+      [
+        `{"hosts": [], "cache": {"store": {"type": "memory", "maxBytes": 0}}}`,
+        "cache.store.maxBytes: expected a positive integer",
+      ],
+      [
+        `{"hosts": [{"host": "a", "cache": {"ttl": "1h"}}]}`,
+        "hosts[0].cache.ttl: expected a non-negative integer",
+      ],
+      [
+        `{"hosts": [], "maxRedirects": -1}`,
+        "maxRedirects: expected a non-negative integer",
+      ],
+      [
+        `{"hosts": [{"host": "a", "allowInternalAddresses": "yes"}]}`,
+        "hosts[0].allowInternalAddresses: expected a boolean",
+      ],
+      [
+        `{"hosts": [], "forwardedFor": "drop"}`,
+        `forwardedFor: expected "append" or "strip"`,
+      ],
+      [
+        `{"hosts": [], "metrics": {"path": "metrics"}}`,
+        `metrics.path: expected an absolute path such as "/metrics"`,
+      ],
+      [
+        `{"hosts": [], "adminPrefix": "/_proxy/"}`,
+        `adminPrefix: expected a path without a trailing slash, such as "/_proxy"`,
+      ],
+      [
+        `{"hosts": [], "readinessChecks": [{"url": "ftp://a.example.com"}]}`,
+        "readinessChecks[0].url: expected an http(s) URL",
+      ],
+      [
+        `{"hosts": [], "tracing": {"sampleRatio": 2}}`,
+        "tracing.sampleRatio: expected a number from 0 to 1",
+      ],
+      [
+        `{"hosts": [], "tracing": {"endpoint": "localhost:4318"}}`,
+        "tracing.endpoint: expected an http(s) URL",
+      ],
+      [
+        `{"hosts": [], "accessLog": {"format": "common"}}`,
+        `accessLog.format: expected "json" or "combined"`,
+      ],
+      [`{"hosts": [}`, "invalid JSON"],
+    ];
+    for (const [text, message] of cases) {
+      assertThrows(() => parseConfigText(text), ConfigError, message);
+    }
+  });
+});
+
+Deno.test("parseConfigText reads the rate-limit store", () => {
+  const config = parseConfigText(`{
+    "hosts": [],
+    "rateLimitStore": { "type": "kv", "path": "limits.db" },
+  }`);
+  assertEquals(config.rateLimitStore, { type: "kv", path: "limits.db" });
+});
+
+Deno.test("parseConfigText reads cache settings", () => {
+  const config = parseConfigText(`{
+    "cache": { "store": { "type": "kv", "path": "cache.db" } },
+    "hosts": [{ "host": "api.example.com", "cache": { "ttl": 60 } }],
+  }`);
+  assertEquals(config.cache, { store: { type: "kv", path: "cache.db" } });
+  assertEquals(config.hosts[0].cache, { ttl: 60 });
+});
+
+Deno.test("parseConfigText reads metrics settings", () => {
+  const config = parseConfigText(`{
+    "hosts": [],
+    "metrics": { "path": "/metrics", "token": "scrape-secret" },
+  }`);
+  assertEquals(config.metrics, { path: "/metrics", token: "scrape-secret" });
+});
+
+Deno.test("parseConfigText reads health settings", () => {
+  const config = parseConfigText(`{
+    "hosts": [],
+    "adminPrefix": "/-/proxy",
+    "readinessChecks": [{ "url": "https://api.example.com/up", "timeoutMs": 2000 }],
+  }`);
+  assertEquals(config.adminPrefix, "/-/proxy");
+  assertEquals(config.readinessChecks, [
+    { url: "https://api.example.com/up", timeoutMs: 2000 },
+  ]);
+});
+
+Deno.test("parseConfigText reads tracing settings", () => {
+  const config = parseConfigText(`{
+    "hosts": [],
+    "tracing": {
+      "endpoint": "http://localhost:4318/v1/traces",
+      "headers": { "x-api-key": "secret" },
+      "sampleRatio": 0.25,
+    },
+  }`);
+  assertEquals(config.tracing, {
+    endpoint: "http://localhost:4318/v1/traces",
+    headers: { "x-api-key": "secret" },
+    sampleRatio: 0.25,
+  });
+});
+
+Deno.test("parseConfigText reads forwarding settings", () => {
+  const config = parseConfigText(`{
+    "hosts": [],
+    "trustedProxies": ["10.0.0.0/8", "::1"],
+    "forwardedFor": "strip",
+  }`);
+  assertEquals(config.trustedProxies, ["10.0.0.0/8", "::1"]);
+  assertEquals(config.forwardedFor, "strip");
+});
+
+Deno.test("parseConfigText reads timeouts", () => {
+  const config = parseConfigText(`{
+    "idleTimeoutMs": 30000,
+    "totalTimeoutMs": 300000,
+    "hosts": [{ "host": "api.openai.com", "idleTimeoutMs": 60000 }],
+  }`);
+  assertEquals(config.idleTimeoutMs, 30000);
+  assertEquals(config.totalTimeoutMs, 300000);
+  assertEquals(config.hosts[0].idleTimeoutMs, 60000);
+  assertThrows(
+    () => parseConfigText(`{ "hosts": [], "totalTimeoutMs": 0 }`),
+    ConfigError,
+    "totalTimeoutMs: expected a positive integer",
+  );
+});
+
+Deno.test("parseConfigText reads header policies", () => {
+  const config = parseConfigText(`{
+    "headers": { "request": { "add": { "X-Client": "{clientId}" } } },
+    "hosts": [{
+      "host": "a.test",
+      "headers": {
+        "response": { "rename": { "X-Old": "X-New" }, "keep": ["Set-Cookie"] },
+      },
+    }],
+  }`);
+  assertEquals(config.headers, {
+    request: { add: { "x-client": "{clientId}" } },
+  });
+  assertEquals(config.hosts[0].headers, {
+    response: { rename: { "x-old": "x-new" }, keep: ["set-cookie"] },
+  });
+});
+
+Deno.test("parseConfigText reads body size limits", () => {
+  const config = parseConfigText(`{
+    "maxRequestBytes": 1048576,
+    "hosts": [{ "host": "api.openai.com", "maxResponseBytes": 65536 }],
+  }`);
+  assertEquals(config.maxRequestBytes, 1048576);
+  assertEquals(config.hosts[0].maxResponseBytes, 65536);
+  assertThrows(
+    () =>
+      parseConfigText(
+        `{ "hosts": [{ "host": "a.test", "maxRequestBytes": -1 }] }`,
+      ),
+    ConfigError,
+    "hosts[0].maxRequestBytes: expected a positive integer",
+  );
+});
+
+Deno.test("parseConfigText reads schemes and ports", () => {
+  const config = parseConfigText(`{
+    "hosts": [
+      "internal.example.com:8443",
+      { "host": "http://localhost:9000", "allowHttp": true },
+    ],
+  }`);
+  assertEquals(config.hosts, [
+    { host: "internal.example.com:8443" },
+    { host: "http://localhost:9000", allowHttp: true },
+  ]);
+
+  const cases: [string, string][] = [
+    [
+      `{"hosts": ["http://localhost:9000"]}`,
+      `hosts[0].host: http:// requires "allowHttp": true`,
+    ],
+    [`{"hosts": ["ws://localhost"]}`, "hosts[0].host: Host entry"],
+    [
+      `{"hosts": ["localhost:70000"]}`,
+      'hosts[0].host: Host entry "localhost:70000" has an invalid port',
+    ],
+    [
+      `{"upstreams": [{"name": "a", "backends": ["http://a.test"]}]}`,
+      `upstreams[0].backends[0]: http:// requires "allowHttp": true`,
+    ],
+  ];
+  for (const [text, message] of cases) {
+    assertThrows(() => parseConfigText(text), ConfigError, message);
+  }
+});
+
+Deno.test("parseConfigText reads upstreams", () => {
+  const config = parseConfigText(`{
+    "upstreams": [{
+      "name": "openai",
+      "backends": ["https://api.openai.com/v1", "http://10.0.0.5:8080"],
+      "balance": "priority",
+      "healthCheck": { "path": "/health", "intervalMs": 5000 },
+      "allowInternalAddresses": true,
+      "allowHttp": true,
+      "methods": ["post"],
+    }],
+  }`);
+  assertEquals(config.hosts, []);
+  assertEquals(config.upstreams, [{
+    name: "openai",
+    backends: ["https://api.openai.com/v1", "http://10.0.0.5:8080"],
+    balance: "priority",
+    healthCheck: { path: "/health", intervalMs: 5000 },
+    allowInternalAddresses: true,
+    allowHttp: true,
+    methods: ["POST"],
+  }]);
+
+  const cases: [string, string][] = [
+    [
+      `{"upstreams": [{"name": "a/b", "backends": ["https://a.test"]}]}`,
+      "upstreams[0].name: expected letters",
+    ],
+    [
+      `{"upstreams": [{"name": "a", "backends": []}]}`,
+      "upstreams[0].backends: expected at least one URL",
+    ],
+    [
+      `{"upstreams": [{"name": "a", "backends": ["https://a.test/?k=1"]}]}`,
+      "upstreams[0].backends[0]: expected no query",
+    ],
+    [
+      `{"upstreams": [{"name": "a", "backends": ["https://a.test"], "balance": "random"}]}`,
+      `upstreams[0].balance: expected "round_robin" or "priority"`,
+    ],
+    [
+      `{"upstreams": [{"name": "a", "backends": ["https://a.test"], "healthCheck": {"path": "health"}}]}`,
+      "upstreams[0].healthCheck.path: expected an absolute path",
+    ],
+    [
+      `{"upstreams": [{"name": "a", "backends": ["https://a.test"]}, {"name": "A", "backends": ["https://b.test"]}]}`,
+      `upstreams[1].name: duplicate upstream "A"`,
+    ],
+    [
+      `{"upstreams": [{"name": "a", "host": "a.test", "backends": ["https://a.test"]}]}`,
+      "upstreams[0].host: unknown property",
+    ],
+  ];
+  for (const [text, message] of cases) {
+    assertThrows(() => parseConfigText(text), ConfigError, message);
+  }
+});
+
+Deno.test("parseConfigText reads client keys", () => {
+  const hash = "A".repeat(64);
+  const config = parseConfigText(`{
+    "hosts": ["api.openai.com"],
+    "auth": {
+      "bearer": true,
+      "keys": [{ "id": "web", "hash": "${hash}", "hosts": ["api.openai.com"] }],
+      "kv": { "path": "keys.db" },
+    },
+  }`);
+  assertEquals(config.auth, {
+    bearer: true,
+    keys: [{ id: "web", hash: hash.toLowerCase(), hosts: ["api.openai.com"] }],
+    kv: { path: "keys.db" },
+  });
+});
+
+Deno.test("loadConfigFile prefixes errors with the path", async () => {
+  const path = await Deno.makeTempFile({ suffix: ".jsonc" });
+  try {
+    await Deno.writeTextFile(path, `{"hosts": [{"host": "a", "x": 1}]}`);
+    await assertRejects(
+      () => loadConfigFile(path),
+      ConfigError,
+      `${path}: hosts[0].x: unknown property`,
+    );
+    await assertRejects(
+      () => loadConfigFile(`${path}.missing`),
+      ConfigError,
+      `${path}.missing`,
+    );
+  } finally {
+    await Deno.remove(path);
+  }
+});
+
+Deno.test("configPathFrom", () => {
+  const env = (values: Record<string, string>) => ({
+    get: (key: string) => values[key],
+  });
+  assertEquals(configPathFrom(["--config", "a.json"], env({})), "a.json");
+  assertEquals(configPathFrom(["--config=b.json"], env({})), "b.json");
+  assertEquals(
+    configPathFrom([], env({ PROXY_CONFIG: "c.jsonc" })),
+    "c.jsonc",
+  );
+  assertEquals(configPathFrom([], env({})), undefined);
+});
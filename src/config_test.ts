@@ -0,0 +1,79 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { configFromEnv, DEFAULT_CONFIG, portFromEnv } from "./config.ts";
+
+function env(values: Record<string, string>) {
+  return { get: (key: string) => values[key] };
+}
+
+Deno.test("configFromEnv", async (t) => {
+  await t.step("applies defaults", () => {
+    assertEquals(configFromEnv(env({})), {
+      hosts: [],
+      timeoutMs: DEFAULT_CONFIG.timeoutMs,
+      rateLimit: { ...DEFAULT_CONFIG.rateLimit },
+    });
+    assertEquals(portFromEnv(env({})), 8000);
+  });
+
+  await t.step("parses every variable", () => {
+    const config = configFromEnv(env({
+      ALLOWED_HOSTS: " api.openai.com, *.github.com ,,",
+      PROXY_TIMEOUT_MS: "30000",
+      RATE_LIMIT_WINDOW_MS: "1000",
+      RATE_LIMIT_MAX_REQUESTS: "5",
+      TRUSTED_PROXIES: "10.0.0.0/8, ::1",
+      OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: "http://localhost:4318/v1/traces",
+      OTEL_SERVICE_NAME: "edge-proxy",
+    }));
+    assertEquals(config.hosts, [
+      { host: "api.openai.com" },
+      { host: "*.github.com" },
+    ]);
+    assertEquals(config.timeoutMs, 30000);
+    assertEquals(config.rateLimit, { windowMs: 1000, maxRequests: 5 });
+    assertEquals(config.trustedProxies, ["10.0.0.0/8", "::1"]);
+    assertEquals(config.tracing, {
+      endpoint: "http://localhost:4318/v1/traces",
+      serviceName: "edge-proxy",
+    });
+    assertEquals(portFromEnv(env({ PROXY_PORT: "9000" })), 9000);
+  });
+
+  await t.step("rejects non-numeric values", () => {
+    assertThrows(
+      () => configFromEnv(env({ PROXY_TIMEOUT_MS: "soon" })),
+      Error,
+      "PROXY_TIMEOUT_MS",
+    );
+  });
+
+  await t.step("reads the idle and total timeouts", () => {
+    const config = configFromEnv(env({
+      PROXY_IDLE_TIMEOUT_MS: "15000",
+      PROXY_TOTAL_TIMEOUT_MS: "120000",
+    }));
+    assertEquals(config.idleTimeoutMs, 15000);
+    assertEquals(config.totalTimeoutMs, 120000);
+  });
+
+  await t.step("reads the body size limits", () => {
+    const config = configFromEnv(env({
+      PROXY_MAX_REQUEST_BYTES: "1048576",
+      PROXY_MAX_RESPONSE_BYTES: "0",
+    }));
+    assertEquals(config.maxRequestBytes, 1048576);
+    assertEquals(config.maxResponseBytes, undefined);
+  });
+
+  await t.step("reads the access log format", () => {
+    assertEquals(
+      configFromEnv(env({ ACCESS_LOG: "combined" })).accessLog,
+      { format: "combined" },
+    );
+    assertThrows(
+      () => configFromEnv(env({ ACCESS_LOG: "xml" })),
+      Error,
+      "ACCESS_LOG",
+    );
+  });
+});
@@ -0,0 +1,361 @@
+// ===================================================================
+// CONTENT REWRITING (Pointing URLs in HTML and CSS at the proxy)
+// ===================================================================
+import type { ProxyPathFor } from "./locations.ts";
+
+/**
+ * Longest tag or CSS token held back for rewriting, in characters. Longer
+ * ones, such as tags with large inline data URIs, pass through unchanged,
+ * so memory use stays bounded whatever the document's size.
+ */
+export const MAX_TOKEN_CHARS = 65536;
+
+/** Content types the rewriter understands. */
+export type RewritableContent = "html" | "css";
+
+/**
+ * What kind of rewritable content a response with `headers` carries, if
+ * any. Only UTF-8 (or undeclared) text that is not content-encoded is
+ * rewritten; anything else is passed on untouched.
+ */
+export function rewritableContent(
+  headers: Headers,
+): RewritableContent | undefined {
+  const encoding = headers.get("content-encoding")?.trim().toLowerCase();
+  if (encoding && encoding !== "identity") return undefined;
+  const [type, ...params] = (headers.get("content-type") ?? "")
+    .toLowerCase()
+    .split(";")
+    .map((part) => part.trim());
+  const charset = params.find((param) => param.startsWith("charset="))
+    ?.slice("charset=".length).replace(/"/g, "");
+  if (charset && charset !== "utf-8" && charset !== "utf8") return undefined;
+  return type === "text/html"
+    ? "html"
+    : type === "text/css"
+    ? "css"
+    : undefined;
+}
+
+/** Maps a URL written in a document to its proxy form, or `undefined`. */
+type UrlRewriter = (value: string) => string | undefined;
+
+/**
+ * The proxy form of `value`, when it is absolute (scheme-relative included)
+ * or root-relative and on a host the proxy reaches. Relative URLs already
+ * resolve below the document's proxy path and are left alone.
+ */
+function rewriteDocumentUrl(
+  value: string,
+  base: URL,
+  proxyPathFor: ProxyPathFor,
+): string | undefined {
+  const trimmed = value.trim();
+  if (!/^(?:[a-z][a-z0-9+.-]*:|\/)/i.test(trimmed)) return undefined;
+  let url: URL;
+  try {
+    url = new URL(trimmed, base);
+  } catch {
+    return undefined;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return undefined;
+  return proxyPathFor(url);
+}
+
+const CSS_URL =
+  /\burl\(\s*(?:"([^"]*)"|'([^']*)'|([^)"'\s]*))\s*\)|@import\s+(?:"([^"]*)"|'([^']*)')/gi;
+
+function rewriteCss(css: string, rewrite: UrlRewriter): string {
+  return css.replace(CSS_URL, (match, ...groups: (string | undefined)[]) => {
+    const [double, single, bare, importDouble, importSingle] = groups;
+    const value = double ?? single ?? bare ?? importDouble ?? importSingle;
+    const rewritten = value && rewrite(value);
+    if (!rewritten) return match;
+    return match.startsWith("@")
+      ? `@import "${rewritten}"`
+      : `url("${rewritten}")`;
+  });
+}
+
+// "@import" minus one: the longest keyword prefix a chunk may end with.
+const CSS_KEYWORD_TAIL = 6;
+
+/**
+ * Rewrites CSS arriving in pieces. Text that may still be part of a `url()`
+ * or `@import` is held back until the next piece, up to
+ * {@link MAX_TOKEN_CHARS}.
+ */
+function cssRewriter(rewrite: UrlRewriter) {
+  let pending = "";
+  return {
+    push(text: string): string {
+      pending += text;
+      let cut = Math.max(0, pending.length - CSS_KEYWORD_TAIL);
+      for (const match of pending.matchAll(CSS_URL)) {
+        const end = match.index + match[0].length;
+        if (match.index < cut && end > cut) cut = end;
+      }
+      const lower = pending.toLowerCase();
+      const open = Math.max(
+        lower.lastIndexOf("url("),
+        lower.lastIndexOf("@import"),
+      );
+      if (open >= 0 && open < cut) {
+        const rest = pending.slice(open);
+        const complete = new RegExp(CSS_URL.source, "iy").test(rest) ||
+          (rest[0] === "@" && /[;}]/.test(rest));
+        if (!complete && pending.length - open <= MAX_TOKEN_CHARS) cut = open;
+      }
+      const ready = pending.slice(0, cut);
+      pending = pending.slice(cut);
+      return rewriteCss(ready, rewrite);
+    },
+    flush(): string {
+      const rest = rewriteCss(pending, rewrite);
+      pending = "";
+      return rest;
+    },
+  };
+}
+
+const URL_ATTRIBUTES = new Set([
+  "action",
+  "background",
+  "formaction",
+  "href",
+  "poster",
+  "src",
+  "xlink:href",
+]);
+
+// Elements whose content is not markup. Style content is CSS.
+const RAW_TEXT_ELEMENTS = new Set([
+  "script",
+  "style",
+  "textarea",
+  "title",
+  "xmp",
+]);
+
+const ATTRIBUTE =
+  /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+function decodeEntities(value: string): string {
+  const named: Record<string, string> = {
+    amp: "&",
+    apos: "'",
+    gt: ">",
+    lt: "<",
+    quot: '"',
+  };
+  return value.replace(
+    /&(?:#(\d+)|#x([0-9a-f]+)|(amp|apos|gt|lt|quot));?/gi,
+    (match, decimal, hex, name) => {
+      if (name) return named[name.toLowerCase()];
+      const code = decimal ? Number(decimal) : parseInt(hex, 16);
+      return code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    },
+  );
+}
+
+function encodeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
+
+function rewriteSrcset(value: string, rewrite: UrlRewriter): string {
+  return value.replace(
+    /(^|,)(\s*)([^\s,]+)/g,
+    (match, comma, space, url) => {
+      const rewritten = rewrite(url);
+      return rewritten ? `${comma}${space}${rewritten}` : match;
+    },
+  );
+}
+
+/** The index just past the `>` ending the tag `html` starts with, or -1. */
+function tagEnd(html: string): number {
+  let quote = "";
+  let afterEquals = false;
+  for (let i = 1; i < html.length; i++) {
+    const char = html[i];
+    if (quote) {
+      if (char === quote) quote = "";
+    } else if (char === ">") {
+      return i + 1;
+    } else if (afterEquals && (char === '"' || char === "'")) {
+      quote = char;
+    }
+    if (!/\s/.test(char)) afterEquals = char === "=";
+  }
+  return -1;
+}
+
+/**
+ * Rewrites HTML arriving in pieces. Text between tags is passed on as it
+ * comes; a tag is held back until its `>` arrives, up to
+ * {@link MAX_TOKEN_CHARS}. The first `<base href>` changes what
+ * root-relative URLs resolve against.
+ */
+function htmlRewriter(documentUrl: URL, proxyPathFor: ProxyPathFor) {
+  let base = documentUrl;
+  let baseSeen = false;
+  const rewrite: UrlRewriter = (value) =>
+    rewriteDocumentUrl(value, base, proxyPathFor);
+  let pending = "";
+  let rawText: { end: string; css?: ReturnType<typeof cssRewriter> } | null =
+    null;
+  let inComment = false;
+
+  const rewriteTag = (tag: string): string => {
+    const [start, closing, name] = tag.match(/^<(\/?)([a-z][^\s/>]*)/i) ?? [];
+    if (!start || closing) return tag;
+    const element = name.toLowerCase();
+    const attributes = tag.slice(start.length, -1).replace(
+      ATTRIBUTE,
+      (match, attribute: string, double, single, bare) => {
+        const value = double ?? single ?? bare;
+        if (value === undefined) return match;
+        const decoded = decodeEntities(value);
+        const key = attribute.toLowerCase();
+        let rewritten: string | undefined;
+        if (key === "style") {
+          rewritten = rewriteCss(decoded, rewrite);
+        } else if (key === "srcset") {
+          rewritten = rewriteSrcset(decoded, rewrite);
+        } else if (
+          URL_ATTRIBUTES.has(key) || (key === "data" && element === "object")
+        ) {
+          if (element === "base" && key === "href" && !baseSeen) {
+            baseSeen = true;
+            try {
+              base = new URL(decoded.trim(), documentUrl);
+            } catch {
+              // An invalid base is ignored, as browsers do.
+            }
+          }
+          rewritten = rewrite(decoded);
+        }
+        return rewritten === undefined || rewritten === decoded
+          ? match
+          : `${attribute}="${encodeAttribute(rewritten)}"`;
+      },
+    );
+    if (RAW_TEXT_ELEMENTS.has(element) && !tag.endsWith("/>")) {
+      rawText = {
+        end: `</${element}`,
+        css: element === "style" ? cssRewriter(rewrite) : undefined,
+      };
+    }
+    return `${start}${attributes}>`;
+  };
+
+  const process = (final: boolean): string => {
+    let out = "";
+    while (pending) {
+      if (inComment) {
+        const end = pending.indexOf("-->");
+        if (end < 0) {
+          const keep = final ? 0 : Math.min(2, pending.length);
+          out += pending.slice(0, pending.length - keep);
+          pending = pending.slice(pending.length - keep);
+          break;
+        }
+        out += pending.slice(0, end + 3);
+        pending = pending.slice(end + 3);
+        inComment = false;
+      } else if (rawText) {
+        const end = pending.toLowerCase().indexOf(rawText.end);
+        const text = end < 0
+          ? pending.slice(
+            0,
+            final
+              ? pending.length
+              : Math.max(0, pending.length - rawText.end.length),
+          )
+          : pending.slice(0, end);
+        pending = pending.slice(text.length);
+        out += rawText.css ? rawText.css.push(text) : text;
+        if (end < 0) break;
+        if (rawText.css) out += rawText.css.flush();
+        rawText = null;
+      } else {
+        const open = pending.indexOf("<");
+        if (open < 0) {
+          out += pending;
+          pending = "";
+          break;
+        }
+        out += pending.slice(0, open);
+        pending = pending.slice(open);
+        if (pending.length < 4 && !final && "<!--".startsWith(pending)) break;
+        if (pending.startsWith("<!--")) {
+          out += "<!--";
+          pending = pending.slice(4);
+          inComment = true;
+          continue;
+        }
+        if (pending.length < 2 && !final) break;
+        if (!/^<[a-z\/!?]/i.test(pending)) {
+          out += "<";
+          pending = pending.slice(1);
+          continue;
+        }
+        const end = tagEnd(pending);
+        if (end < 0) {
+          if (!final && pending.length <= MAX_TOKEN_CHARS) break;
+          out += "<";
+          pending = pending.slice(1);
+          continue;
+        }
+        out += rewriteTag(pending.slice(0, end));
+        pending = pending.slice(end);
+      }
+    }
+    return out;
+  };
+
+  return {
+    push(text: string): string {
+      pending += text;
+      return process(false);
+    },
+    flush(): string {
+      const out = process(true);
+      return out + (rawText?.css?.flush() ?? "");
+    },
+  };
+}
+
+/**
+ * Rewrites the URLs in an HTML or CSS body while it streams: absolute and
+ * root-relative URLs on hosts the proxy reaches become their proxy paths,
+ * in attributes (`srcset` and inline styles included), `<style>` elements
+ * and style sheets. `documentUrl` is the URL the body came from.
+ */
+export function rewriteContentStream(
+  stream: ReadableStream<Uint8Array>,
+  content: RewritableContent,
+  documentUrl: URL,
+  proxyPathFor: ProxyPathFor,
+): ReadableStream<Uint8Array> {
+  const rewriter = content === "html"
+    ? htmlRewriter(documentUrl, proxyPathFor)
+    : cssRewriter((value) =>
+      rewriteDocumentUrl(value, documentUrl, proxyPathFor)
+    );
+  return stream
+    .pipeThrough(new TextDecoderStream())
+    .pipeThrough(
+      new TransformStream<string, string>({
+        transform(chunk, controller) {
+          const text = rewriter.push(chunk);
+          if (text) controller.enqueue(text);
+        },
+        flush(controller) {
+          const text = rewriter.flush();
+          if (text) controller.enqueue(text);
+        },
+      }),
+    )
+    .pipeThrough(new TextEncoderStream());
+}
@@ -0,0 +1,99 @@
+import { assertEquals } from "@std/assert";
+import {
+  type RewritableContent,
+  rewritableContent,
+  rewriteContentStream,
+} from "./content_rewrite.ts";
+
+const documentUrl = new URL("https://www.example.com/docs/page.html");
+const proxyPathFor = (url: URL) =>
+  url.hostname.endsWith("example.com")
+    ? `/${url.host}${url.pathname}${url.search}`
+    : undefined;
+
+/** Rewrites `chunks` as one streamed body. */
+function rewrite(content: RewritableContent, chunks: string[]) {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(
+    rewriteContentStream(stream, content, documentUrl, proxyPathFor),
+  ).text();
+}
+
+Deno.test("rewritableContent", () => {
+  const content = (headers: Record<string, string>) =>
+    rewritableContent(new Headers(headers));
+  assertEquals(content({ "content-type": "text/html; charset=UTF-8" }), "html");
+  assertEquals(content({ "content-type": "text/css" }), "css");
+  assertEquals(content({ "content-type": "application/json" }), undefined);
+  assertEquals(
+    content({ "content-type": "text/html; charset=iso-8859-1" }),
+    undefined,
+  );
+  assertEquals(
+    content({ "content-type": "text/html", "content-encoding": "br" }),
+    undefined,
+  );
+});
+
+Deno.test("rewriteContentStream", async (t) => {
+  const html = [
+    "<!doctype html><html><head>",
+    '<link rel="stylesheet" href="https://cdn.example.com/a.css?v=1&amp;x=2">',
+    "<style>body { background: url('/bg.png') } @import \"//cdn.example.com/b.css\";</style>",
+    "<script>const a = '<a href=\"/no\">';</script>",
+    "</head><body>",
+    '<!-- <a href="/commented"> -->',
+    '<a href="/top" data-x="/kept">top</a> <a href=relative.html>rel</a>',
+    '<a href="https://other.test/">away</a> <a href="#frag">here</a>',
+    '<img src=//img.example.com/i.png srcset="/s1.png 1x, https://img.example.com/s2.png 2x">',
+    '<div style="background-image: url(&quot;/d.png&quot;)">1 < 2</div>',
+    '<form action="/search"><button formaction="mailto:x@example.com">',
+    "</body></html>",
+  ].join("\n");
+  const expected = [
+    "<!doctype html><html><head>",
+    '<link rel="stylesheet" href="/cdn.example.com/a.css?v=1&amp;x=2">',
+    '<style>body { background: url("/www.example.com/bg.png") } @import "/cdn.example.com/b.css";</style>',
+    "<script>const a = '<a href=\"/no\">';</script>",
+    "</head><body>",
+    '<!-- <a href="/commented"> -->',
+    '<a href="/www.example.com/top" data-x="/kept">top</a> <a href=relative.html>rel</a>',
+    '<a href="https://other.test/">away</a> <a href="#frag">here</a>',
+    '<img src="/img.example.com/i.png" srcset="/www.example.com/s1.png 1x, /img.example.com/s2.png 2x">',
+    '<div style="background-image: url(&quot;/www.example.com/d.png&quot;)">1 < 2</div>',
+    '<form action="/www.example.com/search"><button formaction="mailto:x@example.com">',
+    "</body></html>",
+  ].join("\n");
+
+  await t.step("rewrites HTML", async () => {
+    assertEquals(await rewrite("html", [html]), expected);
+  });
+
+  await t.step("gives the same result however the body is split", async () => {
+    assertEquals(await rewrite("html", [...html]), expected);
+  });
+
+  await t.step("resolves root-relative URLs against <base>", async () => {
+    assertEquals(
+      await rewrite("html", [
+        '<base href="https://api.example.com/v1/"><a href="/x">',
+      ]),
+      '<base href="/api.example.com/v1/"><a href="/api.example.com/x">',
+    );
+  });
+
+  await t.step("rewrites style sheets", async () => {
+    const css = "@import 'https://cdn.example.com/b.css';\n" +
+      "a { background: url(/a.png) } b { background: url(data:image/png;base64,AA==) }";
+    const rewritten = '@import "/cdn.example.com/b.css";\n' +
+      'a { background: url("/www.example.com/a.png") } b { background: url(data:image/png;base64,AA==) }';
+    assertEquals(await rewrite("css", [css]), rewritten);
+    assertEquals(await rewrite("css", [...css]), rewritten);
+  });
+});
@@ -0,0 +1,113 @@
+// ===================================================================
+// COOKIE PASSTHROUGH (Scoping upstream cookies to their proxy path)
+// ===================================================================
+
+// Marks cookie names set through the proxy, so the Cookie header sent
+// upstream carries only those. `__Host-` cookies must use `Path=/`, which
+// rules out path scoping, so they are kept as `__Secure-` ones.
+const COOKIE_MARK = "dp_";
+const HOST_COOKIE_MARK = "dph_";
+const SECURE_PREFIX = "__Secure-";
+const HOST_PREFIX = "__Host-";
+
+/** The name an upstream's cookie `name` is stored under in the browser. */
+export function encodeCookieName(name: string): string {
+  if (name.startsWith(HOST_PREFIX)) {
+    return SECURE_PREFIX + HOST_COOKIE_MARK + name.slice(HOST_PREFIX.length);
+  }
+  if (name.startsWith(SECURE_PREFIX)) {
+    return SECURE_PREFIX + COOKIE_MARK + name.slice(SECURE_PREFIX.length);
+  }
+  return COOKIE_MARK + name;
+}
+
+/**
+ * Reverses {@link encodeCookieName}. Returns `undefined` for cookies not
+ * set through the proxy.
+ */
+export function decodeCookieName(stored: string): string | undefined {
+  const secure = stored.startsWith(SECURE_PREFIX);
+  const name = secure ? stored.slice(SECURE_PREFIX.length) : stored;
+  if (secure && name.startsWith(HOST_COOKIE_MARK)) {
+    return HOST_PREFIX + name.slice(HOST_COOKIE_MARK.length);
+  }
+  if (!name.startsWith(COOKIE_MARK)) return undefined;
+  return (secure ? SECURE_PREFIX : "") + name.slice(COOKIE_MARK.length);
+}
+
+/**
+ * Rewrites one `Set-Cookie` value from an upstream reached under
+ * `pathPrefix` (`/<targetHost>`): the name is marked, `Domain` becomes
+ * `proxyHost` and `Path` is moved below `pathPrefix`. Without a `Path`, it
+ * is set to `pathPrefix`, as the browser's default path for a request to
+ * `pathPrefix` itself is `/`. Returns `undefined` for values without a
+ * cookie name.
+ */
+export function rewriteSetCookie(
+  value: string,
+  proxyHost: string,
+  pathPrefix: string,
+): string | undefined {
+  const [pair, ...attributes] = value.split(";");
+  const eq = pair.indexOf("=");
+  const name = pair.slice(0, eq).trim();
+  if (eq < 0 || !name) return undefined;
+  const rewritten = [`${encodeCookieName(name)}=${pair.slice(eq + 1).trim()}`];
+  let hasPath = false;
+  for (const attribute of attributes.map((a) => a.trim())) {
+    const [key, ...rest] = attribute.split("=");
+    const attributeValue = rest.join("=").trim();
+    switch (key.trim().toLowerCase()) {
+      case "":
+        break;
+      case "domain":
+        rewritten.push(`Domain=${proxyHost}`);
+        break;
+      case "path":
+        // Paths not starting with "/" mean the default path.
+        if (attributeValue.startsWith("/")) {
+          const path = attributeValue === "/" ? "" : attributeValue;
+          rewritten.push(`Path=${pathPrefix}${path}`);
+          hasPath = true;
+        }
+        break;
+      default:
+        rewritten.push(attribute);
+    }
+  }
+  if (!hasPath) rewritten.push(`Path=${pathPrefix}`);
+  return rewritten.join("; ");
+}
+
+/** Applies {@link rewriteSetCookie} to every `Set-Cookie` in `headers`. */
+export function rewriteSetCookieHeaders(
+  headers: Headers,
+  proxyHost: string,
+  pathPrefix: string,
+): void {
+  const cookies = headers.getSetCookie();
+  headers.delete("set-cookie");
+  for (const cookie of cookies) {
+    const rewritten = rewriteSetCookie(cookie, proxyHost, pathPrefix);
+    if (rewritten) headers.append("set-cookie", rewritten);
+  }
+}
+
+/**
+ * The `Cookie` header to send upstream: only cookies set through the
+ * proxy, under their original names. The browser only sends those set
+ * by this upstream, as the others are scoped to other paths. Returns
+ * `undefined` when none are left.
+ */
+export function upstreamCookieHeader(
+  header: string | null,
+): string | undefined {
+  const cookies = (header ?? "").split(";").flatMap((pair) => {
+    const eq = pair.indexOf("=");
+    const name = eq < 0
+      ? undefined
+      : decodeCookieName(pair.slice(0, eq).trim());
+    return name === undefined ? [] : [`${name}=${pair.slice(eq + 1).trim()}`];
+  });
+  return cookies.length ? cookies.join("; ") : undefined;
+}
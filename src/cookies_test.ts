@@ -0,0 +1,48 @@
+import { assertEquals } from "@std/assert";
+import {
+  decodeCookieName,
+  encodeCookieName,
+  rewriteSetCookie,
+  upstreamCookieHeader,
+} from "./cookies.ts";
+
+Deno.test("cookie names round-trip through the proxy", () => {
+  for (
+    const [name, stored] of [
+      ["sid", "dp_sid"],
+      ["__Secure-sid", "__Secure-dp_sid"],
+      ["__Host-sid", "__Secure-dph_sid"],
+    ]
+  ) {
+    assertEquals(encodeCookieName(name), stored);
+    assertEquals(decodeCookieName(stored), name);
+  }
+  assertEquals(decodeCookieName("_ga"), undefined);
+  assertEquals(decodeCookieName("__Secure-other"), undefined);
+});
+
+Deno.test("rewriteSetCookie", () => {
+  const rewrite = (value: string) =>
+    rewriteSetCookie(value, "proxy.dev", "/api.example.com");
+  assertEquals(
+    rewrite("sid=a=b; Domain=.example.com; Path=/; Secure; HttpOnly"),
+    "dp_sid=a=b; Domain=proxy.dev; Path=/api.example.com; Secure; HttpOnly",
+  );
+  assertEquals(
+    rewrite("pref=1;path=/v1;Max-Age=60"),
+    "dp_pref=1; Path=/api.example.com/v1; Max-Age=60",
+  );
+  assertEquals(rewrite("x=1; Path=relative"), "dp_x=1; Path=/api.example.com");
+  assertEquals(rewrite("x=1; Secure"), "dp_x=1; Secure; Path=/api.example.com");
+  assertEquals(rewrite("=1"), undefined);
+  assertEquals(rewrite("novalue"), undefined);
+});
+
+Deno.test("upstreamCookieHeader keeps only cookies set through the proxy", () => {
+  assertEquals(
+    upstreamCookieHeader("_ga=1; dp_sid=abc; __Secure-dph_csrf=x; junk"),
+    "sid=abc; __Host-csrf=x",
+  );
+  assertEquals(upstreamCookieHeader("_ga=1"), undefined);
+  assertEquals(upstreamCookieHeader(null), undefined);
+});
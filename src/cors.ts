@@ -0,0 +1,151 @@
+// ===================================================================
+// CORS (Preflight answers & response headers)
+// ===================================================================
+import type { CorsConfig } from "./config.ts";
+
+/** A {@link CorsConfig} with its origin patterns pre-compiled. */
+export interface CompiledCors {
+  config: CorsConfig;
+  /** `null` when any origin is allowed (`"*"`). */
+  origins: RegExp[] | null;
+}
+
+/**
+ * Compiles an origin pattern such as `https://*.example.com` or
+ * `http://localhost:*`. A `*` matches one hostname label or a port.
+ */
+export function originToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join("[^.:/]+");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Pre-compiles `config`. Throws for `"*"` with `credentials`, which would
+ * let every site make credentialed requests through the proxy.
+ */
+export function compileCors(config: CorsConfig): CompiledCors {
+  if (config.credentials && config.origins.includes("*")) {
+    throw new Error(
+      'CORS credentials need an explicit origin list, not "*"',
+    );
+  }
+  return {
+    config,
+    origins: config.origins.includes("*")
+      ? null
+      : config.origins.map(originToRegExp),
+  };
+}
+
+/** Whether `request` is a CORS preflight rather than a plain `OPTIONS`. */
+export function isPreflight(request: Request): boolean {
+  return request.method === "OPTIONS" &&
+    request.headers.has("origin") &&
+    request.headers.has("access-control-request-method");
+}
+
+/**
+ * The `Access-Control-Allow-Origin` value for `origin`, or `undefined` when
+ * the origin is not allowed. Wildcard configs, which never allow
+ * credentials, answer `*`.
+ */
+export function allowedOrigin(
+  cors: CompiledCors,
+  origin: string,
+): string | undefined {
+  if (!cors.origins) return "*";
+  return cors.origins.some((regex) => regex.test(origin)) ? origin : undefined;
+}
+
+function appendVary(headers: Headers, names: string[]): void {
+  const existing = (headers.get("vary") ?? "")
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+  const lower = existing.map((v) => v.toLowerCase());
+  const added = names.filter((name) => !lower.includes(name.toLowerCase()));
+  if (added.length) headers.set("vary", [...existing, ...added].join(", "));
+}
+
+/**
+ * Removes upstream `Access-Control-*` headers, so that for hosts with a
+ * CORS config the proxy alone decides who may read responses.
+ */
+export function stripCorsHeaders(headers: Headers): void {
+  for (const name of [...headers.keys()]) {
+    if (name.startsWith("access-control-")) headers.delete(name);
+  }
+}
+
+/** Adds the `Access-Control-*` headers `cors` allows for `origin`. */
+export function applyCorsHeaders(
+  headers: Headers,
+  cors: CompiledCors,
+  origin: string | null,
+): void {
+  if (cors.origins || cors.config.credentials) appendVary(headers, ["Origin"]);
+
+  const allowOrigin = origin ? allowedOrigin(cors, origin) : undefined;
+  if (!allowOrigin) return;
+  headers.set("access-control-allow-origin", allowOrigin);
+  if (cors.config.credentials) {
+    headers.set("access-control-allow-credentials", "true");
+  }
+  if (cors.config.exposeHeaders?.length) {
+    headers.set(
+      "access-control-expose-headers",
+      cors.config.exposeHeaders.join(", "),
+    );
+  }
+}
+
+/**
+ * Answers a preflight for a host configured with `cors`: `204` with the
+ * allowed methods, headers and max age, or `403` when the origin or method
+ * is not allowed. The origin headers are added by {@link applyCorsHeaders}.
+ */
+export function preflightResponse(
+  cors: CompiledCors,
+  request: Request,
+): Response {
+  const origin = request.headers.get("origin")!;
+  const method = request.headers.get("access-control-request-method")!;
+  const { methods, headers, maxAge } = cors.config;
+
+  if (!allowedOrigin(cors, origin)) {
+    return new Response(
+      `Forbidden: Origin '${origin}' is not allowed.`,
+      { status: 403 },
+    );
+  }
+  if (methods && !methods.includes(method.toUpperCase())) {
+    return new Response(
+      `Forbidden: Method ${method} is not allowed cross-origin.`,
+      { status: 403 },
+    );
+  }
+
+  const response = new Response(null, { status: 204 });
+  response.headers.set(
+    "access-control-allow-methods",
+    methods?.join(", ") ?? method,
+  );
+  // Without a configured list, any headers the browser asks about are fine;
+  // the proxy's own header rules still apply when the request is forwarded.
+  const requested = request.headers.get("access-control-request-headers");
+  const allowHeaders = headers?.join(", ") ?? requested;
+  if (allowHeaders) {
+    response.headers.set("access-control-allow-headers", allowHeaders);
+  }
+  if (maxAge !== undefined) {
+    response.headers.set("access-control-max-age", String(maxAge));
+  }
+  appendVary(response.headers, [
+    "Access-Control-Request-Method",
+    "Access-Control-Request-Headers",
+  ]);
+  return response;
+}
@@ -0,0 +1,123 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  allowedOrigin,
+  applyCorsHeaders,
+  compileCors,
+  originToRegExp,
+  preflightResponse,
+  stripCorsHeaders,
+} from "./cors.ts";
+
+function preflight(origin: string, method: string, headers?: string) {
+  return new Request("http://proxy.local/api.example.com/v1", {
+    method: "OPTIONS",
+    headers: {
+      origin,
+      "access-control-request-method": method,
+      ...(headers ? { "access-control-request-headers": headers } : {}),
+    },
+  });
+}
+
+Deno.test("originToRegExp", () => {
+  const regex = originToRegExp("https://*.example.com");
+  assertEquals(regex.test("https://app.example.com"), true);
+  assertEquals(regex.test("https://a.b.example.com"), false);
+  assertEquals(regex.test("http://app.example.com"), false);
+  assertEquals(
+    originToRegExp("http://localhost:*").test("http://localhost:5173"),
+    true,
+  );
+});
+
+Deno.test("compileCors rejects credentials for any origin", () => {
+  assertThrows(
+    () => compileCors({ origins: ["*"], credentials: true }),
+    Error,
+    "explicit origin list",
+  );
+});
+
+Deno.test("allowedOrigin", async (t) => {
+  await t.step("answers * for wildcard configs", () => {
+    const cors = compileCors({ origins: ["*"] });
+    assertEquals(allowedOrigin(cors, "https://a.test"), "*");
+  });
+
+  await t.step("echoes matching origins", () => {
+    const cors = compileCors({
+      origins: ["https://*.a.test"],
+      credentials: true,
+    });
+    assertEquals(allowedOrigin(cors, "https://x.a.test"), "https://x.a.test");
+  });
+
+  await t.step("rejects unlisted origins", () => {
+    const cors = compileCors({ origins: ["https://a.test"] });
+    assertEquals(allowedOrigin(cors, "https://b.test"), undefined);
+  });
+});
+
+Deno.test("preflightResponse", async (t) => {
+  const cors = compileCors({
+    origins: ["https://app.test"],
+    methods: ["GET", "POST"],
+    maxAge: 600,
+  });
+
+  await t.step("lists the allowed methods and headers", () => {
+    const response = preflightResponse(
+      cors,
+      preflight("https://app.test", "POST", "content-type, x-proxy-key"),
+    );
+    assertEquals(response.status, 204);
+    assertEquals(
+      response.headers.get("access-control-allow-methods"),
+      "GET, POST",
+    );
+    assertEquals(
+      response.headers.get("access-control-allow-headers"),
+      "content-type, x-proxy-key",
+    );
+    assertEquals(response.headers.get("access-control-max-age"), "600");
+  });
+
+  await t.step("rejects disallowed origins and methods", async () => {
+    for (
+      const request of [
+        preflight("https://evil.test", "GET"),
+        preflight("https://app.test", "DELETE"),
+      ]
+    ) {
+      const response = preflightResponse(cors, request);
+      assertEquals(response.status, 403);
+      await response.body?.cancel();
+    }
+  });
+});
+
+Deno.test("applyCorsHeaders replaces upstream headers", () => {
+  const cors = compileCors({
+    origins: ["https://app.test"],
+    credentials: true,
+    exposeHeaders: ["x-request-id"],
+  });
+  const headers = new Headers({
+    "access-control-allow-origin": "*",
+    "access-control-allow-methods": "PUT",
+    vary: "Accept-Encoding",
+  });
+  stripCorsHeaders(headers);
+  applyCorsHeaders(headers, cors, "https://app.test");
+  assertEquals(Object.fromEntries(headers), {
+    "access-control-allow-credentials": "true",
+    "access-control-allow-origin": "https://app.test",
+    "access-control-expose-headers": "x-request-id",
+    vary: "Accept-Encoding, Origin",
+  });
+
+  const other = new Headers({ "access-control-allow-origin": "*" });
+  stripCorsHeaders(other);
+  applyCorsHeaders(other, cors, "https://evil.test");
+  assertEquals(Object.fromEntries(other), { vary: "Origin" });
+});
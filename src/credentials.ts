@@ -0,0 +1,92 @@
+// ===================================================================
+// UPSTREAM CREDENTIAL INJECTION
+// ===================================================================
+import type { EnvReader, UpstreamCredential } from "./config.ts";
+
+/** A credential with its secret looked up. */
+export interface ResolvedCredential {
+  header?: string;
+  query?: string;
+  /** Full value to send, including any prefix. */
+  value: string;
+  /** The bare secret, used for redaction. */
+  secret: string;
+}
+
+/** Placeholder written in place of secrets in logs. */
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Looks up the secrets for `credentials`.
+ *
+ * @throws {Error} naming (but never revealing) a missing environment
+ * variable.
+ */
+export function resolveCredentials(
+  credentials: UpstreamCredential[],
+  env: EnvReader = Deno.env,
+): ResolvedCredential[] {
+  return credentials.map((credential) => {
+    const secret = credential.env !== undefined
+      ? env.get(credential.env)
+      : credential.value;
+    if (!secret) {
+      throw new Error(
+        `Upstream credential variable ${credential.env} is not set`,
+      );
+    }
+    return {
+      header: credential.header,
+      query: credential.query,
+      value: (credential.prefix ?? "") + secret,
+      secret,
+    };
+  });
+}
+
+/** Sets credential headers on `headers`, replacing client-sent values. */
+export function applyCredentialHeaders(
+  headers: Headers,
+  credentials: ResolvedCredential[],
+): void {
+  for (const { header, value } of credentials) {
+    if (header) headers.set(header, value);
+  }
+}
+
+/** Sets credential query parameters on `url`, replacing client-sent ones. */
+export function applyCredentialQuery(
+  url: URL,
+  credentials: ResolvedCredential[],
+): void {
+  for (const { query, value } of credentials) {
+    if (query) url.searchParams.set(query, value);
+  }
+}
+
+/**
+ * Replaces every occurrence of `secrets` in `text` with {@link REDACTED},
+ * including their URL-encoded forms (as they appear in query strings).
+ */
+export function redactSecrets(text: string, secrets: string[]): string;
+export function redactSecrets(
+  text: string | undefined,
+  secrets: string[],
+): string | undefined;
+export function redactSecrets(
+  text: string | undefined,
+  secrets: string[],
+): string | undefined {
+  if (text === undefined) return text;
+  for (const secret of secrets) {
+    const forms = new Set([
+      secret,
+      encodeURIComponent(secret),
+      new URLSearchParams({ s: secret }).toString().slice(2),
+    ]);
+    for (const form of forms) {
+      text = text.replaceAll(form, REDACTED);
+    }
+  }
+  return text;
+}
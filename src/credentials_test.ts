@@ -0,0 +1,62 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  applyCredentialHeaders,
+  applyCredentialQuery,
+  redactSecrets,
+  resolveCredentials,
+} from "./credentials.ts";
+
+Deno.test("resolveCredentials", async (t) => {
+  const env = { get: (key: string) => ({ API_KEY: "s3cret" })[key] };
+
+  await t.step("reads env variables and applies prefixes", () => {
+    assertEquals(
+      resolveCredentials([
+        { header: "authorization", env: "API_KEY", prefix: "Bearer " },
+        { query: "key", value: "inline" },
+      ], env),
+      [
+        {
+          header: "authorization",
+          query: undefined,
+          value: "Bearer s3cret",
+          secret: "s3cret",
+        },
+        { header: undefined, query: "key", value: "inline", secret: "inline" },
+      ],
+    );
+  });
+
+  await t.step("names a missing variable", () => {
+    assertThrows(
+      () => resolveCredentials([{ header: "x-key", env: "MISSING" }], env),
+      Error,
+      "MISSING is not set",
+    );
+  });
+});
+
+Deno.test("applyCredential* replace client-sent values", () => {
+  const credentials = resolveCredentials([
+    { header: "authorization", value: "abc", prefix: "Bearer " },
+    { query: "key", value: "a b&c" },
+  ]);
+  const headers = new Headers({ authorization: "Bearer client" });
+  applyCredentialHeaders(headers, credentials);
+  assertEquals(headers.get("authorization"), "Bearer abc");
+
+  const url = new URL("https://api.example.com/v1?key=client&q=1");
+  applyCredentialQuery(url, credentials);
+  assertEquals(url.searchParams.get("key"), "a b&c");
+  assertEquals(url.searchParams.get("q"), "1");
+});
+
+Deno.test("redactSecrets scrubs raw and URL-encoded secrets", () => {
+  const url = new URL("https://api.example.com/?key=x");
+  url.searchParams.set("key", "a b&c");
+  assertEquals(
+    redactSecrets(`failed ${url} with a b&c`, ["a b&c"]),
+    "failed https://api.example.com/?key=[REDACTED] with [REDACTED]",
+  );
+  assertEquals(redactSecrets(undefined, ["x"]), undefined);
+});
@@ -0,0 +1,1741 @@
+// ===================================================================
+// 3. MAIN PROXY LOGIC
+// ===================================================================
+import {
+  REQUEST_ID_HEADER,
+  requestIdFrom,
+  writeAccessLog,
+} from "./access_log.ts";
+import {
+  type AuthenticatedClient,
+  type Authenticator,
+  clientMayReachHost,
+  createAuthenticator,
+  createKvKeyStore,
+  hashClientKey,
+  type KvKeyStore,
+} from "./auth.ts";
+import {
+  type BodyTooLargeError,
+  declaredTooLarge,
+  limitStream,
+  resolveBodyLimits,
+} from "./body_limits.ts";
+import { createCircuitBreaker } from "./circuit_breaker.ts";
+import {
+  type Cidr,
+  forwardedForChain,
+  parseCidr,
+  resolveClientIp,
+} from "./client_ip.ts";
+import {
+  applyValidators,
+  CACHE_STALE_RETENTION_MS,
+  type CachedResponse,
+  cachedToResponse,
+  type CacheStore,
+  createMemoryCacheStore,
+  DEFAULT_CACHE_MAX_ENTRY_BYTES,
+  freshness,
+  hasValidator,
+  isFresh,
+  isStorable,
+  readBody,
+  refreshEntry,
+  requestForbidsStorage,
+  requestRequiresRevalidation,
+  varyMatches,
+  varyValues,
+} from "./cache.ts";
+import { createKvCacheStore } from "./cache_kv.ts";
+import {
+  DEFAULT_ADMIN_PREFIX,
+  type HostConfig,
+  type MetricsConfig,
+  type ProxyConfig,
+  type TracingConfig,
+} from "./config.ts";
+import { rewritableContent, rewriteContentStream } from "./content_rewrite.ts";
+import { rewriteSetCookieHeaders, upstreamCookieHeader } from "./cookies.ts";
+import {
+  applyCorsHeaders,
+  compileCors,
+  type CompiledCors,
+  isPreflight,
+  preflightResponse,
+  stripCorsHeaders,
+} from "./cors.ts";
+import {
+  applyCredentialHeaders,
+  applyCredentialQuery,
+  redactSecrets,
+  resolveCredentials,
+  type ResolvedCredential,
+} from "./credentials.ts";
+import {
+  applyHeaderRules,
+  type CompiledHeaderRules,
+  compileHeaderRules,
+  stripHopByHop,
+} from "./header_policy.ts";
+import {
+  type CheckResult,
+  createReadinessProbe,
+  healthResponse,
+  type HealthStatus,
+  readyResponse,
+} from "./health.ts";
+import {
+  defaultPort,
+  type HostSpec,
+  IS_VALID_HOSTNAME,
+  parseHostSpec,
+  parseTarget,
+  patternToRegExp,
+  type Target,
+} from "./hosts.ts";
+import { rewriteLocations } from "./locations.ts";
+import { logEvent } from "./log.ts";
+import {
+  createProxyMetrics,
+  METRICS_CONTENT_TYPE,
+  observeStream,
+  type ProxyMetrics,
+  rejectionOutcome,
+  statusClass,
+} from "./metrics.ts";
+import {
+  type CompiledRoute,
+  compileRoutes,
+  evaluateRoutes,
+  normalizePath,
+} from "./routes.ts";
+import {
+  createRateLimiter,
+  mostRestrictive,
+  type RateLimitConfig,
+  type RateLimitDecision,
+  type RateLimiter,
+  rateLimitHeaders,
+} from "./rate_limit.ts";
+import { createKvRateLimiter } from "./rate_limit_kv.ts";
+import {
+  type AttemptResult,
+  replayableBody,
+  RETRY_BUFFER_BYTES,
+  retryDelay,
+  sleep,
+} from "./retry.ts";
+import {
+  checkTarget,
+  DEFAULT_MAX_REDIRECTS,
+  type HostResolver,
+  isRedirect,
+  redirectMethod,
+  resolveWithDns,
+  type TargetCheck,
+} from "./ssrf.ts";
+import { guardStream, headersDeadline, resolveTimeouts } from "./timeouts.ts";
+import {
+  createOtlpExporter,
+  injectTraceContext,
+  preciseNow,
+  type Span,
+  type SpanExporter,
+  startSpan,
+} from "./tracing.ts";
+import {
+  backendPath,
+  backendUrl,
+  createUpstreamPool,
+  type HealthChecker,
+  startHealthChecks,
+  type UpstreamPool,
+} from "./upstreams.ts";
+import {
+  bridgeWebSockets,
+  connectWebSocket,
+  isValidHandshake,
+  isWebSocketUpgrade,
+  offeredProtocols,
+  stripHandshakeHeaders,
+  whenOpen,
+} from "./websocket.ts";
+
+/**
+ * The subset of `Deno.ServeHandlerInfo` the proxy relies on. Accepting a
+ * `Pick` lets embedding apps and tests pass a hand-built value.
+ */
+export type ProxyHandlerInfo = Pick<Deno.ServeHandlerInfo, "remoteAddr">;
+
+/** A `Deno.serve`-compatible request handler with hot-reload support. */
+export interface ProxyHandler {
+  (request: Request, info: ProxyHandlerInfo): Promise<Response>;
+  /**
+   * Atomically swaps in a new config. Requests already in flight finish
+   * with the config they started with; rate-limit buckets are kept and
+   * adopt the new limits.
+   */
+  reload(config: ProxyConfig): void;
+  /** Number of configs loaded so far, starting at 1. */
+  readonly generation: number;
+  /**
+   * Closes Deno KV connections opened for the current config, and for
+   * replaced ones still serving requests, and sends any spans not yet
+   * exported.
+   */
+  close(): Promise<void>;
+}
+
+/** A host entry with its pattern, routes and credentials pre-built. */
+interface CompiledHost {
+  config: HostConfig;
+  spec: HostSpec;
+  regex: RegExp;
+  routes: CompiledRoute[];
+  credentials: ResolvedCredential[];
+  cors?: CompiledCors;
+  headerRules: CompiledHeaderRules;
+  /** For upstream aliases: the backends requests go to. */
+  pool?: UpstreamPool;
+}
+
+/** Everything derived from one {@link ProxyConfig}, swapped as a unit. */
+interface CompiledConfig {
+  config: ProxyConfig;
+  hosts: CompiledHost[];
+  /** Upstream aliases by lower-case name. */
+  upstreams: Map<string, CompiledHost>;
+  pools: UpstreamPool[];
+  healthChecks: HealthChecker;
+  limiter: RateLimiter;
+  cache?: CacheStore;
+  auth?: Authenticator;
+  kvKeyStore?: KvKeyStore;
+  trustedProxies: Cidr[];
+  upstreamFetch: typeof fetch;
+  resolveHost: HostResolver;
+  readiness: () => Promise<CheckResult[]>;
+  exporter?: SpanExporter;
+}
+
+/** Per-request state shared by the layers, the span and the access log. */
+interface RequestContext {
+  requestId: string;
+  span?: Span;
+  /** Set once the client has been identified. */
+  clientIp?: string;
+  clientId?: string;
+  /** Milliseconds spent waiting for upstream response headers. */
+  upstreamMs?: number;
+  /** Request body bytes (or WebSocket frame bytes) forwarded upstream. */
+  bytesIn: number;
+  /** Response body bytes (or WebSocket frame bytes) sent to the client. */
+  bytesOut: number;
+  /** For bridged WebSockets: settles once both sockets have closed. */
+  closed?: Promise<void>;
+  /** Work that outlives the response, such as a cache write. */
+  background?: Promise<unknown>;
+}
+
+// Upstream answers that count against its circuit, like network errors.
+const upstreamFailureStatuses = [502, 503, 504];
+
+/**
+ * Derives a stable client identifier from the connection's remote address.
+ * Behind reverse proxies, see `resolveClientIp` for the original client.
+ */
+export function clientIpFromInfo(info: ProxyHandlerInfo): string {
+  if (info.remoteAddr.transport === "tcp") {
+    return info.remoteAddr.hostname;
+  } else if (info.remoteAddr.transport === "unix") {
+    return `unix:${info.remoteAddr.path}`;
+  }
+  return "unknown";
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** The tracing settings an exporter is built from. */
+function exporterSettings(tracing?: TracingConfig) {
+  return tracing?.endpoint
+    ? {
+      endpoint: tracing.endpoint,
+      headers: tracing.headers,
+      serviceName: tracing.serviceName,
+    }
+    : undefined;
+}
+
+/**
+ * Pre-compiles `config`, reusing the rate limiter, response cache and Deno
+ * KV connections from `previous` when their store settings are unchanged,
+ * so a reload keeps rate-limit state and cached responses.
+ */
+function compileConfig(
+  config: ProxyConfig,
+  previous?: CompiledConfig,
+): CompiledConfig {
+  const compileHost = (
+    host: HostConfig,
+    pool?: UpstreamPool,
+  ): CompiledHost => {
+    const spec = parseHostSpec(host.host);
+    if (spec.protocol === "http:" && !host.allowHttp) {
+      throw new Error(
+        `Host entry "${host.host}" uses http:// without allowHttp`,
+      );
+    }
+    return {
+      config: host,
+      spec,
+      regex: patternToRegExp(spec.pattern),
+      routes: compileRoutes(host.routes ?? []),
+      credentials: resolveCredentials(host.credentials ?? []),
+      cors: host.cors && compileCors(host.cors),
+      headerRules: compileHeaderRules(config, host),
+      pool,
+    };
+  };
+  const hosts = config.hosts.map((host) => compileHost(host));
+  const upstreamFetch = config.fetch ?? fetch;
+
+  // Pools are kept while their settings are unchanged, so a reload keeps
+  // the round-robin position and what the health checks found.
+  const samePools = previous !== undefined &&
+    previous.upstreamFetch === upstreamFetch &&
+    sameJson(previous.config.upstreams, config.upstreams);
+  const pools = samePools
+    ? previous.pools
+    : (config.upstreams ?? []).map(createUpstreamPool);
+  const upstreams = new Map(
+    (config.upstreams ?? []).map((upstream, i) => [
+      upstream.name.toLowerCase(),
+      compileHost({ ...upstream, host: upstream.name }, pools[i]),
+    ]),
+  );
+  const trustedProxies = (config.trustedProxies ?? []).map(parseCidr);
+
+  // Everything that can throw has run by now: stores and health checks
+  // are only created for a config that compiled, so a failed reload leaves
+  // nothing running.
+  const store = config.rateLimitStore ?? { type: "memory" };
+  const limiter = previous &&
+      sameJson(previous.config.rateLimitStore ?? { type: "memory" }, store)
+    ? previous.limiter
+    : store.type === "kv"
+    ? createKvRateLimiter(store)
+    : createRateLimiter();
+
+  const cacheStore = config.cache?.store ?? { type: "memory" };
+  const cache = !config.cache ? undefined : previous?.cache &&
+      sameJson(previous.config.cache?.store ?? { type: "memory" }, cacheStore)
+    ? previous.cache
+    : cacheStore.type === "kv"
+    ? createKvCacheStore(cacheStore)
+    : createMemoryCacheStore({ maxBytes: cacheStore.maxBytes });
+
+  const kvConfig = config.auth?.kv;
+  const kvKeyStore = kvConfig
+    ? previous?.kvKeyStore && sameJson(previous.config.auth?.kv, kvConfig)
+      ? previous.kvKeyStore
+      : createKvKeyStore(kvConfig)
+    : undefined;
+  const auth = config.auth
+    ? createAuthenticator(config.auth, kvKeyStore ? [kvKeyStore] : [])
+    : undefined;
+
+  const exporterConfig = exporterSettings(config.tracing);
+  const exporter = !exporterConfig ? undefined : previous?.exporter &&
+      sameJson(exporterSettings(previous.config.tracing), exporterConfig)
+    ? previous.exporter
+    : createOtlpExporter(exporterConfig);
+
+  const healthChecks = samePools
+    ? previous.healthChecks
+    : startHealthChecks(pools, upstreamFetch);
+
+  return {
+    config,
+    hosts,
+    upstreams,
+    pools,
+    healthChecks,
+    limiter,
+    cache,
+    auth,
+    kvKeyStore,
+    trustedProxies,
+    upstreamFetch,
+    resolveHost: config.resolveHost ?? resolveWithDns,
+    readiness: createReadinessProbe(
+      config.readinessChecks ?? [],
+      upstreamFetch,
+    ),
+    exporter,
+  };
+}
+
+/** The target host named by the first segment of `pathname`. */
+function targetHostOf(pathname: string): string | undefined {
+  return pathname.split("/").find((segment) => segment);
+}
+
+/**
+ * The upstream alias named by `target`, or else the first whitelist entry
+ * matching it. A target without a port matches entries on any port.
+ */
+function findHost(
+  compiled: CompiledConfig,
+  target: Target,
+): CompiledHost | undefined {
+  const alias = target.port === undefined
+    ? compiled.upstreams.get(target.hostname.toLowerCase())
+    : undefined;
+  return alias ??
+    compiled.hosts.find(({ spec, regex }) =>
+      regex.test(target.hostname) &&
+      (target.port === undefined || target.port === spec.port)
+    );
+}
+
+/** The whitelist entry allowing requests to `url`, scheme and port included. */
+function hostForUrl(
+  hosts: CompiledHost[],
+  url: URL,
+): CompiledHost | undefined {
+  if (!IS_VALID_HOSTNAME.test(url.hostname)) return undefined;
+  const port = Number(url.port) || defaultPort(url.protocol);
+  return hosts.find(({ spec, regex }) =>
+    spec.protocol === url.protocol && spec.port === port &&
+    regex.test(url.hostname)
+  );
+}
+
+/**
+ * The proxy path reaching `url`: below the name of `host` when it is on one
+ * of its backends, otherwise below the whitelisted host it is on. Query
+ * credentials are dropped, as the proxy adds them again.
+ */
+function proxyPathFor(
+  hosts: CompiledHost[],
+  host: CompiledHost,
+  url: URL,
+): string | undefined {
+  const rest = host.pool && backendPath(host.pool, url);
+  const entry = rest ? host : hostForUrl(hosts, url);
+  if (!entry) return undefined;
+  const segment = rest ? host.config.host : url.host;
+  const target = new URL(url);
+  for (const { query } of entry.credentials) {
+    if (query && target.searchParams.has(query)) {
+      target.searchParams.delete(query);
+    }
+  }
+  return `/${segment}${rest ?? url.pathname}${target.search}${url.hash}`;
+}
+
+/** The host entry for the target named by `pathname`, if any. */
+function hostForPath(
+  compiled: CompiledConfig,
+  pathname: string,
+): CompiledHost | undefined {
+  const segment = targetHostOf(pathname);
+  const target = segment && parseTarget(segment);
+  return target ? findHost(compiled, target) : undefined;
+}
+
+/** The global limit applying to `clientId`, honoring per-client overrides. */
+function clientRateLimit(
+  config: ProxyConfig,
+  clientId: string,
+  client?: AuthenticatedClient,
+): RateLimitConfig {
+  return client?.key.rateLimit ?? config.clientRateLimits?.[clientId] ??
+    config.rateLimit;
+}
+
+function tooManyRequests(decision: RateLimitDecision): Response {
+  return new Response("Too Many Requests", {
+    status: 429,
+    headers: rateLimitHeaders(decision),
+  });
+}
+
+function payloadTooLarge(limitBytes: number): Response {
+  return new Response(
+    `Payload Too Large: The request body exceeds ${limitBytes} bytes.`,
+    { status: 413 },
+  );
+}
+
+/** Serves the metrics path, checking the scrape token. */
+async function metricsResponse(
+  request: Request,
+  config: MetricsConfig,
+  metrics: ProxyMetrics,
+): Promise<Response> {
+  if (config.token !== undefined) {
+    // Hashing both sides keeps the comparison's timing independent of how
+    // much of the token was guessed right.
+    const given = request.headers.get("authorization")
+      ?.match(/^Bearer\s+(.+)$/i)?.[1] ?? "";
+    const [a, b] = await Promise.all(
+      [given, config.token].map((token) => hashClientKey(token)),
+    );
+    if (a !== b) {
+      return new Response("Unauthorized", {
+        status: 401,
+        headers: { "www-authenticate": 'Bearer realm="deno-proxy metrics"' },
+      });
+    }
+  }
+  return new Response(
+    request.method === "HEAD" ? null : metrics.registry.render(),
+    { headers: { "content-type": METRICS_CONTENT_TYPE } },
+  );
+}
+
+/**
+ * Answers the proxy's own endpoints: health, readiness and metrics. Returns
+ * `undefined` for paths that are to be proxied. These endpoints are not
+ * authenticated, rate limited or counted in the metrics.
+ */
+function adminResponse(
+  request: Request,
+  pathname: string,
+  compiled: CompiledConfig,
+  metrics: ProxyMetrics,
+  health: HealthStatus,
+): Promise<Response> | Response | undefined {
+  const { config } = compiled;
+  const prefix = config.adminPrefix ?? DEFAULT_ADMIN_PREFIX;
+  const metricsPath = config.metrics?.path ?? `${prefix}/metrics`;
+  const isMetrics = config.metrics !== undefined && pathname === metricsPath;
+  if (!isMetrics && !pathname.startsWith(`${prefix}/`)) return undefined;
+
+  if (request.method !== "GET" && request.method !== "HEAD") {
+    return new Response("Method Not Allowed", {
+      status: 405,
+      headers: { allow: "GET, HEAD" },
+    });
+  }
+  if (isMetrics) return metricsResponse(request, config.metrics!, metrics);
+  if (pathname === `${prefix}/health`) return healthResponse(request, health);
+  if (pathname === `${prefix}/ready`) {
+    return readyResponse(request, health, compiled.readiness);
+  }
+  return new Response("Not Found", { status: 404 });
+}
+
+/**
+ * Closes the stores, health checks and exporters of `retired` configs that
+ * none of the `live` ones still uses.
+ */
+async function closeResources(
+  retired: CompiledConfig[],
+  live: CompiledConfig[],
+): Promise<void> {
+  const unused = <T>(pick: (compiled: CompiledConfig) => T) => {
+    const kept = new Set(live.map(pick));
+    return [...new Set(retired.map(pick))].filter((item) =>
+      item !== undefined && !kept.has(item)
+    ) as NonNullable<T>[];
+  };
+  unused((c) => c.limiter).forEach((limiter) => limiter.close());
+  unused((c) => c.cache).forEach((cache) => cache.close());
+  unused((c) => c.kvKeyStore).forEach((store) => store.close());
+  await Promise.all([
+    ...unused((c) => c.healthChecks).map((checks) => checks.close()),
+    ...unused((c) => c.exporter).map((exporter) => exporter.close()),
+  ]);
+}
+
+/**
+ * Creates a proxy request handler bound to `config`.
+ *
+ * Each handler owns its own compiled whitelist and rate-limit state, so
+ * several differently-configured instances can live in one process. The
+ * result can be passed straight to `Deno.serve` or called from another
+ * app's router.
+ */
+export function createProxyHandler(config: ProxyConfig): ProxyHandler {
+  // --- Security pre-compilation & state ---
+  let current = compileConfig(config);
+  let generation = 1;
+  // Configs that are current or still serving requests, with how many
+  // users each has. Replaced stores are closed once no such config uses
+  // them, so a reload never pulls them from under requests in progress.
+  const users = new Map<CompiledConfig, number>([[current, 1]]);
+  const acquire = (compiled: CompiledConfig) => {
+    users.set(compiled, (users.get(compiled) ?? 0) + 1);
+  };
+  const release = (compiled: CompiledConfig) => {
+    if (!users.has(compiled)) return;
+    const left = users.get(compiled)! - 1;
+    if (left > 0) {
+      users.set(compiled, left);
+      return;
+    }
+    users.delete(compiled);
+    void closeResources([compiled], [...users.keys()]);
+  };
+  const startedAt = performance.now();
+  // Metrics outlive reloads, so counters keep growing across configs.
+  const metrics = createProxyMetrics(() => ({
+    rateLimiterBuckets: current.limiter.size,
+    cacheBytes: current.cache?.size,
+    backends: current.pools.flatMap(({ config, backends }) =>
+      backends.map(({ url, healthy }) => ({
+        upstream: config.name,
+        backend: url.toString(),
+        healthy,
+      }))
+    ),
+  }));
+  // Responses whose `outcome` label is not named after their status:
+  // answers from the upstream or the cache, and open circuits.
+  const outcomes = new WeakMap<Response, string>();
+  // Circuits also outlive reloads: an upstream stays down across configs.
+  const breaker = createCircuitBreaker();
+
+  const handle = async (
+    request: Request,
+    info: ProxyHandlerInfo,
+    compiled: CompiledConfig,
+    cors: CompiledCors | undefined,
+    context: RequestContext,
+  ): Promise<Response> => {
+    const {
+      config,
+      hosts,
+      limiter,
+      cache,
+      auth,
+      trustedProxies,
+      upstreamFetch,
+      resolveHost,
+    } = compiled;
+    const url = new URL(request.url);
+    const peerIp = clientIpFromInfo(info);
+    const clientIp = resolveClientIp(peerIp, request.headers, trustedProxies);
+    const { requestId } = context;
+    context.clientIp = clientIp;
+
+    // A limiter that cannot be consulted fails closed.
+    const consume = async (key: string, limit: RateLimitConfig) => {
+      try {
+        return await limiter.consume(key, limit);
+      } catch (error) {
+        logEvent("ERROR", "Rate limiter unavailable", {
+          requestId,
+          clientIp,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return undefined;
+      }
+    };
+    const limiterUnavailable = () =>
+      new Response("Service Unavailable: Rate limiter unavailable.", {
+        status: 503,
+      });
+
+    // --- Layer 0a: CORS Preflight ---
+    // Browsers never send credentials on a preflight, so it is answered
+    // before authentication; it is still rate limited by client IP.
+    if (cors && isPreflight(request)) {
+      const decision = await consume(
+        clientIp,
+        clientRateLimit(config, clientIp),
+      );
+      if (!decision) return limiterUnavailable();
+      if (!decision.allowed) return tooManyRequests(decision);
+      const response = preflightResponse(cors, request);
+      if (response.ok) outcomes.set(response, "preflight");
+      return response;
+    }
+
+    // --- Layer 0b: Client Authentication ---
+    let client: AuthenticatedClient | undefined;
+    let keyHeaders: string[] = [];
+    let authFailure: "missing" | "invalid" | undefined;
+    if (auth) {
+      try {
+        const result = await auth.authenticate(request);
+        if (result.ok) {
+          client = result.client;
+          keyHeaders = result.keyHeaders;
+        } else {
+          authFailure = result.reason;
+        }
+      } catch (error) {
+        logEvent("ERROR", "Client key lookup failed", {
+          requestId,
+          clientIp,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return new Response(
+          "Service Unavailable: Could not verify the client key.",
+          { status: 503 },
+        );
+      }
+    }
+    // Authenticated clients are limited and logged by key id, everyone
+    // else (including failed attempts) by IP.
+    const clientId = client ? `key:${client.key.id}` : clientIp;
+    context.clientId = clientId;
+
+    // --- Layer 1: Rate Limiting ---
+    const globalDecision = await consume(
+      clientId,
+      clientRateLimit(config, clientId, client),
+    );
+    if (!globalDecision) return limiterUnavailable();
+    if (!globalDecision.allowed) {
+      logEvent("WARN", "Rate limit exceeded", {
+        requestId,
+        clientIp,
+        clientId,
+      });
+      return tooManyRequests(globalDecision);
+    }
+    const rateLimits = [globalDecision];
+    if (authFailure) {
+      logEvent("WARN", "Client authentication failed", {
+        requestId,
+        clientIp,
+        reason: authFailure,
+        userAgent: request.headers.get("user-agent"),
+      });
+      return new Response(
+        authFailure === "missing"
+          ? "Unauthorized: A proxy client key is required."
+          : "Unauthorized: Invalid proxy client key.",
+        {
+          status: 401,
+          headers: { "www-authenticate": 'Bearer realm="deno-proxy"' },
+        },
+      );
+    }
+
+    // --- Layer 2: Path Parsing and Host Extraction ---
+    const pathSegments = url.pathname.split("/").filter((segment) => segment);
+    if (pathSegments.length < 1) {
+      return new Response(
+        "Bad Request: The first path segment must be the target host.",
+        { status: 400 },
+      );
+    }
+    const targetHost = pathSegments.shift()!;
+
+    // --- Layer 3: Hostname Validation (Prevent Path Traversal) ---
+    const target = parseTarget(targetHost);
+    if (!target) {
+      logEvent("WARN", "Invalid hostname format detected", {
+        requestId,
+        clientIp,
+        clientId,
+        targetHost,
+        userAgent: request.headers.get("user-agent"),
+      });
+      return new Response("Bad Request: Invalid host format provided.", {
+        status: 400,
+      });
+    }
+
+    // --- Layer 4: Whitelist Enforcement ---
+    const host = findHost(compiled, target);
+    if (!host) {
+      logEvent("WARN", "Forbidden proxy attempt to non-whitelisted host", {
+        requestId,
+        clientIp,
+        clientId,
+        targetHost,
+        userAgent: request.headers.get("user-agent"),
+      });
+      return new Response(
+        `Forbidden: Host '${targetHost}' is not in the allowed list.`,
+        { status: 403 },
+      );
+    }
+
+    // --- Layer 4b: Per-Host Method, Route & Rate Limits ---
+    const { methods } = host.config;
+    if (methods && !methods.includes(request.method)) {
+      logEvent("WARN", "Method not allowed for host", {
+        requestId,
+        clientIp,
+        clientId,
+        targetHost,
+        method: request.method,
+      });
+      return new Response(
+        `Method Not Allowed: ${request.method} is not allowed for host '${targetHost}'.`,
+        { status: 405, headers: { allow: methods.join(", ") } },
+      );
+    }
+    if (client && !clientMayReachHost(client, target.hostname)) {
+      logEvent("WARN", "Client key not scoped to host", {
+        requestId,
+        clientIp,
+        clientId,
+        targetHost,
+      });
+      return new Response(
+        `Forbidden: Client key '${client.key.id}' may not access host '${targetHost}'.`,
+        { status: 403 },
+      );
+    }
+    const upstreamPath = normalizePath(pathSegments);
+    if (upstreamPath === undefined) {
+      logEvent("WARN", "Ambiguous request path rejected", {
+        requestId,
+        clientIp,
+        clientId,
+        targetHost,
+        path: url.pathname,
+      });
+      return new Response(
+        "Bad Request: Encoded slashes and dot-segments are not allowed in the path.",
+        { status: 400 },
+      );
+    }
+    let route = evaluateRoutes(host.routes, request.method, upstreamPath);
+    if (route.allowed && client) {
+      route = evaluateRoutes(client.routes, request.method, upstreamPath);
+      if (!route.allowed) {
+        route.rule = `client key '${client.key.id}' ${route.rule}`;
+      }
+    }
+    if (!route.allowed) {
+      logEvent("WARN", "Request rejected by route rule", {
+        requestId,
+        clientIp,
+        clientId,
+        targetHost,
+        method: request.method,
+        path: upstreamPath,
+        rule: route.rule,
+      });
+      if (route.status === 405) {
+        return new Response(
+          `Method Not Allowed: ${request.method} ${upstreamPath} on host '${targetHost}' is limited by rule '${route.rule}'.`,
+          { status: 405, headers: { allow: route.allow.join(", ") } },
+        );
+      }
+      return new Response(
+        `Forbidden: ${request.method} ${upstreamPath} on host '${targetHost}' is rejected by rule '${route.rule}'.`,
+        { status: 403 },
+      );
+    }
+    if (host.config.rateLimit) {
+      const decision = await consume(
+        `host:${host.config.host}|${clientId}`,
+        host.config.rateLimit,
+      );
+      if (!decision) return limiterUnavailable();
+      rateLimits.push(decision);
+      if (!decision.allowed) {
+        logEvent("WARN", "Host rate limit exceeded", {
+          requestId,
+          clientIp,
+          clientId,
+          targetHost,
+          hostPattern: host.config.host,
+        });
+        return tooManyRequests(decision);
+      }
+    }
+
+    // --- Layer 4c: Body Size Limits ---
+    // Bodies without a Content-Length are counted while they stream.
+    const limits = resolveBodyLimits(config, host.config);
+    if (declaredTooLarge(request.headers, limits.requestBytes)) {
+      logEvent("WARN", "Request body too large", {
+        requestId,
+        clientIp,
+        clientId,
+        targetHost,
+        contentLength: Number(request.headers.get("content-length")),
+        limitBytes: limits.requestBytes,
+      });
+      return payloadTooLarge(limits.requestBytes!);
+    }
+
+    // --- Layer 5: Header Sanitization & Forwarding Information ---
+    const fwdHeaders = new Headers(request.headers);
+    stripHopByHop(fwdHeaders);
+    keyHeaders.forEach((h) => fwdHeaders.delete(h));
+    // Checked before credentials are injected: only the client's own
+    // credentials make a response unfit for sharing.
+    const clientAuthorized = fwdHeaders.has("authorization");
+
+    // Hops a trusted proxy recorded in Forwarded are carried over into
+    // X-Forwarded-For, so only the X-Forwarded-* family is sent upstream.
+    fwdHeaders.delete("forwarded");
+    const forwardedFor = config.forwardedFor === "strip"
+      ? []
+      : forwardedForChain(peerIp, request.headers, trustedProxies);
+    if (forwardedFor.length) {
+      fwdHeaders.set("x-forwarded-for", forwardedFor.join(", "));
+    } else {
+      fwdHeaders.delete("x-forwarded-for");
+    }
+    fwdHeaders.set("x-forwarded-host", url.host);
+    fwdHeaders.set("x-forwarded-proto", url.protocol.slice(0, -1));
+    fwdHeaders.set(REQUEST_ID_HEADER, requestId);
+    if (context.span) injectTraceContext(fwdHeaders, context.span);
+    if (host.config.cookies === "rewrite") {
+      const cookie = upstreamCookieHeader(fwdHeaders.get("cookie"));
+      if (cookie) fwdHeaders.set("cookie", cookie);
+      else fwdHeaders.delete("cookie");
+    }
+    const templateValues = { clientId, clientIp, requestId, targetHost };
+    applyHeaderRules(fwdHeaders, host.headerRules.request, templateValues);
+    applyCredentialHeaders(fwdHeaders, host.credentials);
+
+    // Aliases pick a base URL per attempt; a literal host is its own, with
+    // the entry's scheme and, unless the client named one, its port.
+    const literalBase = new URL(
+      `${host.spec.protocol}//${target.hostname}:${
+        target.port ?? host.spec.port
+      }`,
+    );
+    const upstreamUrl = (base: URL) => {
+      const target = backendUrl(base, upstreamPath);
+      target.search = url.search;
+      applyCredentialQuery(target, host.credentials);
+      return target;
+    };
+
+    const timeouts = resolveTimeouts(config, host.config);
+    const headersTimeout = headersDeadline(timeouts);
+    // Upstream errors can quote the request URL, so scrub injected secrets.
+    const secrets = host.credentials.map((c) => c.secret);
+    const errorFields = (error: unknown) => ({
+      requestId,
+      clientIp,
+      clientId,
+      targetHost,
+      error: redactSecrets(
+        error instanceof Error ? error.message : String(error),
+        secrets,
+      ),
+      stack: redactSecrets(
+        error instanceof Error ? error.stack : undefined,
+        secrets,
+      ),
+      denoVersion: Deno.version.deno,
+    });
+
+    // --- Layer 5a: WebSocket Upgrade ---
+    // The upstream socket is opened first, so the client is only upgraded
+    // once the upstream accepted, and learns about failures as a status.
+    if (isWebSocketUpgrade(request)) {
+      if (!isValidHandshake(request)) {
+        return new Response("Bad Request: Invalid WebSocket handshake.", {
+          status: 400,
+        });
+      }
+      const targetUrl = upstreamUrl(host.pool?.pick() ?? literalBase);
+      if (!host.config.allowInternalAddresses) {
+        let check: TargetCheck;
+        try {
+          check = await checkTarget(targetUrl.hostname, resolveHost);
+        } catch (error) {
+          // Answered like a failed lookup on the HTTP path, so the 502 is
+          // counted as `bad_gateway` instead of escaping the handler.
+          logEvent(
+            "ERROR",
+            "Error resolving WebSocket target",
+            errorFields(error),
+          );
+          return new Response(
+            `Bad Gateway: Could not reach target host '${targetHost}'.`,
+            { status: 502 },
+          );
+        }
+        if (!check.ok) {
+          logEvent("WARN", "Blocked request to internal address", {
+            requestId,
+            clientIp,
+            clientId,
+            targetHost: targetUrl.hostname,
+            hop: 0,
+            reason: check.reason,
+          });
+          return new Response(
+            `Forbidden: Host '${targetHost}' is not publicly routable.`,
+            { status: 403 },
+          );
+        }
+      }
+      targetUrl.protocol = targetUrl.protocol === "http:" ? "ws:" : "wss:";
+      stripHandshakeHeaders(fwdHeaders);
+      fwdHeaders.delete("host");
+
+      const connect = config.connectWebSocket ?? connectWebSocket;
+      const sentAt = performance.now();
+      let upstream: WebSocket | undefined;
+      try {
+        upstream = connect(targetUrl.toString(), {
+          protocols: offeredProtocols(request.headers),
+          headers: fwdHeaders,
+        });
+        await whenOpen(upstream, headersTimeout.ms);
+      } catch (error) {
+        if (error instanceof Error && error.name === "TimeoutError") {
+          const message =
+            `Gateway Timeout: WebSocket handshake with '${targetHost}' exceeded ${headersTimeout.ms}ms.`;
+          logEvent("ERROR", message, {
+            ...errorFields(error),
+            phase: headersTimeout.phase,
+          });
+          return new Response(message, { status: 504 });
+        }
+        logEvent(
+          "ERROR",
+          "Error opening upstream WebSocket",
+          errorFields(error),
+        );
+        return new Response(
+          `Bad Gateway: Could not open a WebSocket to '${targetHost}'.`,
+          { status: 502 },
+        );
+      }
+      context.upstreamMs = performance.now() - sentAt;
+      metrics.upstreamDuration.observe(
+        { host: host.config.host },
+        context.upstreamMs / 1000,
+      );
+
+      let client: WebSocket;
+      let response: Response;
+      try {
+        ({ socket: client, response } = Deno.upgradeWebSocket(request, {
+          protocol: upstream.protocol || undefined,
+        }));
+      } catch (error) {
+        upstream.close();
+        logEvent("WARN", "WebSocket upgrade failed", errorFields(error));
+        return new Response("Bad Request: Invalid WebSocket handshake.", {
+          status: 400,
+        });
+      }
+      context.closed = bridgeWebSockets(client, upstream, {
+        idleTimeoutMs: timeouts.idleMs,
+        totalTimeoutMs: timeouts.totalMs,
+        onFrame(direction, bytes) {
+          const labels = { host: host.config.host };
+          if (direction === "upstream") {
+            context.bytesIn += bytes;
+            metrics.requestBytes.inc(labels, bytes);
+          } else {
+            context.bytesOut += bytes;
+            metrics.responseBytes.inc(labels, bytes);
+          }
+        },
+        onTimeout(phase, timeoutMs) {
+          if (context.span) {
+            context.span.error = true;
+            context.span.attributes["proxy.timeout"] = phase;
+          }
+          logEvent("WARN", "WebSocket timed out", {
+            requestId,
+            clientIp,
+            clientId,
+            targetHost,
+            phase,
+            timeoutMs,
+            bytesIn: context.bytesIn,
+            bytesOut: context.bytesOut,
+          });
+        },
+      });
+      applyHeaderRules(
+        response.headers,
+        host.headerRules.response,
+        templateValues,
+      );
+      for (
+        const [name, value] of Object.entries(
+          rateLimitHeaders(mostRestrictive(rateLimits)),
+        )
+      ) {
+        response.headers.set(name, value);
+      }
+      outcomes.set(response, "websocket");
+      return response;
+    }
+
+    // Where the response came from, for resolving relative locations; a
+    // cached response is taken to come from the first backend.
+    let responseUrl = upstreamUrl(host.pool?.backends[0].url ?? literalBase);
+    const offsiteLocations = host.config.offsiteLocations ??
+      config.offsiteLocations ?? "pass";
+
+    // Applies the response-side policy to an upstream or cached response.
+    const respond = (upstream: Response, cacheStatus?: string) => {
+      const sanitizedHeaders = new Headers(upstream.headers);
+      const offsite = rewriteLocations(
+        sanitizedHeaders,
+        responseUrl,
+        (location) => proxyPathFor(hosts, host, location),
+        offsiteLocations,
+      );
+      if (offsite !== undefined) {
+        void upstream.body?.cancel();
+        logEvent("WARN", "Blocked redirect to non-whitelisted location", {
+          requestId,
+          clientIp,
+          clientId,
+          targetHost,
+          location: redactSecrets(
+            offsite,
+            host.credentials.map((c) => c.secret),
+          ),
+        });
+        return new Response(
+          `Bad Gateway: '${targetHost}' redirected to a location outside the allowed list.`,
+          { status: 502 },
+        );
+      }
+      stripHopByHop(sanitizedHeaders);
+      if (host.cors) stripCorsHeaders(sanitizedHeaders);
+      if (host.config.cookies === "rewrite") {
+        rewriteSetCookieHeaders(
+          sanitizedHeaders,
+          url.hostname,
+          `/${targetHost.toLowerCase()}`,
+        );
+      }
+      if (cacheStatus) sanitizedHeaders.set("x-cache", cacheStatus);
+      applyHeaderRules(
+        sanitizedHeaders,
+        host.headerRules.response,
+        templateValues,
+      );
+      for (
+        const [name, value] of Object.entries(
+          rateLimitHeaders(mostRestrictive(rateLimits)),
+        )
+      ) {
+        sanitizedHeaders.set(name, value);
+      }
+
+      // Partial content cannot be rewritten without the rest of the body.
+      let body: ReadableStream<Uint8Array> | null = upstream.body;
+      const content = host.config.rewriteContent && body &&
+          upstream.status !== 206
+        ? rewritableContent(upstream.headers)
+        : undefined;
+      if (body && content) {
+        body = rewriteContentStream(
+          body,
+          content,
+          responseUrl,
+          (location) => proxyPathFor(hosts, host, location),
+        );
+        sanitizedHeaders.delete("content-length");
+      }
+
+      const response = new Response(body, {
+        status: upstream.status,
+        statusText: upstream.statusText,
+        headers: sanitizedHeaders,
+      });
+      outcomes.set(response, cacheStatus === "HIT" ? "cache_hit" : "proxied");
+      return response;
+    };
+
+    // --- Layer 5b: Response Cache ---
+    // A cache that cannot be reached is skipped: it only saves upstream work.
+    const cacheFailed = (error: unknown) =>
+      logEvent("WARN", "Response cache unavailable", {
+        requestId,
+        clientIp,
+        targetHost,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    const cacheTtlMs = host.config.cache?.ttl !== undefined
+      ? host.config.cache.ttl * 1000
+      : undefined;
+    const useCache = cache !== undefined &&
+      host.config.cache?.enabled !== false &&
+      request.method === "GET" &&
+      !requestForbidsStorage(request.headers);
+    // Built before credential query parameters are added, keeping secrets
+    // out of cache keys.
+    const cacheKey = `${targetHost.toLowerCase()}${upstreamPath}${url.search}`;
+    let cached: CachedResponse | undefined;
+    if (useCache) {
+      try {
+        cached = await cache.get(cacheKey);
+      } catch (error) {
+        cacheFailed(error);
+      }
+      if (cached && !varyMatches(cached, request.headers)) cached = undefined;
+      if (
+        cached && !requestRequiresRevalidation(request.headers) &&
+        isFresh(cached, Date.now(), cacheTtlMs)
+      ) {
+        return respond(cachedToResponse(cached, Date.now()), "HIT");
+      }
+      if (cached && hasValidator(cached)) {
+        applyValidators(fwdHeaders, cached);
+      } else {
+        cached = undefined;
+      }
+    }
+    const store = (entry: CachedResponse) => {
+      const { lifetimeMs } = freshness(entry, Date.now(), cacheTtlMs);
+      return cache?.set(cacheKey, entry, lifetimeMs + CACHE_STALE_RETENTION_MS)
+        .catch(cacheFailed);
+    };
+
+    // --- Layer 6: Request Timeouts ---
+    // The header timeout ends once the response starts; its body is then
+    // guarded by the idle and total timeouts.
+    const exchangeStart = performance.now();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(
+      () => controller.abort(),
+      headersTimeout.ms,
+    );
+
+    // --- Layer 7: Safe Fetching ---
+    let requestTooLarge: BodyTooLargeError | undefined;
+    try {
+      // Each attempt on an alias goes to a backend not tried yet, when one
+      // is healthy and its circuit is not open.
+      const tried = new Set<string>();
+      const pickTarget = () => {
+        const base = host.pool?.pick(
+          tried,
+          (url) => breaker.state(url.host.toLowerCase()) !== "open",
+        ) ?? literalBase;
+        tried.add(base.href);
+        return upstreamUrl(base);
+      };
+      let targetUrl = pickTarget();
+
+      // Redirects are followed by hand so that every hop is re-checked
+      // against the whitelist and the internal-address policy.
+      const maxRedirects = config.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+      const requestTime = Date.now();
+      let redirected = false;
+      let upstreamResponse: Response;
+      try {
+        let hopUrl = targetUrl;
+        let hopHost = host;
+        let method = request.method;
+        // Bodies are only kept in memory for resending when retries are on.
+        const requestBody = request.body && limits.requestBytes !== undefined
+          ? limitStream(
+            request.body,
+            "request",
+            limits.requestBytes,
+            (error) => requestTooLarge = error,
+          )
+          : request.body;
+        let body = requestBody && replayableBody(
+          observeStream(
+            requestBody,
+            (bytes) => {
+              context.bytesIn += bytes;
+              metrics.requestBytes.inc({ host: host.config.host }, bytes);
+            },
+            () => {},
+          ),
+          host.config.retry ?? config.retry ? RETRY_BUFFER_BYTES : 0,
+        );
+        let withCredentials = true;
+        for (let hop = 0;; hop++) {
+          // --- Layer 7a: Circuit Breaker & Retries ---
+          const retry = hopHost.config.retry ?? config.retry;
+          const breakerConfig = hopHost.config.circuitBreaker ??
+            config.circuitBreaker;
+          for (let attempt = 0;; attempt++) {
+            if (attempt > 0 && hop === 0 && host.pool) {
+              targetUrl = hopUrl = pickTarget();
+            }
+            if (!hopHost.config.allowInternalAddresses) {
+              const check = await checkTarget(hopUrl.hostname, resolveHost);
+              if (!check.ok) {
+                logEvent("WARN", "Blocked request to internal address", {
+                  requestId,
+                  clientIp,
+                  clientId,
+                  targetHost: hopUrl.hostname,
+                  hop,
+                  reason: check.reason,
+                });
+                return hop === 0
+                  ? new Response(
+                    `Forbidden: Host '${targetHost}' is not publicly routable.`,
+                    { status: 403 },
+                  )
+                  : new Response(
+                    `Bad Gateway: '${targetHost}' redirected to a host that is not publicly routable.`,
+                    { status: 502 },
+                  );
+              }
+            }
+
+            // Circuits are per backend, so ports on one host fail apart.
+            const circuit = hopUrl.host.toLowerCase();
+            const report = (ok: boolean) => {
+              if (!breakerConfig) return;
+              if (ok) {
+                breaker.success(circuit);
+              } else if (breaker.failure(circuit, breakerConfig)) {
+                logEvent("WARN", "Circuit opened for failing upstream", {
+                  requestId,
+                  targetHost: circuit,
+                  resetMs: breakerConfig.resetMs,
+                });
+              }
+            };
+            const gate = breakerConfig && breaker.allow(circuit, breakerConfig);
+            if (gate && !gate.allowed) {
+              const response = new Response(
+                `Service Unavailable: '${circuit}' is failing; requests are paused.`,
+                {
+                  status: 503,
+                  headers: {
+                    "retry-after": String(Math.ceil(gate.retryAfterMs / 1000)),
+                  },
+                },
+              );
+              outcomes.set(response, "circuit_open");
+              return response;
+            }
+
+            let result: AttemptResult;
+            const sentAt = performance.now();
+            responseUrl = hopUrl;
+            try {
+              const response = await upstreamFetch(hopUrl.toString(), {
+                headers: fwdHeaders,
+                method,
+                body: body?.stream() ?? null,
+                redirect: "manual",
+                signal: controller.signal,
+                keepalive: true,
+              });
+              const upstreamMs = performance.now() - sentAt;
+              context.upstreamMs = (context.upstreamMs ?? 0) + upstreamMs;
+              metrics.upstreamDuration.observe(
+                { host: hopHost.config.host },
+                upstreamMs / 1000,
+              );
+              report(!upstreamFailureStatuses.includes(response.status));
+              result = { response };
+            } catch (error) {
+              report(false);
+              if (controller.signal.aborted || requestTooLarge) throw error;
+              result = { error };
+            }
+
+            const delayMs = retry &&
+              retryDelay(
+                retry,
+                attempt,
+                method,
+                result,
+                !body || body.replayable,
+              );
+            if (delayMs === undefined) {
+              if ("error" in result) throw result.error;
+              upstreamResponse = result.response;
+              break;
+            }
+            if ("response" in result) await result.response.body?.cancel();
+            metrics.retries.inc({ host: hopHost.config.host });
+            logEvent("WARN", "Retrying upstream request", {
+              requestId,
+              clientIp,
+              clientId,
+              targetHost: circuit,
+              attempt: attempt + 1,
+              delayMs,
+              reason: "error" in result
+                ? redactSecrets(
+                  result.error instanceof Error
+                    ? result.error.message
+                    : String(result.error),
+                  secrets,
+                )
+                : `status ${result.response.status}`,
+            });
+            await sleep(delayMs, controller.signal);
+          }
+          const location = upstreamResponse.headers.get("location");
+          if (!isRedirect(upstreamResponse.status) || !location) break;
+          if (hop >= maxRedirects) {
+            if (maxRedirects === 0) break;
+            await upstreamResponse.body?.cancel();
+            logEvent("WARN", "Too many upstream redirects", {
+              requestId,
+              clientIp,
+              clientId,
+              targetHost,
+              maxRedirects,
+            });
+            return new Response(
+              `Bad Gateway: '${targetHost}' redirected more than ${maxRedirects} times.`,
+              { status: 502 },
+            );
+          }
+          // A streamed body cannot be sent twice; let the client repeat it.
+          const nextMethod = redirectMethod(upstreamResponse.status, method);
+          if (nextMethod === method && body) break;
+
+          // An alias may redirect within its backend; anything else must be
+          // whitelisted.
+          const nextUrl = new URL(location, hopUrl);
+          const nextHost = hopHost.pool && nextUrl.origin === hopUrl.origin
+            ? hopHost
+            : hostForUrl(hosts, nextUrl);
+          await upstreamResponse.body?.cancel();
+          if (!nextHost) {
+            logEvent("WARN", "Blocked redirect to non-whitelisted location", {
+              requestId,
+              clientIp,
+              clientId,
+              targetHost,
+              location: redactSecrets(
+                location,
+                host.credentials.map((c) => c.secret),
+              ),
+            });
+            return new Response(
+              `Bad Gateway: '${targetHost}' redirected to a location outside the allowed list.`,
+              { status: 502 },
+            );
+          }
+
+          // Validators for the cached entry mean nothing to another URL.
+          if (cached) {
+            fwdHeaders.delete("if-none-match");
+            fwdHeaders.delete("if-modified-since");
+          }
+          if (nextMethod !== method) {
+            method = nextMethod;
+            body = null;
+            fwdHeaders.delete("content-type");
+            fwdHeaders.delete("content-length");
+          }
+          // Injected credentials belong to the requested origin only, scheme
+          // and port included, and are not restored once a redirect has
+          // left it.
+          if (nextUrl.origin !== targetUrl.origin) {
+            withCredentials = false;
+            for (const { header, query } of host.credentials) {
+              if (header) fwdHeaders.delete(header);
+              if (query) nextUrl.searchParams.delete(query);
+            }
+          } else if (withCredentials) {
+            applyCredentialQuery(nextUrl, host.credentials);
+          }
+          hopUrl = nextUrl;
+          hopHost = nextHost;
+          redirected = true;
+        }
+      } finally {
+        clearTimeout(timeoutId);
+      }
+
+      const responseTime = Date.now();
+      if (cached && !redirected && upstreamResponse.status === 304) {
+        await upstreamResponse.body?.cancel();
+        const refreshed = refreshEntry(
+          cached,
+          upstreamResponse,
+          requestTime,
+          responseTime,
+        );
+        context.background = store(refreshed);
+        return respond(
+          cachedToResponse(refreshed, responseTime),
+          "REVALIDATED",
+        );
+      }
+
+      if (declaredTooLarge(upstreamResponse.headers, limits.responseBytes)) {
+        await upstreamResponse.body?.cancel();
+        logEvent("WARN", "Upstream response too large", {
+          requestId,
+          clientIp,
+          clientId,
+          targetHost,
+          contentLength: Number(upstreamResponse.headers.get("content-length")),
+          limitBytes: limits.responseBytes,
+        });
+        return new Response(
+          `Bad Gateway: The response from '${targetHost}' exceeds ${limits.responseBytes} bytes.`,
+          { status: 502 },
+        );
+      }
+
+      // A timeout or an oversized body fails the stream, so the client sees
+      // a truncated response rather than a complete one, and the cache does
+      // not store it.
+      let body = upstreamResponse.body && guardStream(
+        upstreamResponse.body,
+        timeouts,
+        exchangeStart,
+        (error) => {
+          if (context.span) {
+            context.span.error = true;
+            context.span.attributes["proxy.timeout"] = error.phase;
+          }
+          logEvent("WARN", "Upstream response timed out", {
+            requestId,
+            clientIp,
+            clientId,
+            targetHost,
+            phase: error.phase,
+            timeoutMs: error.timeoutMs,
+            bytesOut: context.bytesOut,
+          });
+        },
+      );
+      if (body && limits.responseBytes !== undefined) {
+        body = limitStream(body, "response", limits.responseBytes, () => {
+          if (context.span) {
+            context.span.error = true;
+            context.span.attributes["proxy.too_large"] = "response";
+          }
+          logEvent("WARN", "Upstream response too large", {
+            requestId,
+            clientIp,
+            clientId,
+            targetHost,
+            limitBytes: limits.responseBytes,
+            bytesOut: context.bytesOut,
+          });
+        });
+      }
+      const maxEntryBytes = config.cache?.maxEntryBytes ??
+        DEFAULT_CACHE_MAX_ENTRY_BYTES;
+      if (
+        useCache && !redirected &&
+        Number(upstreamResponse.headers.get("content-length") ?? 0) <=
+          maxEntryBytes &&
+        isStorable(upstreamResponse, {
+          authorized: clientAuthorized,
+          ttlMs: cacheTtlMs,
+        })
+      ) {
+        // The client streams one branch while the other fills the cache.
+        const [toClient, toCache] = body ? body.tee() : [null, null];
+        body = toClient;
+        const { status, statusText, headers } = upstreamResponse;
+        const collected = toCache
+          ? readBody(toCache, maxEntryBytes)
+          : Promise.resolve(new Uint8Array());
+        context.background = collected.then((bytes) =>
+          bytes && store({
+            status,
+            statusText,
+            headers: [...headers],
+            body: bytes,
+            requestTime,
+            responseTime,
+            vary: varyValues(headers, request.headers),
+          })
+        );
+      }
+
+      return respond(
+        new Response(body, upstreamResponse),
+        useCache ? "MISS" : undefined,
+      );
+    } catch (error) {
+      const errPayload = errorFields(error);
+
+      if (requestTooLarge) {
+        logEvent("WARN", "Request body too large", {
+          requestId,
+          clientIp,
+          clientId,
+          targetHost,
+          limitBytes: requestTooLarge.limitBytes,
+          bytesIn: context.bytesIn,
+        });
+        return payloadTooLarge(requestTooLarge.limitBytes);
+      }
+
+      if (error instanceof Error && error.name === "AbortError") {
+        const message =
+          `Gateway Timeout: Request to '${targetHost}' exceeded ${headersTimeout.ms}ms.`;
+        logEvent("ERROR", message, {
+          ...errPayload,
+          phase: headersTimeout.phase,
+        });
+        return new Response(message, {
+          status: 504,
+          headers: { "content-type": "text/plain; charset=utf-8" },
+        });
+      }
+
+      logEvent("ERROR", "Error fetching target host", errPayload);
+      return new Response(
+        `Bad Gateway: Could not reach target host '${targetHost}'.`,
+        {
+          status: 502,
+          headers: { "content-type": "text/plain; charset=utf-8" },
+        },
+      );
+    }
+  };
+
+  const handler = async (request: Request, info: ProxyHandlerInfo) => {
+    // Snapshot the config so a reload mid-request cannot mix settings.
+    const compiled = current;
+    const { pathname } = new URL(request.url);
+    acquire(compiled);
+    const admin = adminResponse(request, pathname, compiled, metrics, {
+      uptimeMs: performance.now() - startedAt,
+      generation,
+    });
+    if (admin) {
+      try {
+        return await admin;
+      } finally {
+        release(compiled);
+      }
+    }
+
+    const host = hostForPath(compiled, pathname);
+    const labels = { host: host?.config.host ?? "" };
+    const { tracing, accessLog } = compiled.config;
+    const span = tracing &&
+      startSpan(
+        host ? `${request.method} ${host.config.host}` : request.method,
+        request.headers,
+        tracing.sampleRatio,
+      );
+    const context: RequestContext = {
+      requestId: requestIdFrom(request.headers),
+      span,
+      bytesIn: 0,
+      bytesOut: 0,
+    };
+    const arrivedAt = new Date();
+    const started = performance.now();
+    let response: Response | undefined;
+    let outcome = "";
+
+    // Runs once the response body has been sent (or failed).
+    const finish = () => {
+      metrics.inFlight.dec();
+      Promise.resolve(context.background).finally(() => release(compiled));
+      if (span) {
+        span.endTime = preciseNow();
+        if (span.context.sampled) compiled.exporter?.export(span);
+      }
+      if (accessLog && response) {
+        writeAccessLog(accessLog.format ?? "json", {
+          requestId: context.requestId,
+          time: arrivedAt,
+          clientIp: context.clientIp ?? clientIpFromInfo(info),
+          clientId: context.clientId,
+          method: request.method,
+          path: pathname,
+          targetHost: targetHostOf(pathname),
+          status: response.status,
+          outcome,
+          upstreamMs: context.upstreamMs,
+          durationMs: performance.now() - started,
+          bytesIn: context.bytesIn,
+          bytesOut: context.bytesOut,
+          userAgent: request.headers.get("user-agent"),
+          referer: request.headers.get("referer"),
+        });
+      }
+    };
+
+    metrics.inFlight.inc();
+    try {
+      response = await handle(request, info, compiled, host?.cors, context);
+    } catch (error) {
+      if (span) span.error = true;
+      finish();
+      throw error;
+    }
+    outcome = outcomes.get(response) ?? rejectionOutcome(response.status);
+    metrics.requests.inc({
+      ...labels,
+      status_class: statusClass(response.status),
+      outcome,
+    });
+    if (span) {
+      const targetHost = targetHostOf(pathname);
+      Object.assign(span.attributes, {
+        "http.request.method": request.method,
+        "url.path": pathname,
+        "http.response.status_code": response.status,
+        "proxy.outcome": outcome,
+        ...(targetHost ? { "proxy.target_host": targetHost } : {}),
+        ...(host ? { "proxy.host_pattern": host.config.host } : {}),
+      });
+      span.error = response.status >= 500;
+    }
+    response.headers.set(REQUEST_ID_HEADER, context.requestId);
+    // CORS headers go on every answer for the host, including rejections,
+    // so browser clients can read why a request failed.
+    if (host?.cors) {
+      applyCorsHeaders(
+        response.headers,
+        host.cors,
+        request.headers.get("origin"),
+      );
+    }
+
+    // A request stays in flight until its response body has been sent, or
+    // its WebSocket has closed.
+    if (context.closed) {
+      context.closed.finally(finish);
+      return response;
+    }
+    if (!response.body) {
+      finish();
+      return response;
+    }
+    return new Response(
+      observeStream(
+        response.body,
+        (bytes) => {
+          context.bytesOut += bytes;
+          metrics.responseBytes.inc(labels, bytes);
+        },
+        finish,
+      ),
+      response,
+    );
+  };
+
+  return Object.defineProperties(handler, {
+    reload: {
+      value(next: ProxyConfig) {
+        const previous = current;
+        current = compileConfig(next, previous);
+        generation++;
+        acquire(current);
+        release(previous);
+      },
+    },
+    generation: { get: () => generation },
+    close: {
+      async value() {
+        const configs = [...users.keys()];
+        users.clear();
+        await closeResources(configs, []);
+      },
+    },
+  }) as ProxyHandler;
+}
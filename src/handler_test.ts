@@ -0,0 +1,2331 @@
+import {
+  assert,
+  assertEquals,
+  assertMatch,
+  assertStringIncludes,
+  assertThrows,
+} from "@std/assert";
+import { hashClientKey } from "./auth.ts";
+import { createProxyHandler } from "./handler.ts";
+import {
+  recordingFetch,
+  startCollector,
+  startWebSocketUpstream,
+  tcpInfo,
+  testConfig,
+} from "./test_helpers.ts";
+
+/**
+ * A body sending `chunks` `intervalMs` apart, then ending, or with `stall`
+ * waiting until it is cancelled.
+ */
+function trickle(chunks: string[], intervalMs: number, stall = false) {
+  const encoder = new TextEncoder();
+  let timerId: number | undefined;
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      let i = 0;
+      const next = () => {
+        if (i < chunks.length) {
+          controller.enqueue(encoder.encode(chunks[i++]));
+          timerId = setTimeout(next, intervalMs);
+        } else if (!stall) {
+          controller.close();
+        }
+      };
+      next();
+    },
+    cancel() {
+      clearTimeout(timerId);
+    },
+  });
+}
+
+Deno.test("createProxyHandler", async (t) => {
+  await t.step(
+    "forwards whitelisted requests upstream over https",
+    async () => {
+      const upstream = recordingFetch(() =>
+        new Response("hello", { headers: { server: "nginx" } })
+      );
+      const handler = createProxyHandler(testConfig({ fetch: upstream.fetch }));
+
+      const response = await handler(
+        new Request("http://proxy.local/api.example.com/v1/models?limit=2", {
+          method: "POST",
+          body: "payload",
+          headers: {
+            "x-forwarded-for": "10.0.0.1",
+            "connection": "keep-alive",
+            "x-custom": "kept",
+          },
+        }),
+        tcpInfo(),
+      );
+
+      assertEquals(response.status, 200);
+      assertEquals(await response.text(), "hello");
+      assertEquals(response.headers.get("x-proxied-by"), "deno-proxy/2.5");
+      assertEquals(response.headers.get("server"), null);
+
+      assertEquals(upstream.requests.length, 1);
+      const [sent] = upstream.requests;
+      assertEquals(sent.url, "https://api.example.com/v1/models?limit=2");
+      assertEquals(sent.method, "POST");
+      assertEquals(sent.body, "payload");
+      assertEquals(sent.headers.get("x-custom"), "kept");
+      assertEquals(sent.headers.get("x-forwarded-for"), "127.0.0.1");
+      assertEquals(sent.headers.get("x-forwarded-host"), "proxy.local");
+      assertEquals(sent.headers.get("x-forwarded-proto"), "http");
+    },
+  );
+
+  await t.step("rejects a missing target host", async () => {
+    const handler = createProxyHandler(testConfig());
+    const response = await handler(
+      new Request("http://proxy.local/"),
+      tcpInfo(),
+    );
+    assertEquals(response.status, 400);
+    await response.body?.cancel();
+  });
+
+  await t.step("rejects malformed hostnames", async () => {
+    const handler = createProxyHandler(testConfig());
+    const response = await handler(
+      new Request("http://proxy.local/invalid..hostname/test"),
+      tcpInfo(),
+    );
+    assertEquals(response.status, 400);
+    assertStringIncludes(await response.text(), "Invalid host format");
+  });
+
+  await t.step("rejects non-whitelisted hosts", async () => {
+    const upstream = recordingFetch();
+    const handler = createProxyHandler(testConfig({ fetch: upstream.fetch }));
+    const response = await handler(
+      new Request("http://proxy.local/evil.example.org/x"),
+      tcpInfo(),
+    );
+    assertEquals(response.status, 403);
+    assertStringIncludes(await response.text(), "not in the allowed list");
+    assertEquals(upstream.requests.length, 0);
+  });
+
+  await t.step("matches wildcard patterns on a single label", async () => {
+    const upstream = recordingFetch();
+    const handler = createProxyHandler(
+      testConfig({ hosts: [{ host: "*.github.com" }], fetch: upstream.fetch }),
+    );
+    const ok = await handler(
+      new Request("http://proxy.local/api.github.com/x"),
+      tcpInfo(),
+    );
+    assertEquals(ok.status, 200);
+    await ok.body?.cancel();
+
+    const nested = await handler(
+      new Request("http://proxy.local/a.b.github.com/x"),
+      tcpInfo(),
+    );
+    assertEquals(nested.status, 403);
+    await nested.body?.cancel();
+  });
+
+  await t.step("rate limits per client", async () => {
+    const upstream = recordingFetch();
+    const handler = createProxyHandler(
+      testConfig({
+        rateLimit: { windowMs: 60000, maxRequests: 2 },
+        fetch: upstream.fetch,
+      }),
+    );
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      const response = await handler(
+        new Request("http://proxy.local/api.example.com/"),
+        tcpInfo("10.0.0.1"),
+      );
+      await response.body?.cancel();
+      statuses.push(response.status);
+    }
+    assertEquals(statuses, [200, 200, 429]);
+
+    const limited = await handler(
+      new Request("http://proxy.local/api.example.com/"),
+      tcpInfo("10.0.0.1"),
+    );
+    assertEquals(limited.headers.get("ratelimit-limit"), "2");
+    assertEquals(limited.headers.get("ratelimit-remaining"), "0");
+    assertEquals(limited.headers.get("retry-after"), "30");
+    await limited.body?.cancel();
+
+    const other = await handler(
+      new Request("http://proxy.local/api.example.com/"),
+      tcpInfo("10.0.0.2"),
+    );
+    assertEquals(other.status, 200);
+    await other.body?.cancel();
+  });
+
+  await t.step("reports rate-limit headers on proxied responses", async () => {
+    const handler = createProxyHandler(
+      testConfig({
+        rateLimit: { windowMs: 60000, maxRequests: 10 },
+        hosts: [{
+          host: "api.example.com",
+          rateLimit: { windowMs: 1000, maxRequests: 3 },
+        }],
+        fetch: recordingFetch().fetch,
+      }),
+    );
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/"),
+      tcpInfo(),
+    );
+    await response.body?.cancel();
+    // The host limit leaves fewer requests, so it is the one reported.
+    assertEquals(response.headers.get("ratelimit-limit"), "3");
+    assertEquals(response.headers.get("ratelimit-remaining"), "2");
+    assertEquals(response.headers.get("ratelimit-reset"), "1");
+    assertEquals(response.headers.get("retry-after"), null);
+  });
+
+  await t.step("applies per-client overrides", async () => {
+    const handler = createProxyHandler(
+      testConfig({
+        rateLimit: { windowMs: 60000, maxRequests: 1 },
+        clientRateLimits: { "10.0.0.9": { windowMs: 60000, maxRequests: 5 } },
+        fetch: recordingFetch().fetch,
+      }),
+    );
+    const statuses = [];
+    for (const ip of ["10.0.0.1", "10.0.0.1", "10.0.0.9", "10.0.0.9"]) {
+      const response = await handler(
+        new Request("http://proxy.local/api.example.com/"),
+        tcpInfo(ip),
+      );
+      await response.body?.cancel();
+      statuses.push(response.status);
+    }
+    assertEquals(statuses, [200, 429, 200, 200]);
+  });
+
+  await t.step("shares limits through a Deno KV store", async () => {
+    const dir = await Deno.makeTempDir();
+    const config = testConfig({
+      rateLimit: { windowMs: 60000, maxRequests: 1 },
+      rateLimitStore: { type: "kv", path: `${dir}/limits.db` },
+      fetch: recordingFetch().fetch,
+    });
+    const handler = createProxyHandler(config);
+    try {
+      const statuses = [];
+      for (let i = 0; i < 2; i++) {
+        const response = await handler(
+          new Request("http://proxy.local/api.example.com/"),
+          tcpInfo(),
+        );
+        await response.body?.cancel();
+        statuses.push(response.status);
+        // A reload with the same store keeps the connection and state.
+        handler.reload({ ...config });
+      }
+      assertEquals(statuses, [200, 429]);
+    } finally {
+      handler.close();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+
+  await t.step("keeps state separate between handler instances", async () => {
+    const config = testConfig({
+      rateLimit: { windowMs: 60000, maxRequests: 1 },
+      fetch: recordingFetch().fetch,
+    });
+    const first = createProxyHandler(config);
+    const second = createProxyHandler(config);
+    for (const handler of [first, second]) {
+      const response = await handler(
+        new Request("http://proxy.local/api.example.com/"),
+        tcpInfo(),
+      );
+      assertEquals(response.status, 200);
+      await response.body?.cancel();
+    }
+  });
+
+  await t.step("maps upstream timeouts to 504", async () => {
+    const handler = createProxyHandler(
+      testConfig({
+        timeoutMs: 10,
+        fetch: ((_input: string | URL | Request, init?: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            init?.signal?.addEventListener("abort", () =>
+              reject(new DOMException("aborted", "AbortError")));
+          })) as typeof fetch,
+      }),
+    );
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/slow"),
+      tcpInfo(),
+    );
+    assertEquals(response.status, 504);
+    assertStringIncludes(await response.text(), "Gateway Timeout");
+  });
+
+  await t.step("keeps streaming past the header timeout", async () => {
+    const handler = createProxyHandler(testConfig({
+      timeoutMs: 20,
+      idleTimeoutMs: 100,
+      fetch: recordingFetch(() => new Response(trickle(["a", "b", "c"], 40)))
+        .fetch,
+    }));
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/events"),
+      tcpInfo(),
+    );
+    assertEquals(await response.text(), "abc");
+  });
+
+  await t.step("ends response bodies that stall or run too long", async () => {
+    for (
+      const [settings, phase] of [
+        [{ idleTimeoutMs: 30 }, "idle"],
+        [{ totalTimeoutMs: 100 }, "total"],
+      ] as const
+    ) {
+      const chunks = phase === "idle" ? ["a"] : Array(100).fill("a");
+      const handler = createProxyHandler(testConfig({
+        ...settings,
+        fetch: recordingFetch(() => new Response(trickle(chunks, 10, true)))
+          .fetch,
+      }));
+      const response = await handler(
+        new Request("http://proxy.local/api.example.com/events"),
+        tcpInfo(),
+      );
+      assertEquals(response.status, 200);
+      const error = await response.text().then(() => undefined, (e) => e);
+      assertStringIncludes(String(error), `${phase} timeout`);
+    }
+  });
+
+  await t.step("maps upstream network errors to 502", async () => {
+    const handler = createProxyHandler(
+      testConfig({
+        fetch: (() => Promise.reject(new TypeError("boom"))) as typeof fetch,
+      }),
+    );
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/"),
+      tcpInfo(),
+    );
+    assertEquals(response.status, 502);
+    const text = await response.text();
+    assert(!text.includes("boom"), "error details must not leak to clients");
+  });
+});
+
+Deno.test("per-host settings", async (t) => {
+  await t.step("rejects methods outside the host's list with 405", async () => {
+    const upstream = recordingFetch();
+    const handler = createProxyHandler(
+      testConfig({
+        hosts: [{ host: "api.example.com", methods: ["GET", "POST"] }],
+        fetch: upstream.fetch,
+      }),
+    );
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/v1/files/1", {
+        method: "DELETE",
+      }),
+      tcpInfo(),
+    );
+    assertEquals(response.status, 405);
+    assertEquals(response.headers.get("allow"), "GET, POST");
+    await response.body?.cancel();
+    assertEquals(upstream.requests.length, 0);
+  });
+
+  await t.step("enforces route rules and names the rule", async () => {
+    const upstream = recordingFetch();
+    const handler = createProxyHandler(
+      testConfig({
+        hosts: [{
+          host: "api.example.com",
+          routes: [
+            { action: "allow", path: "/v1/responses", methods: ["POST"] },
+            {
+              action: "allow",
+              path: "/v1/models",
+              methods: ["GET"],
+              name: "list-models",
+            },
+          ],
+        }],
+        fetch: upstream.fetch,
+      }),
+    );
+    const send = (method: string, path: string) =>
+      handler(
+        new Request(`http://proxy.local/api.example.com${path}`, { method }),
+        tcpInfo(),
+      );
+
+    const ok = await send("POST", "/v1/responses");
+    assertEquals(ok.status, 200);
+    await ok.body?.cancel();
+
+    const wrongMethod = await send("DELETE", "/v1/models");
+    assertEquals(wrongMethod.status, 405);
+    assertEquals(wrongMethod.headers.get("allow"), "GET");
+    assertStringIncludes(await wrongMethod.text(), "'list-models'");
+
+    const unlisted = await send("DELETE", "/v1/files/abc");
+    assertEquals(unlisted.status, 403);
+    assertStringIncludes(await unlisted.text(), "no allow rule matched");
+
+    assertEquals(upstream.requests.length, 1);
+  });
+
+  await t.step("checks route rules against the normalized path", async () => {
+    const upstream = recordingFetch();
+    const handler = createProxyHandler(
+      testConfig({
+        hosts: [{
+          host: "api.example.com",
+          routes: [{
+            action: "deny",
+            path: "/v1/files/**",
+            methods: ["DELETE"],
+          }],
+        }],
+        fetch: upstream.fetch,
+      }),
+    );
+    const send = (path: string) =>
+      handler(
+        new Request(`http://proxy.local/api.example.com${path}`, {
+          method: "DELETE",
+        }),
+        tcpInfo(),
+      );
+
+    for (const path of ["/v1/%66iles/abc", "/V1/files/abc"]) {
+      const response = await send(path);
+      assertEquals(response.status, 403, path);
+      await response.body?.cancel();
+    }
+    for (const path of ["/v1/files%2Fabc", "/v1/files%5cabc"]) {
+      const response = await send(path);
+      assertEquals(response.status, 400, path);
+      await response.body?.cancel();
+    }
+    assertEquals(upstream.requests.length, 0);
+
+    const allowed = await send("/v1/%6dodels/a%20b");
+    assertEquals(allowed.status, 200);
+    await allowed.body?.cancel();
+    assertEquals(
+      new URL(upstream.requests[0].url).pathname,
+      "/v1/models/a%20b",
+    );
+  });
+
+  await t.step("applies the first matching host entry", async () => {
+    const upstream = recordingFetch(() =>
+      new Response("ok", { headers: { "x-internal": "1" } })
+    );
+    const handler = createProxyHandler(
+      testConfig({
+        hosts: [
+          {
+            host: "api.example.com",
+            headers: {
+              request: { set: { "x-team": "web" }, remove: ["cookie"] },
+              response: { remove: ["x-internal"] },
+            },
+          },
+          { host: "*.example.com" },
+        ],
+        fetch: upstream.fetch,
+      }),
+    );
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/", {
+        headers: { cookie: "a=b" },
+      }),
+      tcpInfo(),
+    );
+    assertEquals(response.headers.get("x-internal"), null);
+    await response.body?.cancel();
+    assertEquals(upstream.requests[0].headers.get("x-team"), "web");
+    assertEquals(upstream.requests[0].headers.get("cookie"), null);
+
+    const other = await handler(
+      new Request("http://proxy.local/www.example.com/"),
+      tcpInfo(),
+    );
+    assertEquals(other.headers.get("x-internal"), "1");
+    await other.body?.cancel();
+  });
+
+  await t.step("layers the header policy", async () => {
+    const upstream = recordingFetch(() =>
+      new Response("ok", {
+        headers: [
+          ["connection", "x-hop"],
+          ["x-hop", "1"],
+          ["x-old", "v"],
+          ["server", "nginx"],
+          ["set-cookie", "a=1"],
+          ["set-cookie", "b=2"],
+        ],
+      })
+    );
+    const handler = createProxyHandler(testConfig({
+      headers: { request: { add: { "x-client": "{clientId}" } } },
+      hosts: [{
+        host: "api.example.com",
+        headers: {
+          request: {
+            rename: { "x-token": "x-upstream-token" },
+            set: { "x-trace": "{requestId}@{targetHost}" },
+          },
+          response: {
+            remove: ["x-proxied-by"],
+            rename: { "x-old": "x-new" },
+            keep: ["set-cookie"],
+          },
+        },
+      }],
+      fetch: upstream.fetch,
+    }));
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/", {
+        headers: {
+          connection: "x-private",
+          "x-private": "1",
+          "x-token": "t",
+          "x-request-id": "req-1",
+        },
+      }),
+      tcpInfo("203.0.113.9"),
+    );
+    await response.body?.cancel();
+
+    const sent = upstream.requests[0].headers;
+    assertEquals(sent.get("x-private"), null);
+    assertEquals(sent.get("x-token"), null);
+    assertEquals(sent.get("x-upstream-token"), "t");
+    assertEquals(sent.get("x-client"), "203.0.113.9");
+    assertEquals(sent.get("x-trace"), "req-1@api.example.com");
+
+    assertEquals(response.headers.get("x-hop"), null);
+    assertEquals(response.headers.get("x-old"), null);
+    assertEquals(response.headers.get("x-new"), "v");
+    assertEquals(response.headers.get("server"), null);
+    assertEquals(response.headers.get("x-proxied-by"), null);
+    assertEquals(response.headers.getSetCookie(), ["a=1", "b=2"]);
+  });
+
+  await t.step("rewrites cookies for hosts that pass them on", async () => {
+    const upstream = recordingFetch(() =>
+      new Response("ok", {
+        headers: [["set-cookie", "sid=1; Domain=example.com; Path=/"]],
+      })
+    );
+    const handler = createProxyHandler(testConfig({
+      hosts: [
+        { host: "api.example.com", cookies: "rewrite" },
+        { host: "www.example.com" },
+      ],
+      fetch: upstream.fetch,
+    }));
+    const send = (target: string) =>
+      handler(
+        new Request(`https://proxy.dev/${target}/login`, {
+          headers: { cookie: "_ga=1; dp_sid=0" },
+        }),
+        tcpInfo(),
+      );
+
+    const rewritten = await send("api.example.com");
+    await rewritten.body?.cancel();
+    assertEquals(
+      rewritten.headers.get("set-cookie"),
+      "dp_sid=1; Domain=proxy.dev; Path=/api.example.com",
+    );
+    assertEquals(upstream.requests[0].headers.get("cookie"), "sid=0");
+
+    // One jar per host, however the client spelled it.
+    const mixedCase = await send("Api.Example.com");
+    await mixedCase.body?.cancel();
+    assertEquals(
+      mixedCase.headers.get("set-cookie"),
+      "dp_sid=1; Domain=proxy.dev; Path=/api.example.com",
+    );
+
+    const dropped = await send("www.example.com");
+    await dropped.body?.cancel();
+    assertEquals(dropped.headers.get("set-cookie"), null);
+    assertEquals(upstream.requests[2].headers.get("cookie"), "_ga=1; dp_sid=0");
+  });
+
+  await t.step("enforces a per-host rate limit", async () => {
+    const handler = createProxyHandler(
+      testConfig({
+        hosts: [
+          {
+            host: "api.example.com",
+            rateLimit: { windowMs: 60000, maxRequests: 1 },
+          },
+          { host: "www.example.com" },
+        ],
+        fetch: recordingFetch().fetch,
+      }),
+    );
+    const statuses = [];
+    for (const host of ["api", "api", "www"]) {
+      const response = await handler(
+        new Request(`http://proxy.local/${host}.example.com/`),
+        tcpInfo(),
+      );
+      await response.body?.cancel();
+      statuses.push(response.status);
+    }
+    assertEquals(statuses, [200, 429, 200]);
+  });
+});
+
+Deno.test("reload", async (t) => {
+  await t.step("in-flight requests finish with their config", async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => release = resolve);
+    const upstream = recordingFetch(async () => {
+      await gate;
+      return new Response("ok", { headers: { "x-a": "1" } });
+    });
+    const handler = createProxyHandler(
+      testConfig({
+        hosts: [{
+          host: "api.example.com",
+          headers: { response: { set: { "x-gen": "1" } } },
+        }],
+        fetch: upstream.fetch,
+      }),
+    );
+
+    const pending = handler(
+      new Request("http://proxy.local/api.example.com/"),
+      tcpInfo(),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    handler.reload(testConfig({ hosts: [], fetch: upstream.fetch }));
+    assertEquals(handler.generation, 2);
+    release();
+
+    const response = await pending;
+    assertEquals(response.status, 200);
+    assertEquals(response.headers.get("x-gen"), "1");
+    await response.body?.cancel();
+
+    const after = await handler(
+      new Request("http://proxy.local/api.example.com/"),
+      tcpInfo(),
+    );
+    assertEquals(after.status, 403);
+    await after.body?.cancel();
+  });
+
+  await t.step(
+    "keeps rate-limit state when the limit is unchanged",
+    async () => {
+      const config = testConfig({
+        rateLimit: { windowMs: 60000, maxRequests: 1 },
+        fetch: recordingFetch().fetch,
+      });
+      const handler = createProxyHandler(config);
+      const first = await handler(
+        new Request("http://proxy.local/api.example.com/"),
+        tcpInfo(),
+      );
+      await first.body?.cancel();
+      handler.reload({ ...config });
+      const second = await handler(
+        new Request("http://proxy.local/api.example.com/"),
+        tcpInfo(),
+      );
+      await second.body?.cancel();
+      assertEquals(second.status, 429);
+    },
+  );
+
+  await t.step(
+    "starts nothing for a config that fails to compile",
+    async () => {
+      const upstream = recordingFetch();
+      const handler = createProxyHandler(testConfig({ fetch: upstream.fetch }));
+      assertThrows(() =>
+        handler.reload(testConfig({
+          upstreams: [{
+            name: "svc",
+            backends: ["https://a.example.com"],
+            healthCheck: { path: "/health", intervalMs: 60000 },
+          }],
+          trustedProxies: ["10.0.0.0/40"],
+          fetch: upstream.fetch,
+        }))
+      );
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      assertEquals(upstream.requests.length, 0);
+      assertEquals(handler.generation, 1);
+      await handler.close();
+    },
+  );
+
+  await t.step(
+    "closes replaced stores once their requests finish",
+    async () => {
+      const openKv = Deno.openKv;
+      const closed: (string | undefined)[] = [];
+      Deno.openKv = async (path) => {
+        const kv = await openKv(":memory:");
+        const close = kv.close.bind(kv);
+        kv.close = () => {
+          closed.push(path);
+          close();
+        };
+        return kv;
+      };
+      try {
+        let release!: () => void;
+        const gate = new Promise<void>((resolve) => release = resolve);
+        const upstream = recordingFetch(async () => {
+          await gate;
+          return new Response("ok", {
+            headers: { "cache-control": "max-age=60" },
+          });
+        });
+        const handler = createProxyHandler(testConfig({
+          rateLimitStore: { type: "kv", path: "limits.db" },
+          cache: { store: { type: "kv", path: "cache.db" } },
+          fetch: upstream.fetch,
+        }));
+        const pending = handler(
+          new Request("http://proxy.local/api.example.com/"),
+          tcpInfo(),
+        );
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        handler.reload(testConfig({ cache: {}, fetch: upstream.fetch }));
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        assertEquals(closed, []);
+
+        release();
+        const response = await pending;
+        assertEquals(response.headers.get("x-cache"), "MISS");
+        assertEquals(await response.text(), "ok");
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        assertEquals(closed.sort(), ["cache.db", "limits.db"]);
+        await handler.close();
+      } finally {
+        Deno.openKv = openKv;
+      }
+    },
+  );
+});
+
+Deno.test("client authentication", async (t) => {
+  const upstream = recordingFetch();
+  const handler = createProxyHandler(
+    testConfig({
+      hosts: [{ host: "api.example.com" }, { host: "www.example.com" }],
+      rateLimit: { windowMs: 60000, maxRequests: 4 },
+      auth: {
+        bearer: true,
+        keys: [
+          {
+            id: "web",
+            hash: await hashClientKey("web-secret"),
+            hosts: ["api.example.com"],
+            routes: [{ action: "deny", path: "/admin/**", name: "no-admin" }],
+          },
+        ],
+      },
+      fetch: upstream.fetch,
+    }),
+  );
+  const send = (path: string, headers: HeadersInit = {}, ip = "10.0.0.1") =>
+    handler(new Request(`http://proxy.local${path}`, { headers }), tcpInfo(ip));
+
+  await t.step("rejects requests without a key", async () => {
+    const response = await send("/api.example.com/");
+    assertEquals(response.status, 401);
+    assertEquals(
+      response.headers.get("www-authenticate"),
+      'Bearer realm="deno-proxy"',
+    );
+    await response.body?.cancel();
+  });
+
+  await t.step("forwards with the key stripped", async () => {
+    const response = await send("/api.example.com/v1", {
+      "x-proxy-key": "web-secret",
+      authorization: "Bearer upstream-token",
+    });
+    assertEquals(response.status, 200);
+    await response.body?.cancel();
+    const [sent] = upstream.requests.splice(0);
+    assertEquals(sent.headers.get("x-proxy-key"), null);
+    assertEquals(sent.headers.get("authorization"), "Bearer upstream-token");
+  });
+
+  await t.step("strips a bearer client key", async () => {
+    const response = await send("/api.example.com/v1", {
+      authorization: "Bearer web-secret",
+    });
+    assertEquals(response.status, 200);
+    await response.body?.cancel();
+    const [sent] = upstream.requests.splice(0);
+    assertEquals(sent.headers.get("authorization"), null);
+  });
+
+  await t.step("enforces the key's host and route scope", async () => {
+    const otherHost = await send("/www.example.com/", {
+      "x-proxy-key": "web-secret",
+    });
+    assertEquals(otherHost.status, 403);
+    assertStringIncludes(await otherHost.text(), "Client key 'web'");
+
+    const denied = await send("/api.example.com/admin/users", {
+      "x-proxy-key": "web-secret",
+    }, "10.0.0.2");
+    assertEquals(denied.status, 403);
+    assertStringIncludes(await denied.text(), "client key 'web' no-admin");
+  });
+
+  await t.step("rate limits by key id rather than IP", async () => {
+    // "web" has used its four requests in this window from 10.0.0.1 and
+    // 10.0.0.2; a third IP does not get a fresh allowance.
+    const response = await send("/api.example.com/", {
+      "x-proxy-key": "web-secret",
+    }, "10.0.0.3");
+    assertEquals(response.status, 429);
+    await response.body?.cancel();
+  });
+});
+
+Deno.test("CORS", async (t) => {
+  const upstream = recordingFetch(() =>
+    new Response("ok", { headers: { "access-control-allow-origin": "*" } })
+  );
+  const handler = createProxyHandler(
+    testConfig({
+      hosts: [
+        {
+          host: "api.example.com",
+          cors: { origins: ["https://*.app.test"], methods: ["GET", "POST"] },
+        },
+      ],
+      auth: { keys: [{ id: "web", hash: await hashClientKey("web-secret") }] },
+      fetch: upstream.fetch,
+    }),
+  );
+
+  await t.step("answers preflights without a client key", async () => {
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/v1", {
+        method: "OPTIONS",
+        headers: {
+          origin: "https://www.app.test",
+          "access-control-request-method": "POST",
+          "access-control-request-headers": "x-proxy-key",
+        },
+      }),
+      tcpInfo(),
+    );
+    assertEquals(response.status, 204);
+    assertEquals(
+      response.headers.get("access-control-allow-origin"),
+      "https://www.app.test",
+    );
+    assertEquals(
+      response.headers.get("access-control-allow-headers"),
+      "x-proxy-key",
+    );
+    assertEquals(upstream.requests.length, 0);
+  });
+
+  await t.step("sets CORS headers on proxied responses", async () => {
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/v1", {
+        headers: {
+          origin: "https://www.app.test",
+          "x-proxy-key": "web-secret",
+        },
+      }),
+      tcpInfo(),
+    );
+    assertEquals(response.status, 200);
+    await response.body?.cancel();
+    assertEquals(
+      response.headers.get("access-control-allow-origin"),
+      "https://www.app.test",
+    );
+    assertEquals(response.headers.get("vary"), "Origin");
+  });
+
+  await t.step("lets browsers read rejections", async () => {
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/v1", {
+        headers: { origin: "https://www.app.test" },
+      }),
+      tcpInfo(),
+    );
+    assertEquals(response.status, 401);
+    await response.body?.cancel();
+    assertEquals(
+      response.headers.get("access-control-allow-origin"),
+      "https://www.app.test",
+    );
+  });
+
+  await t.step("drops upstream CORS headers for other origins", async () => {
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/v1", {
+        headers: { origin: "https://evil.test", "x-proxy-key": "web-secret" },
+      }),
+      tcpInfo(),
+    );
+    await response.body?.cancel();
+    assertEquals(response.headers.get("access-control-allow-origin"), null);
+  });
+});
+
+Deno.test("upstream credential injection", async (t) => {
+  await t.step("overrides client-sent credentials", async () => {
+    const upstream = recordingFetch();
+    const handler = createProxyHandler(
+      testConfig({
+        hosts: [{
+          host: "api.example.com",
+          credentials: [
+            { header: "authorization", value: "server-key", prefix: "Bearer " },
+            { query: "key", value: "query-secret" },
+          ],
+        }],
+        fetch: upstream.fetch,
+      }),
+    );
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/v1?key=mine&q=1", {
+        headers: { authorization: "Bearer browser-key" },
+      }),
+      tcpInfo(),
+    );
+    await response.body?.cancel();
+    const [sent] = upstream.requests;
+    assertEquals(sent.headers.get("authorization"), "Bearer server-key");
+    assertEquals(
+      sent.url,
+      "https://api.example.com/v1?key=query-secret&q=1",
+    );
+  });
+
+  await t.step("keeps secrets out of logs and error bodies", async () => {
+    const handler = createProxyHandler(
+      testConfig({
+        hosts: [{
+          host: "api.example.com",
+          credentials: [{ query: "key", value: "query-secret" }],
+        }],
+        fetch: ((input: string | URL | Request) =>
+          Promise.reject(
+            new TypeError(`error sending request for url (${input})`),
+          )) as typeof fetch,
+      }),
+    );
+    const logged: string[] = [];
+    const originalError = console.error;
+    console.error = (line: string) => logged.push(line);
+    try {
+      const response = await handler(
+        new Request("http://proxy.local/api.example.com/v1"),
+        tcpInfo(),
+      );
+      assertEquals(response.status, 502);
+      assert(!(await response.text()).includes("query-secret"));
+    } finally {
+      console.error = originalError;
+    }
+    assertEquals(logged.length, 1);
+    assert(!logged[0].includes("query-secret"));
+    assertStringIncludes(logged[0], "key=[REDACTED]");
+  });
+});
+
+Deno.test("forwarding headers", async (t) => {
+  const send = async (
+    handler: ReturnType<typeof createProxyHandler>,
+    peer: string,
+    headers: Record<string, string>,
+  ) => {
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/", { headers }),
+      tcpInfo(peer),
+    );
+    await response.body?.cancel();
+    return response;
+  };
+
+  await t.step("rate limits the client behind a trusted proxy", async () => {
+    const upstream = recordingFetch();
+    const handler = createProxyHandler(testConfig({
+      trustedProxies: ["10.0.0.0/8"],
+      rateLimit: { windowMs: 60000, maxRequests: 1 },
+      fetch: upstream.fetch,
+    }));
+
+    const first = await send(handler, "10.0.0.5", {
+      "x-forwarded-for": "203.0.113.7, 10.1.1.1",
+    });
+    assertEquals(first.status, 200);
+    assertEquals(
+      upstream.requests[0].headers.get("x-forwarded-for"),
+      "203.0.113.7, 10.1.1.1, 10.0.0.5",
+    );
+    // Same client via another proxy hop shares the bucket...
+    const again = await send(handler, "10.0.0.6", {
+      "forwarded": 'for="203.0.113.7:1234"',
+    });
+    assertEquals(again.status, 429);
+    // ...while a different client behind the same proxy does not.
+    const other = await send(handler, "10.0.0.5", {
+      "x-forwarded-for": "203.0.113.8",
+    });
+    assertEquals(other.status, 200);
+    assertEquals(upstream.requests[1].headers.get("forwarded"), null);
+  });
+
+  await t.step("ignores headers from untrusted peers", async () => {
+    const upstream = recordingFetch();
+    const handler = createProxyHandler(testConfig({
+      trustedProxies: ["10.0.0.0/8"],
+      rateLimit: { windowMs: 60000, maxRequests: 1 },
+      fetch: upstream.fetch,
+    }));
+
+    assertEquals(
+      (await send(handler, "198.51.100.1", { "x-forwarded-for": "1.1.1.1" }))
+        .status,
+      200,
+    );
+    assertEquals(
+      (await send(handler, "198.51.100.1", { "x-forwarded-for": "2.2.2.2" }))
+        .status,
+      429,
+    );
+    assertEquals(
+      upstream.requests[0].headers.get("x-forwarded-for"),
+      "198.51.100.1",
+    );
+  });
+
+  await t.step("strips X-Forwarded-For when configured", async () => {
+    const upstream = recordingFetch();
+    const handler = createProxyHandler(testConfig({
+      trustedProxies: ["10.0.0.0/8"],
+      forwardedFor: "strip",
+      fetch: upstream.fetch,
+    }));
+    await send(handler, "10.0.0.5", {
+      "x-forwarded-for": "203.0.113.7",
+      "forwarded": "for=203.0.113.7",
+    });
+    const [sent] = upstream.requests;
+    assertEquals(sent.headers.get("x-forwarded-for"), null);
+    assertEquals(sent.headers.get("forwarded"), null);
+  });
+});
+
+Deno.test("SSRF protection", async (t) => {
+  const get = (handler: ReturnType<typeof createProxyHandler>, path: string) =>
+    handler(new Request(`http://proxy.local${path}`), tcpInfo());
+
+  await t.step("blocks hosts resolving to internal addresses", async () => {
+    const upstream = recordingFetch();
+    const handler = createProxyHandler(testConfig({
+      hosts: [{ host: "api.example.com" }, { host: "intranet.example.com" }],
+      resolveHost: (hostname) =>
+        Promise.resolve(
+          hostname === "intranet.example.com" ? ["10.0.0.8"] : ["8.8.8.8"],
+        ),
+      fetch: upstream.fetch,
+    }));
+    const response = await get(handler, "/intranet.example.com/");
+    assertEquals(response.status, 403);
+    await response.body?.cancel();
+    assertEquals(upstream.requests.length, 0);
+
+    handler.reload(testConfig({
+      hosts: [{ host: "intranet.example.com", allowInternalAddresses: true }],
+      resolveHost: () => Promise.resolve(["10.0.0.8"]),
+      fetch: upstream.fetch,
+    }));
+    const allowed = await get(handler, "/intranet.example.com/");
+    assertEquals(allowed.status, 200);
+    await allowed.body?.cancel();
+  });
+
+  await t.step("follows redirects within the whitelist", async () => {
+    const upstream = recordingFetch((request) =>
+      request.url.startsWith("https://api.example.com/")
+        ? new Response(null, {
+          status: 302,
+          headers: { location: "https://cdn.example.com/file" },
+        })
+        : new Response("file")
+    );
+    const handler = createProxyHandler(testConfig({
+      hosts: [
+        {
+          host: "api.example.com",
+          credentials: [{ header: "authorization", value: "Bearer s3cret" }],
+        },
+        { host: "cdn.example.com" },
+      ],
+      fetch: upstream.fetch,
+    }));
+    const response = await get(handler, "/api.example.com/download");
+    assertEquals(response.status, 200);
+    assertEquals(await response.text(), "file");
+    assertEquals(upstream.requests.map((r) => r.url), [
+      "https://api.example.com/download",
+      "https://cdn.example.com/file",
+    ]);
+    assertEquals(
+      upstream.requests[1].headers.get("authorization"),
+      null,
+    );
+  });
+
+  await t.step("refuses redirects leaving the whitelist", async () => {
+    for (
+      const location of [
+        "https://evil.test/",
+        "http://api.example.com/plain",
+        "https://api.example.com:8443/other-port",
+        "https://169.254.169.254/latest/meta-data/",
+      ]
+    ) {
+      const upstream = recordingFetch(() =>
+        new Response(null, { status: 301, headers: { location } })
+      );
+      const handler = createProxyHandler(testConfig({
+        hosts: [{ host: "api.example.com" }, { host: "169.254.169.254" }],
+        fetch: upstream.fetch,
+      }));
+      const response = await get(handler, "/api.example.com/");
+      assertEquals(response.status, 502, location);
+      await response.body?.cancel();
+      assertEquals(upstream.requests.length, 1, location);
+    }
+  });
+
+  await t.step("limits the number of redirects", async () => {
+    const loop = () =>
+      new Response(null, {
+        status: 307,
+        headers: { location: "/again" },
+      });
+    const upstream = recordingFetch(loop);
+    const handler = createProxyHandler(
+      testConfig({ maxRedirects: 2, fetch: upstream.fetch }),
+    );
+    const response = await get(handler, "/api.example.com/");
+    assertEquals(response.status, 502);
+    await response.body?.cancel();
+    assertEquals(upstream.requests.length, 3);
+
+    const passThrough = createProxyHandler(
+      testConfig({ maxRedirects: 0, fetch: recordingFetch(loop).fetch }),
+    );
+    const redirect = await get(passThrough, "/api.example.com/");
+    assertEquals(redirect.status, 307);
+    assertEquals(redirect.headers.get("location"), "/api.example.com/again");
+  });
+});
+
+Deno.test("location rewriting", async (t) => {
+  const redirectTo = (location: string, headers: HeadersInit = {}) =>
+    recordingFetch(() =>
+      new Response(null, {
+        status: 302,
+        headers: { location, ...Object.fromEntries(new Headers(headers)) },
+      })
+    ).fetch;
+  const get = (handler: ReturnType<typeof createProxyHandler>, path: string) =>
+    handler(new Request(`https://proxy.dev${path}`), tcpInfo());
+
+  await t.step("points whitelisted locations at the proxy", async () => {
+    const handler = createProxyHandler(testConfig({
+      hosts: [
+        {
+          host: "api.example.com",
+          credentials: [{ query: "key", value: "secret" }],
+        },
+        { host: "http://localhost:9000", allowHttp: true },
+      ],
+      maxRedirects: 0,
+      fetch: redirectTo("https://api.example.com/next?key=secret&a=1", {
+        "content-location": "http://localhost:9000/doc",
+        link: '<https://other.test/>; rel="help"',
+      }),
+    }));
+    const response = await get(handler, "/api.example.com/start");
+    assertEquals(response.status, 302);
+    assertEquals(response.headers.get("location"), "/api.example.com/next?a=1");
+    assertEquals(
+      response.headers.get("content-location"),
+      "/localhost:9000/doc",
+    );
+    assertEquals(
+      response.headers.get("link"),
+      '<https://other.test/>; rel="help"',
+    );
+  });
+
+  await t.step("maps alias backends back to the alias", async () => {
+    const handler = createProxyHandler(testConfig({
+      upstreams: [{ name: "svc", backends: ["https://a.example.com/v1"] }],
+      maxRedirects: 0,
+      fetch: redirectTo("/v1/next"),
+    }));
+    const response = await get(handler, "/svc/start");
+    assertEquals(response.headers.get("location"), "/svc/next");
+    await handler.close();
+  });
+
+  await t.step("rewrites HTML for hosts that opt in", async () => {
+    const page = '<a href="https://api.example.com/docs">docs</a>';
+    const upstream = recordingFetch(() =>
+      new Response(page, {
+        headers: {
+          "content-type": "text/html",
+          "content-length": String(page.length),
+        },
+      })
+    );
+    const handler = createProxyHandler(testConfig({
+      hosts: [
+        { host: "api.example.com", rewriteContent: true },
+        { host: "www.example.com" },
+      ],
+      fetch: upstream.fetch,
+    }));
+
+    const rewritten = await get(handler, "/api.example.com/");
+    assertEquals(rewritten.headers.get("content-length"), null);
+    assertEquals(
+      await rewritten.text(),
+      '<a href="/api.example.com/docs">docs</a>',
+    );
+    const untouched = await get(handler, "/www.example.com/");
+    assertEquals(await untouched.text(), page);
+  });
+
+  await t.step("blocks off-site redirects when configured", async () => {
+    const handler = createProxyHandler(testConfig({
+      hosts: [{ host: "api.example.com", offsiteLocations: "block" }],
+      maxRedirects: 0,
+      fetch: redirectTo("https://other.test/"),
+    }));
+    const response = await get(handler, "/api.example.com/start");
+    assertEquals(response.status, 502);
+    assertStringIncludes(await response.text(), "outside the allowed list");
+  });
+});
+
+Deno.test("explicit schemes and ports", async (t) => {
+  const get = (handler: ReturnType<typeof createProxyHandler>, path: string) =>
+    handler(new Request(`http://proxy.local${path}`), tcpInfo());
+
+  await t.step("reaches entries on their scheme and port", async () => {
+    const upstream = recordingFetch();
+    const handler = createProxyHandler(testConfig({
+      hosts: [
+        {
+          host: "http://localhost:9000",
+          allowHttp: true,
+          allowInternalAddresses: true,
+        },
+        { host: "internal.example.com:8443" },
+      ],
+      fetch: upstream.fetch,
+    }));
+    const statuses = [];
+    for (
+      const path of [
+        "/localhost/v1/models",
+        "/localhost:9000/v1/models",
+        "/localhost:9001/v1/models",
+        "/internal.example.com/x",
+        "/internal.example.com:443/x",
+      ]
+    ) {
+      const response = await get(handler, path);
+      statuses.push(response.status);
+      await response.body?.cancel();
+    }
+    assertEquals(statuses, [200, 200, 403, 200, 403]);
+    assertEquals(upstream.requests.map((request) => request.url), [
+      "http://localhost:9000/v1/models",
+      "http://localhost:9000/v1/models",
+      "https://internal.example.com:8443/x",
+    ]);
+  });
+
+  await t.step("requires an opt-in for plain HTTP", () => {
+    let error: unknown;
+    try {
+      createProxyHandler(testConfig({ hosts: [{ host: "http://a.test" }] }));
+    } catch (caught) {
+      error = caught;
+    }
+    assert(error instanceof Error);
+    assertStringIncludes(error.message, "without allowHttp");
+  });
+
+  await t.step("drops credentials on redirects to another origin", async () => {
+    const upstream = recordingFetch((request) =>
+      request.url.startsWith("https:")
+        ? new Response(null, {
+          status: 302,
+          headers: { location: "http://api.example.com:8080/end?key=secret" },
+        })
+        : new Response("end")
+    );
+    const handler = createProxyHandler(testConfig({
+      hosts: [
+        {
+          host: "api.example.com",
+          credentials: [
+            { header: "authorization", value: "Bearer s3cret" },
+            { query: "key", value: "secret" },
+          ],
+        },
+        { host: "http://api.example.com:8080", allowHttp: true },
+      ],
+      fetch: upstream.fetch,
+    }));
+    const response = await get(handler, "/api.example.com/start");
+    assertEquals(await response.text(), "end");
+    const [first, second] = upstream.requests;
+    assertEquals(first.url, "https://api.example.com/start?key=secret");
+    assertEquals(first.headers.get("authorization"), "Bearer s3cret");
+    assertEquals(second.url, "http://api.example.com:8080/end");
+    assertEquals(second.headers.get("authorization"), null);
+  });
+
+  await t.step("follows redirects only to allowed schemes", async () => {
+    const upstream = recordingFetch((request) =>
+      request.url === "https://api.example.com/start"
+        ? new Response(null, {
+          status: 302,
+          headers: { location: "http://mock.example.com:9000/end" },
+        })
+        : new Response("end")
+    );
+    const handler = createProxyHandler(testConfig({
+      hosts: [
+        { host: "api.example.com" },
+        { host: "http://mock.example.com:9000", allowHttp: true },
+      ],
+      fetch: upstream.fetch,
+    }));
+    const response = await get(handler, "/api.example.com/start");
+    assertEquals(await response.text(), "end");
+    assertEquals(
+      upstream.requests.at(-1)!.url,
+      "http://mock.example.com:9000/end",
+    );
+  });
+});
+
+Deno.test("response cache", async (t) => {
+  // Lets the background cache write that follows a streamed body land.
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+  const get = async (
+    handler: ReturnType<typeof createProxyHandler>,
+    headers: Record<string, string> = {},
+    path = "/api.example.com/v1/models",
+  ) => {
+    const response = await handler(
+      new Request(`http://proxy.local${path}`, { headers }),
+      tcpInfo(),
+    );
+    const text = await response.text();
+    await settle();
+    return { response, text };
+  };
+
+  await t.step("serves fresh responses from the cache", async () => {
+    let version = 0;
+    const upstream = recordingFetch(() =>
+      new Response(`v${++version}`, {
+        headers: { "cache-control": "max-age=60" },
+      })
+    );
+    const handler = createProxyHandler(
+      testConfig({ cache: {}, fetch: upstream.fetch }),
+    );
+
+    const first = await get(handler);
+    assertEquals(first.response.headers.get("x-cache"), "MISS");
+    const second = await get(handler);
+    assertEquals(second.response.headers.get("x-cache"), "HIT");
+    assertEquals(second.text, "v1");
+    assertEquals(second.response.headers.get("age"), "0");
+    assertEquals(upstream.requests.length, 1);
+
+    const bypass = await get(handler, { "cache-control": "no-store" });
+    assertEquals(bypass.text, "v2");
+    assertEquals(bypass.response.headers.get("x-cache"), null);
+  });
+
+  await t.step("revalidates stale responses with their ETag", async () => {
+    const upstream = recordingFetch((request) =>
+      request.headers.get("if-none-match") === '"v1"'
+        ? new Response(null, { status: 304, headers: { etag: '"v1"' } })
+        : new Response("models", { headers: { etag: '"v1"' } })
+    );
+    const handler = createProxyHandler(
+      testConfig({ cache: {}, fetch: upstream.fetch }),
+    );
+
+    await get(handler);
+    const revalidated = await get(handler);
+    assertEquals(revalidated.response.status, 200);
+    assertEquals(revalidated.response.headers.get("x-cache"), "REVALIDATED");
+    assertEquals(revalidated.text, "models");
+    assertEquals(upstream.requests[1].headers.get("if-none-match"), '"v1"');
+  });
+
+  await t.step("keeps one variant per Vary", async () => {
+    const upstream = recordingFetch((request) =>
+      new Response(request.headers.get("accept-language"), {
+        headers: { "cache-control": "max-age=60", vary: "Accept-Language" },
+      })
+    );
+    const handler = createProxyHandler(
+      testConfig({ cache: {}, fetch: upstream.fetch }),
+    );
+
+    await get(handler, { "accept-language": "en" });
+    const german = await get(handler, { "accept-language": "de" });
+    assertEquals(german.text, "de");
+    assertEquals(german.response.headers.get("x-cache"), "MISS");
+    const again = await get(handler, { "accept-language": "de" });
+    assertEquals(again.response.headers.get("x-cache"), "HIT");
+  });
+
+  await t.step("applies per-host TTLs and opt-outs", async () => {
+    const upstream = recordingFetch();
+    const handler = createProxyHandler(testConfig({
+      hosts: [
+        { host: "api.example.com", cache: { ttl: 60 } },
+        { host: "live.example.com", cache: { enabled: false } },
+      ],
+      cache: {},
+      fetch: upstream.fetch,
+    }));
+
+    await get(handler);
+    assertEquals(
+      (await get(handler)).response.headers.get("x-cache"),
+      "HIT",
+    );
+    const live = await get(handler, {}, "/live.example.com/");
+    assertEquals(live.response.headers.get("x-cache"), null);
+  });
+
+  await t.step("does not share responses to client credentials", async () => {
+    const upstream = recordingFetch(() =>
+      new Response("mine", { headers: { "cache-control": "max-age=60" } })
+    );
+    const handler = createProxyHandler(
+      testConfig({ cache: {}, fetch: upstream.fetch }),
+    );
+
+    await get(handler, { authorization: "Bearer user-token" });
+    const other = await get(handler);
+    assertEquals(other.response.headers.get("x-cache"), "MISS");
+    assertEquals(upstream.requests.length, 2);
+  });
+});
+
+Deno.test("metrics", async (t) => {
+  const scrape = async (
+    handler: ReturnType<typeof createProxyHandler>,
+    headers: Record<string, string> = {},
+  ) => {
+    const response = await handler(
+      new Request("http://proxy.local/_proxy/metrics", { headers }),
+      tcpInfo(),
+    );
+    return { response, text: await response.text() };
+  };
+
+  await t.step("counts requests by host, status and outcome", async () => {
+    const upstream = recordingFetch(() => new Response("hello"));
+    const handler = createProxyHandler(
+      testConfig({ metrics: {}, fetch: upstream.fetch }),
+    );
+
+    const proxied = await handler(
+      new Request("http://proxy.local/api.example.com/v1", {
+        method: "POST",
+        body: "payload",
+      }),
+      tcpInfo(),
+    );
+    await proxied.text();
+    await (await handler(
+      new Request("http://proxy.local/evil.example.com/"),
+      tcpInfo(),
+    )).text();
+
+    const { response, text } = await scrape(handler);
+    assertEquals(response.status, 200);
+    assertStringIncludes(
+      response.headers.get("content-type")!,
+      "text/plain; version=0.0.4",
+    );
+    assertStringIncludes(
+      text,
+      'proxy_requests_total{host="api.example.com",outcome="proxied",status_class="2xx"} 1\n',
+    );
+    assertStringIncludes(
+      text,
+      'proxy_requests_total{host="",outcome="forbidden",status_class="4xx"} 1\n',
+    );
+    assertStringIncludes(
+      text,
+      'proxy_request_bytes_total{host="api.example.com"} 7\n',
+    );
+    assertStringIncludes(
+      text,
+      'proxy_response_bytes_total{host="api.example.com"} 5\n',
+    );
+    assertStringIncludes(
+      text,
+      'proxy_upstream_duration_seconds_count{host="api.example.com"} 1\n',
+    );
+    assertStringIncludes(text, "proxy_requests_in_flight 0\n");
+    assertStringIncludes(text, "proxy_rate_limiter_buckets 1\n");
+  });
+
+  await t.step("labels rate-limited requests", async () => {
+    const handler = createProxyHandler(testConfig({
+      metrics: {},
+      rateLimit: { windowMs: 60000, maxRequests: 1 },
+      fetch: recordingFetch().fetch,
+    }));
+    for (let i = 0; i < 2; i++) {
+      await (await handler(
+        new Request("http://proxy.local/api.example.com/"),
+        tcpInfo(),
+      )).text();
+    }
+
+    assertStringIncludes(
+      (await scrape(handler)).text,
+      'proxy_requests_total{host="api.example.com",outcome="rate_limit",status_class="4xx"} 1\n',
+    );
+  });
+
+  await t.step("requires the scrape token when configured", async () => {
+    const handler = createProxyHandler(testConfig({
+      metrics: { path: "/metrics", token: "scrape-secret" },
+      hosts: [{ host: "metrics" }],
+    }));
+
+    const missing = await handler(
+      new Request("http://proxy.local/metrics"),
+      tcpInfo(),
+    );
+    await missing.text();
+    assertEquals(missing.status, 401);
+
+    const response = await handler(
+      new Request("http://proxy.local/metrics", {
+        headers: { authorization: "Bearer scrape-secret" },
+      }),
+      tcpInfo(),
+    );
+    assertEquals(response.status, 200);
+    assertStringIncludes(await response.text(), "# TYPE proxy_requests_total");
+  });
+
+  await t.step("reserves the path when metrics are off", async () => {
+    const { response } = await scrape(createProxyHandler(testConfig()));
+    assertEquals(response.status, 404);
+  });
+});
+
+Deno.test("health endpoints", async (t) => {
+  const get = async (
+    handler: ReturnType<typeof createProxyHandler>,
+    path: string,
+  ) => {
+    const response = await handler(
+      new Request(`http://proxy.local${path}`),
+      tcpInfo(),
+    );
+    return { response, body: await response.json() };
+  };
+
+  await t.step("reports liveness without rate limiting", async () => {
+    const handler = createProxyHandler(testConfig({
+      rateLimit: { windowMs: 60000, maxRequests: 1 },
+    }));
+    handler.reload(testConfig());
+
+    for (let i = 0; i < 3; i++) {
+      const { response, body } = await get(handler, "/_proxy/health");
+      assertEquals(response.status, 200);
+      assertEquals(response.headers.get("cache-control"), "no-store");
+      assertEquals(body.status, "ok");
+      assertEquals(body.generation, 2);
+      assertEquals(typeof body.version, "string");
+      assertEquals(typeof body.uptimeSeconds, "number");
+    }
+  });
+
+  await t.step("reports readiness from upstream checks", async () => {
+    let healthy = true;
+    const upstream = recordingFetch(() =>
+      new Response(null, { status: healthy ? 204 : 503 })
+    );
+    const config = testConfig({
+      fetch: upstream.fetch,
+      readinessChecks: [{ name: "api", url: "https://api.example.com/up" }],
+    });
+    const handler = createProxyHandler(config);
+
+    const ready = await get(handler, "/_proxy/ready");
+    assertEquals(ready.response.status, 200);
+    assertEquals(ready.body.status, "ready");
+    assertEquals(ready.body.checks[0].name, "api");
+    assertEquals(ready.body.checks[0].status, 204);
+
+    // Results are reused for a few seconds; a reload starts afresh.
+    healthy = false;
+    handler.reload(config);
+    const failing = await get(handler, "/_proxy/ready");
+    assertEquals(failing.response.status, 503);
+    assertEquals(failing.body.status, "unavailable");
+    assertEquals(failing.body.checks[0].ok, false);
+  });
+
+  await t.step("honors a custom prefix", async () => {
+    const handler = createProxyHandler(testConfig({ adminPrefix: "/-/proxy" }));
+    assertEquals(
+      (await get(handler, "/-/proxy/health")).response.status,
+      200,
+    );
+    const old = await handler(
+      new Request("http://proxy.local/_proxy/health"),
+      tcpInfo(),
+    );
+    await old.text();
+    assertEquals(old.status, 400);
+  });
+
+  await t.step("refuses other methods", async () => {
+    const response = await createProxyHandler(testConfig())(
+      new Request("http://proxy.local/_proxy/health", { method: "POST" }),
+      tcpInfo(),
+    );
+    await response.text();
+    assertEquals(response.status, 405);
+  });
+});
+
+Deno.test("tracing", async (t) => {
+  const parent = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+
+  await t.step("propagates trace context upstream", async () => {
+    const upstream = recordingFetch();
+    const handler = createProxyHandler(
+      testConfig({ tracing: {}, fetch: upstream.fetch }),
+    );
+
+    await (await handler(
+      new Request("http://proxy.local/api.example.com/v1", {
+        headers: { traceparent: parent, tracestate: "vendor=1" },
+      }),
+      tcpInfo(),
+    )).text();
+    await (await handler(
+      new Request("http://proxy.local/api.example.com/v1", {
+        headers: { traceparent: "garbage", tracestate: "vendor=1" },
+      }),
+      tcpInfo(),
+    )).text();
+
+    const [joined, fresh] = upstream.requests.map((r) => r.headers);
+    const forwarded = joined.get("traceparent")!.split("-");
+    assertEquals(forwarded[1], "4bf92f3577b34da6a3ce929d0e0e4736");
+    assert(forwarded[2] !== "00f067aa0ba902b7");
+    assertEquals(forwarded[3], "01");
+    assertEquals(joined.get("tracestate"), "vendor=1");
+    assert(fresh.get("traceparent")!.startsWith("00-"));
+    assertEquals(fresh.get("tracestate"), null);
+  });
+
+  await t.step("exports a span per request", async () => {
+    const collector = startCollector();
+    const handler = createProxyHandler(testConfig({
+      tracing: { endpoint: collector.endpoint },
+      fetch: recordingFetch(() =>
+        new Response("upstream down", {
+          status: 503,
+        })
+      ).fetch,
+    }));
+    try {
+      for (const path of ["/api.example.com/v1/models", "/evil.example.com/"]) {
+        await (await handler(
+          new Request(`http://proxy.local${path}`, {
+            headers: { traceparent: parent },
+          }),
+          tcpInfo(),
+        )).text();
+      }
+      await handler.close();
+    } finally {
+      await collector.close();
+    }
+
+    const [proxied, rejected] = collector.spans;
+    assertEquals(proxied.name, "GET api.example.com");
+    assertEquals(proxied.traceId, "4bf92f3577b34da6a3ce929d0e0e4736");
+    assertEquals(proxied.parentSpanId, "00f067aa0ba902b7");
+    assertEquals(proxied.attributes["proxy.target_host"], "api.example.com");
+    assertEquals(proxied.attributes["http.response.status_code"], "503");
+    assertEquals(proxied.attributes["proxy.outcome"], "proxied");
+    assertEquals(proxied.status.code, 2);
+    assertEquals(rejected.name, "GET");
+    assertEquals(rejected.attributes["proxy.outcome"], "forbidden");
+    assertEquals(rejected.attributes["proxy.target_host"], "evil.example.com");
+  });
+
+  await t.step("does not export unsampled traces", async () => {
+    const collector = startCollector();
+    const handler = createProxyHandler(testConfig({
+      tracing: { endpoint: collector.endpoint, sampleRatio: 0 },
+      fetch: recordingFetch().fetch,
+    }));
+    try {
+      await (await handler(
+        new Request("http://proxy.local/api.example.com/"),
+        tcpInfo(),
+      )).text();
+      await handler.close();
+    } finally {
+      await collector.close();
+    }
+    assertEquals(collector.spans.length, 0);
+  });
+});
+
+Deno.test("request ids and access log", async (t) => {
+  const captureLogs = () => {
+    const lines: string[] = [];
+    const original = console.log;
+    console.log = (line: string) => lines.push(line);
+    return { lines, restore: () => console.log = original };
+  };
+
+  await t.step("sends and returns the request id", async () => {
+    const upstream = recordingFetch();
+    const handler = createProxyHandler(testConfig({ fetch: upstream.fetch }));
+
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/", {
+        headers: { "x-request-id": "trace-me-1" },
+      }),
+      tcpInfo(),
+    );
+    await response.text();
+    assertEquals(response.headers.get("x-request-id"), "trace-me-1");
+    assertEquals(
+      upstream.requests[0].headers.get("x-request-id"),
+      "trace-me-1",
+    );
+
+    const rejected = await handler(
+      new Request("http://proxy.local/evil.example.com/"),
+      tcpInfo(),
+    );
+    await rejected.text();
+    assert(rejected.headers.get("x-request-id"));
+  });
+
+  await t.step("logs each request after its body is sent", async () => {
+    const upstream = recordingFetch(() => new Response("hello"));
+    const handler = createProxyHandler(
+      testConfig({ accessLog: {}, fetch: upstream.fetch }),
+    );
+    const logs = captureLogs();
+    try {
+      const response = await handler(
+        new Request("http://proxy.local/api.example.com/v1?key=secret", {
+          method: "POST",
+          body: "payload",
+          headers: { "user-agent": "test-agent" },
+        }),
+        tcpInfo("203.0.113.7"),
+      );
+      assertEquals(logs.lines.length, 0);
+      await response.text();
+    } finally {
+      logs.restore();
+    }
+
+    assertEquals(logs.lines.length, 1);
+    assert(!logs.lines[0].includes("secret"));
+    const entry = JSON.parse(logs.lines[0]);
+    assertEquals(entry.message, "Request completed");
+    assertEquals(entry.clientIp, "203.0.113.7");
+    assertEquals(entry.targetHost, "api.example.com");
+    assertEquals(entry.path, "/api.example.com/v1");
+    assertEquals(entry.status, 200);
+    assertEquals(entry.outcome, "proxied");
+    assertEquals(entry.bytesIn, 7);
+    assertEquals(entry.bytesOut, 5);
+    assertEquals(entry.userAgent, "test-agent");
+    assertEquals(typeof entry.upstreamMs, "number");
+    assertEquals(typeof entry.durationMs, "number");
+  });
+
+  await t.step("writes the combined format", async () => {
+    const handler = createProxyHandler(testConfig({
+      accessLog: { format: "combined" },
+      fetch: recordingFetch().fetch,
+    }));
+    const logs = captureLogs();
+    try {
+      await (await handler(
+        new Request("http://proxy.local/evil.example.com/", {
+          headers: { "x-request-id": "req-9" },
+        }),
+        tcpInfo("203.0.113.7"),
+      )).text();
+    } finally {
+      logs.restore();
+    }
+    assertMatch(
+      logs.lines[0],
+      /^203\.0\.113\.7 - - \[.+\] "GET \/evil\.example\.com\/ HTTP\/1\.1" 403 \d+ "-" "-" "req-9" \d+ -$/,
+    );
+  });
+});
+
+Deno.test("WebSocket proxying", async (t) => {
+  const handshake = {
+    upgrade: "websocket",
+    connection: "Upgrade",
+    "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+    "sec-websocket-version": "13",
+  };
+  const event = <T extends Event>(socket: WebSocket, type: string) =>
+    new Promise<T>((resolve) =>
+      socket.addEventListener(type, (e) => resolve(e as T), { once: true })
+    );
+
+  // Serves `handler` on a random local port and connects a client to
+  // `path` through it.
+  const connectThrough = async (
+    handler: ReturnType<typeof createProxyHandler>,
+    path: string,
+    protocols?: string[],
+  ) => {
+    const server = Deno.serve(
+      { hostname: "127.0.0.1", port: 0, onListen() {} },
+      handler,
+    );
+    const socket = new WebSocket(
+      `ws://127.0.0.1:${server.addr.port}${path}`,
+      protocols,
+    );
+    socket.binaryType = "arraybuffer";
+    await event(socket, "open");
+    return { socket, server };
+  };
+
+  await t.step("relays frames and handshake headers", async () => {
+    const upstream = startWebSocketUpstream();
+    const handler = createProxyHandler(testConfig({
+      hosts: [{
+        host: "api.example.com",
+        credentials: [{ header: "authorization", value: "sk-test" }],
+      }],
+      metrics: {},
+      connectWebSocket: upstream.connect,
+    }));
+    const { socket, server } = await connectThrough(
+      handler,
+      "/api.example.com/v1/realtime?model=m",
+      ["chat"],
+    );
+    assertEquals(socket.protocol, "chat");
+
+    socket.send("hello");
+    assertEquals((await event<MessageEvent>(socket, "message")).data, "hello");
+    socket.send(new Uint8Array([1, 2, 3]));
+    assertEquals(
+      new Uint8Array((await event<MessageEvent>(socket, "message")).data),
+      new Uint8Array([1, 2, 3]),
+    );
+
+    const closed = event(socket, "close");
+    socket.close(4000, "done");
+    assertEquals(await upstream.closes[0], [4000, "done"]);
+    await closed;
+    await server.shutdown();
+    await upstream.close();
+
+    const [sent] = upstream.requests;
+    assertEquals(new URL(sent.url).pathname, "/v1/realtime");
+    assertEquals(new URL(sent.url).search, "?model=m");
+    assertEquals(sent.headers.get("authorization"), "sk-test");
+    assertEquals(sent.headers.get("x-forwarded-for"), "127.0.0.1");
+    assert(sent.headers.get("x-request-id"));
+
+    const scrape = await handler(
+      new Request("http://proxy.local/_proxy/metrics"),
+      tcpInfo(),
+    );
+    const text = await scrape.text();
+    assertStringIncludes(
+      text,
+      'proxy_requests_total{host="api.example.com",outcome="websocket",status_class="1xx"} 1',
+    );
+    assertStringIncludes(
+      text,
+      'proxy_request_bytes_total{host="api.example.com"} 8',
+    );
+  });
+
+  await t.step("logs the timeout that closed a socket", async () => {
+    const upstream = startWebSocketUpstream();
+    const handler = createProxyHandler(testConfig({
+      idleTimeoutMs: 50,
+      connectWebSocket: upstream.connect,
+    }));
+    const lines: string[] = [];
+    const warn = console.warn;
+    console.warn = (line: string) => lines.push(line);
+    try {
+      const { socket, server } = await connectThrough(
+        handler,
+        "/api.example.com/ws",
+      );
+      const closed = await event<CloseEvent>(socket, "close");
+      assertEquals(closed.reason, "Idle timeout");
+      await upstream.closes[0];
+      await server.shutdown();
+      await upstream.close();
+    } finally {
+      console.warn = warn;
+    }
+    const entry = lines.map((line) => JSON.parse(line))
+      .find((fields) => fields.message === "WebSocket timed out");
+    assertEquals(entry?.phase, "idle");
+    assertEquals(entry?.timeoutMs, 50);
+  });
+
+  await t.step("passes upstream closes on to the client", async () => {
+    const upstream = startWebSocketUpstream();
+    const handler = createProxyHandler(
+      testConfig({ connectWebSocket: upstream.connect }),
+    );
+    const { socket, server } = await connectThrough(
+      handler,
+      "/api.example.com/ws",
+    );
+    socket.send("close 4001 server done");
+    const closed = await event<CloseEvent>(socket, "close");
+    assertEquals([closed.code, closed.reason], [4001, "server done"]);
+    await upstream.closes[0];
+    await server.shutdown();
+    await upstream.close();
+  });
+
+  await t.step("applies the whitelist before connecting", async () => {
+    const upstream = startWebSocketUpstream();
+    const handler = createProxyHandler(
+      testConfig({ connectWebSocket: upstream.connect }),
+    );
+    const response = await handler(
+      new Request("http://proxy.local/evil.example.org/ws", {
+        headers: handshake,
+      }),
+      tcpInfo(),
+    );
+    assertEquals(response.status, 403);
+    await response.body?.cancel();
+    assertEquals(upstream.requests.length, 0);
+    await upstream.close();
+  });
+
+  await t.step("answers failed upstream handshakes with 502", async () => {
+    const handler = createProxyHandler(testConfig({
+      // Nothing listens on port 1.
+      connectWebSocket: (_url, options) =>
+        new WebSocket("ws://127.0.0.1:1/", options),
+    }));
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/ws", {
+        headers: handshake,
+      }),
+      tcpInfo(),
+    );
+    assertEquals(response.status, 502);
+    assertStringIncludes(await response.text(), "Could not open a WebSocket");
+  });
+
+  await t.step("answers failed target lookups with 502", async () => {
+    const handler = createProxyHandler(testConfig({
+      metrics: {},
+      resolveHost: () => Promise.reject(new Error("NXDOMAIN")),
+      connectWebSocket: () => {
+        throw new Error("must not connect");
+      },
+    }));
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/ws", {
+        headers: handshake,
+      }),
+      tcpInfo(),
+    );
+    assertEquals(response.status, 502);
+    assertStringIncludes(await response.text(), "Could not reach target host");
+
+    const scrape = await handler(
+      new Request("http://proxy.local/_proxy/metrics"),
+      tcpInfo(),
+    );
+    assertStringIncludes(
+      await scrape.text(),
+      'proxy_requests_total{host="api.example.com",outcome="bad_gateway",status_class="5xx"} 1\n',
+    );
+  });
+
+  await t.step("rejects incomplete handshakes", async () => {
+    const handler = createProxyHandler(testConfig());
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/ws", {
+        headers: { upgrade: "websocket" },
+      }),
+      tcpInfo(),
+    );
+    assertEquals(response.status, 400);
+    await response.body?.cancel();
+  });
+});
+
+Deno.test("retries and circuit breaker", async (t) => {
+  const connectError = () =>
+    new TypeError(
+      "error sending request: client error (Connect): tcp connect error",
+    );
+
+  await t.step("retries idempotent requests until one succeeds", async () => {
+    let calls = 0;
+    const upstream = recordingFetch(() => {
+      calls++;
+      if (calls === 1) throw new TypeError("connection reset");
+      if (calls === 2) {
+        return new Response("busy", {
+          status: 503,
+          headers: { "retry-after": "0" },
+        });
+      }
+      return new Response("ok");
+    });
+    const handler = createProxyHandler(testConfig({
+      retry: { attempts: 2, baseDelayMs: 1 },
+      metrics: {},
+      fetch: upstream.fetch,
+    }));
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/x"),
+      tcpInfo(),
+    );
+    assertEquals(response.status, 200);
+    assertEquals(await response.text(), "ok");
+    assertEquals(upstream.requests.length, 3);
+
+    const scrape = await handler(
+      new Request("http://proxy.local/_proxy/metrics"),
+      tcpInfo(),
+    );
+    assertStringIncludes(
+      await scrape.text(),
+      'proxy_upstream_retries_total{host="api.example.com"} 2',
+    );
+  });
+
+  await t.step("resends bodies only after connect errors", async () => {
+    for (
+      const [error, sent] of [[connectError, 2], [
+        () => new TypeError("reset"),
+        1,
+      ]] as const
+    ) {
+      let calls = 0;
+      const upstream = recordingFetch(() => {
+        if (calls++ === 0) throw error();
+        return new Response("ok");
+      });
+      const handler = createProxyHandler(testConfig({
+        retry: { attempts: 1, baseDelayMs: 1 },
+        fetch: upstream.fetch,
+      }));
+      const response = await handler(
+        new Request("http://proxy.local/api.example.com/x", {
+          method: "POST",
+          body: "payload",
+        }),
+        tcpInfo(),
+      );
+      await response.body?.cancel();
+      assertEquals(upstream.requests.length, sent);
+      assertEquals(response.status, sent === 2 ? 200 : 502);
+      assertEquals(upstream.requests.at(-1)!.body, "payload");
+    }
+  });
+
+  await t.step("passes on a Retry-After longer than allowed", async () => {
+    const upstream = recordingFetch(() =>
+      new Response("later", { status: 429, headers: { "retry-after": "60" } })
+    );
+    const handler = createProxyHandler(testConfig({
+      retry: { attempts: 3, maxDelayMs: 1000 },
+      fetch: upstream.fetch,
+    }));
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/x"),
+      tcpInfo(),
+    );
+    assertEquals(response.status, 429);
+    assertEquals(await response.text(), "later");
+    assertEquals(upstream.requests.length, 1);
+  });
+
+  await t.step("fails fast while a host's circuit is open", async () => {
+    const upstream = recordingFetch(() => {
+      throw connectError();
+    });
+    const handler = createProxyHandler(testConfig({
+      circuitBreaker: { failureThreshold: 2, resetMs: 60000 },
+      fetch: upstream.fetch,
+    }));
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      const response = await handler(
+        new Request("http://proxy.local/api.example.com/x"),
+        tcpInfo(),
+      );
+      statuses.push(response.status);
+      if (i === 2) {
+        assertEquals(response.headers.get("retry-after"), "60");
+        assertStringIncludes(await response.text(), "Service Unavailable");
+      } else {
+        await response.body?.cancel();
+      }
+    }
+    assertEquals(statuses, [502, 502, 503]);
+    assertEquals(upstream.requests.length, 2);
+  });
+});
+
+Deno.test("upstream aliases", async (t) => {
+  await t.step("routes names to backend base URLs", async () => {
+    const upstream = recordingFetch();
+    const handler = createProxyHandler(testConfig({
+      upstreams: [{
+        name: "openai",
+        backends: ["https://llm.example.com:8443/v1"],
+        credentials: [{ header: "authorization", value: "Bearer secret" }],
+      }],
+      fetch: upstream.fetch,
+    }));
+    for (const path of ["/openai/chat?stream=1", "/api.example.com/x"]) {
+      const response = await handler(
+        new Request(`http://proxy.local${path}`),
+        tcpInfo(),
+      );
+      assertEquals(response.status, 200);
+      await response.body?.cancel();
+    }
+    assertEquals(upstream.requests.map((request) => request.url), [
+      "https://llm.example.com:8443/v1/chat?stream=1",
+      "https://api.example.com/x",
+    ]);
+    assertEquals(
+      upstream.requests[0].headers.get("authorization"),
+      "Bearer secret",
+    );
+  });
+
+  await t.step("takes turns and fails over between backends", async () => {
+    const backends = ["https://a.example.com", "https://b.example.com"];
+    const upstream = recordingFetch((request) => {
+      if (request.url === "https://a.example.com/fail") {
+        throw new TypeError("client error (Connect): tcp connect error");
+      }
+      return new Response("ok");
+    });
+    const handler = createProxyHandler(testConfig({
+      upstreams: [
+        { name: "rr", backends },
+        { name: "failover", backends, balance: "priority" },
+      ],
+      retry: { attempts: 1, baseDelayMs: 1 },
+      fetch: upstream.fetch,
+    }));
+    const send = async (path: string) => {
+      const response = await handler(
+        new Request(`http://proxy.local${path}`, {
+          method: "POST",
+          body: "payload",
+        }),
+        tcpInfo(),
+      );
+      await response.body?.cancel();
+      return response.status;
+    };
+
+    assertEquals(await send("/failover/fail"), 200);
+    assertEquals(upstream.requests.map((request) => request.url), [
+      "https://a.example.com/fail",
+      "https://b.example.com/fail",
+    ]);
+    assertEquals(upstream.requests[1].body, "payload");
+
+    upstream.requests.length = 0;
+    for (let i = 0; i < 3; i++) await send("/rr/x");
+    assertEquals(
+      upstream.requests.map((request) => new URL(request.url).host),
+      ["a.example.com", "b.example.com", "a.example.com"],
+    );
+  });
+
+  await t.step("avoids backends failing their health check", async () => {
+    const upstream = recordingFetch((request) =>
+      new Response("ok", {
+        status: request.url === "https://a.example.com/health" ? 503 : 200,
+      })
+    );
+    const handler = createProxyHandler(testConfig({
+      upstreams: [{
+        name: "svc",
+        backends: ["https://a.example.com", "https://b.example.com"],
+        balance: "priority",
+        healthCheck: { path: "/health", intervalMs: 60000 },
+      }],
+      metrics: {},
+      fetch: upstream.fetch,
+    }));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const response = await handler(
+      new Request("http://proxy.local/svc/x"),
+      tcpInfo(),
+    );
+    await response.body?.cancel();
+    assertEquals(upstream.requests.at(-1)!.url, "https://b.example.com/x");
+
+    const scrape = await handler(
+      new Request("http://proxy.local/_proxy/metrics"),
+      tcpInfo(),
+    );
+    assertStringIncludes(
+      await scrape.text(),
+      'proxy_backend_up{backend="https://a.example.com/",upstream="svc"} 0',
+    );
+    await handler.close();
+  });
+});
+
+Deno.test("body size limits", async (t) => {
+  await t.step("rejects requests declaring too large a body", async () => {
+    const upstream = recordingFetch();
+    const handler = createProxyHandler(testConfig({
+      hosts: [{ host: "api.example.com", maxRequestBytes: 4 }],
+      fetch: upstream.fetch,
+    }));
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/upload", {
+        method: "POST",
+        body: "payload",
+        headers: { "content-length": "7" },
+      }),
+      tcpInfo(),
+    );
+    assertEquals(response.status, 413);
+    assertStringIncludes(await response.text(), "exceeds 4 bytes");
+    assertEquals(upstream.requests.length, 0);
+  });
+
+  await t.step("counts streamed request bodies", async () => {
+    const handler = createProxyHandler(testConfig({
+      maxRequestBytes: 2,
+      retry: { attempts: 3, baseDelayMs: 1 },
+      fetch: recordingFetch().fetch,
+    }));
+    const response = await handler(
+      new Request("http://proxy.local/api.example.com/upload", {
+        method: "POST",
+        body: trickle(["ab", "cd"], 1),
+      }),
+      tcpInfo(),
+    );
+    assertEquals(response.status, 413);
+    await response.body?.cancel();
+  });
+
+  await t.step("refuses or cuts off too large responses", async () => {
+    const handler = createProxyHandler(testConfig({
+      maxResponseBytes: 4,
+      fetch: recordingFetch((request) =>
+        request.url.endsWith("/declared")
+          ? new Response("hello world", {
+            headers: { "content-length": "11" },
+          })
+          : new Response(trickle(["abc", "def"], 1))
+      ).fetch,
+    }));
+    const get = (path: string) =>
+      handler(
+        new Request(`http://proxy.local/api.example.com${path}`),
+        tcpInfo(),
+      );
+
+    const declared = await get("/declared");
+    assertEquals(declared.status, 502);
+    assertStringIncludes(await declared.text(), "exceeds 4 bytes");
+
+    const streamed = await get("/streamed");
+    assertEquals(streamed.status, 200);
+    const error = await streamed.text().then(() => undefined, (e) => e);
+    assertStringIncludes(String(error), "exceeds the limit of 4 bytes");
+  });
+});
@@ -0,0 +1,157 @@
+// ===================================================================
+// HEADER POLICY (Hop-by-hop stripping and configurable header edits)
+// ===================================================================
+import {
+  type HeaderPolicy,
+  type HeaderRules,
+  type HostConfig,
+  PROXY_VERSION,
+  type ProxyConfig,
+} from "./config.ts";
+
+/**
+ * Headers that describe a single connection and are never forwarded, in
+ * either direction. Names listed in a message's `Connection` header are
+ * treated the same way.
+ */
+export const HOP_BY_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "te",
+  "trailers",
+  "transfer-encoding",
+  "upgrade",
+];
+
+/**
+ * Edits applied before the configured ones. Hosts let removed headers
+ * through with {@link HeaderRules.keep}, and undo the rest with their own
+ * rules.
+ */
+export const DEFAULT_HEADER_POLICY: HeaderPolicy = {
+  response: {
+    remove: [
+      "set-cookie",
+      "proxy-authenticate",
+      "www-authenticate",
+      "server",
+      "x-powered-by",
+      "x-frame-options",
+      "x-content-type-options",
+    ],
+    set: { "x-proxied-by": "deno-proxy/{version}" },
+  },
+};
+
+/** The placeholders header values may use, such as `{requestId}`. */
+export const HEADER_TEMPLATE_VARIABLES = [
+  "clientId",
+  "clientIp",
+  "requestId",
+  "targetHost",
+  "version",
+] as const;
+
+/** Values for the {@link HEADER_TEMPLATE_VARIABLES} of one request. */
+export type HeaderTemplateValues = Record<
+  Exclude<typeof HEADER_TEMPLATE_VARIABLES[number], "version">,
+  string
+>;
+
+const PLACEHOLDER = /\{([A-Za-z]+)\}/g;
+
+/** The placeholders in `value` that are not template variables. */
+export function unknownPlaceholders(value: string): string[] {
+  return [...value.matchAll(PLACEHOLDER)]
+    .map(([, name]) => name)
+    .filter((name) =>
+      !(HEADER_TEMPLATE_VARIABLES as readonly string[]).includes(name)
+    );
+}
+
+/** Fills the placeholders in `template`; unknown ones are left as written. */
+export function expandHeaderTemplate(
+  template: string,
+  values: HeaderTemplateValues,
+): string {
+  const all: Record<string, string> = { ...values, version: PROXY_VERSION };
+  return template.replace(PLACEHOLDER, (match, name) => all[name] ?? match);
+}
+
+/**
+ * Removes the {@link HOP_BY_HOP_HEADERS} and any header named in the
+ * `Connection` header.
+ */
+export function stripHopByHop(headers: Headers): void {
+  const listed = headers.get("connection")?.split(",") ?? [];
+  for (const name of [...HOP_BY_HOP_HEADERS, ...listed]) {
+    const trimmed = name.trim();
+    if (trimmed) headers.delete(trimmed);
+  }
+}
+
+/** The header edits for one direction, in the order they apply. */
+export interface CompiledHeaderRules {
+  request: HeaderRules[];
+  response: HeaderRules[];
+}
+
+/**
+ * Layers the default policy, the top-level rules and the host's rules.
+ * Headers kept by either of the latter, and `Set-Cookie` for hosts that
+ * rewrite cookies, are dropped from the defaults' removals.
+ */
+export function compileHeaderRules(
+  config: ProxyConfig,
+  host: HostConfig,
+): CompiledHeaderRules {
+  const layer = (direction: keyof HeaderPolicy) => {
+    const configured = [config.headers, host.headers]
+      .map((policy) => policy?.[direction])
+      .filter((rules): rules is HeaderRules => rules !== undefined);
+    const keep = new Set(configured.flatMap((rules) => rules.keep ?? []));
+    if (host.cookies === "rewrite") keep.add("set-cookie");
+    const defaults = DEFAULT_HEADER_POLICY[direction];
+    if (!defaults) return configured;
+    return [
+      {
+        ...defaults,
+        remove: defaults.remove?.filter((name) => !keep.has(name)),
+      },
+      ...configured,
+    ];
+  };
+  return { request: layer("request"), response: layer("response") };
+}
+
+/**
+ * Applies each of `layers` in turn: removals, then renames, then set
+ * values, then added ones. Values may use template placeholders.
+ */
+export function applyHeaderRules(
+  headers: Headers,
+  layers: HeaderRules[],
+  values: HeaderTemplateValues,
+): void {
+  for (const rules of layers) {
+    rules.remove?.forEach((name) => headers.delete(name));
+    for (const [from, to] of Object.entries(rules.rename ?? {})) {
+      // Set-Cookie values cannot be joined into one line.
+      const moved = from === "set-cookie"
+        ? headers.getSetCookie()
+        : [headers.get(from)].filter((value) => value !== null);
+      if (!moved.length) continue;
+      headers.delete(from);
+      headers.delete(to);
+      moved.forEach((value) => headers.append(to, value));
+    }
+    for (const [name, value] of Object.entries(rules.set ?? {})) {
+      headers.set(name, expandHeaderTemplate(value, values));
+    }
+    for (const [name, value] of Object.entries(rules.add ?? {})) {
+      headers.append(name, expandHeaderTemplate(value, values));
+    }
+  }
+}
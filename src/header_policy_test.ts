@@ -0,0 +1,72 @@
+import { assertEquals } from "@std/assert";
+import {
+  applyHeaderRules,
+  compileHeaderRules,
+  expandHeaderTemplate,
+  stripHopByHop,
+  unknownPlaceholders,
+} from "./header_policy.ts";
+import { testConfig } from "./test_helpers.ts";
+
+const values = {
+  clientId: "key:web",
+  clientIp: "203.0.113.9",
+  requestId: "req-1",
+  targetHost: "a.test",
+};
+
+Deno.test("expandHeaderTemplate", () => {
+  assertEquals(
+    expandHeaderTemplate("{clientId} via deno-proxy/{version}", values),
+    "key:web via deno-proxy/2.5",
+  );
+  assertEquals(expandHeaderTemplate("{other}", values), "{other}");
+  assertEquals(unknownPlaceholders("{requestId}-{user}-{x}"), ["user", "x"]);
+});
+
+Deno.test("stripHopByHop removes the headers Connection names", () => {
+  const headers = new Headers({
+    connection: "close, X-Private",
+    "x-private": "1",
+    "transfer-encoding": "chunked",
+    "x-kept": "1",
+  });
+  stripHopByHop(headers);
+  assertEquals([...headers], [["x-kept", "1"]]);
+});
+
+Deno.test("compileHeaderRules", async (t) => {
+  await t.step("starts with the default policy", () => {
+    const rules = compileHeaderRules(testConfig(), { host: "a.test" });
+    assertEquals(rules.request, []);
+    assertEquals(rules.response.length, 1);
+    assertEquals(rules.response[0].set, {
+      "x-proxied-by": "deno-proxy/{version}",
+    });
+  });
+
+  await t.step("lets kept headers through", () => {
+    const rules = compileHeaderRules(
+      testConfig({ headers: { response: { keep: ["server"] } } }),
+      { host: "a.test", headers: { response: { keep: ["set-cookie"] } } },
+    );
+    const headers = new Headers([
+      ["server", "nginx"],
+      ["set-cookie", "a=1"],
+      ["x-powered-by", "php"],
+    ]);
+    applyHeaderRules(headers, rules.response, values);
+    assertEquals(headers.get("server"), "nginx");
+    assertEquals(headers.get("set-cookie"), "a=1");
+    assertEquals(headers.get("x-powered-by"), null);
+  });
+});
+
+Deno.test("applyHeaderRules applies each layer in order", () => {
+  const headers = new Headers({ a: "1", b: "2", c: "3" });
+  applyHeaderRules(headers, [
+    { remove: ["a"], rename: { b: "a" }, set: { c: "{requestId}" } },
+    { add: { c: "{clientIp}" }, rename: { missing: "d" } },
+  ], values);
+  assertEquals([...headers], [["a", "2"], ["c", "req-1, 203.0.113.9"]]);
+});
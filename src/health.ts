@@ -0,0 +1,133 @@
+// ===================================================================
+// HEALTH & READINESS (Reserved endpoints for orchestrators)
+// ===================================================================
+import { PROXY_VERSION, type ReadinessCheck } from "./config.ts";
+
+/** Default for {@link ReadinessCheck.timeoutMs}. */
+export const DEFAULT_READINESS_TIMEOUT_MS = 5000;
+
+/**
+ * How long readiness results are reused. Probes are unauthenticated and
+ * not rate limited, so they must not turn into upstream traffic 1:1.
+ */
+export const READINESS_CHECK_INTERVAL_MS = 5000;
+
+/** Outcome of one {@link ReadinessCheck}. */
+export interface CheckResult {
+  name: string;
+  ok: boolean;
+  /** Upstream status, when a response arrived. */
+  status?: number;
+  latencyMs: number;
+  error?: string;
+}
+
+/** What the health endpoints report about the handler. */
+export interface HealthStatus {
+  /** Milliseconds since the handler was created. */
+  uptimeMs: number;
+  /** Config generation, see `ProxyHandler.generation`. */
+  generation: number;
+}
+
+/** Runs `check` once, treating any response below 500 as reachable. */
+export async function runCheck(
+  check: ReadinessCheck,
+  upstreamFetch: typeof fetch,
+): Promise<CheckResult> {
+  const name = check.name ?? new URL(check.url).host;
+  const started = performance.now();
+  const latencyMs = () => Math.round(performance.now() - started);
+  try {
+    const response = await upstreamFetch(check.url, {
+      redirect: "manual",
+      signal: AbortSignal.timeout(
+        check.timeoutMs ?? DEFAULT_READINESS_TIMEOUT_MS,
+      ),
+    });
+    await response.body?.cancel();
+    return {
+      name,
+      ok: response.status < 500,
+      status: response.status,
+      latencyMs: latencyMs(),
+    };
+  } catch (error) {
+    return {
+      name,
+      ok: false,
+      latencyMs: latencyMs(),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Returns a function running all `checks` concurrently. Results are shared
+ * by callers for {@link READINESS_CHECK_INTERVAL_MS}.
+ */
+export function createReadinessProbe(
+  checks: ReadinessCheck[],
+  upstreamFetch: typeof fetch,
+  intervalMs = READINESS_CHECK_INTERVAL_MS,
+): () => Promise<CheckResult[]> {
+  let last: { at: number; results: Promise<CheckResult[]> } | undefined;
+  return () => {
+    const now = Date.now();
+    if (!last || now - last.at >= intervalMs) {
+      last = {
+        at: now,
+        results: Promise.all(
+          checks.map((check) => runCheck(check, upstreamFetch)),
+        ),
+      };
+    }
+    return last.results;
+  };
+}
+
+function json(body: unknown, status: number, head: boolean): Response {
+  return new Response(head ? null : JSON.stringify(body), {
+    status,
+    headers: {
+      "content-type": "application/json",
+      "cache-control": "no-store",
+    },
+  });
+}
+
+function report(status: string, health: HealthStatus) {
+  return {
+    status,
+    version: PROXY_VERSION,
+    denoVersion: Deno.version.deno,
+    uptimeSeconds: Math.floor(health.uptimeMs / 1000),
+    generation: health.generation,
+  };
+}
+
+/** Liveness: the process is up and serving. Always `200`. */
+export function healthResponse(
+  request: Request,
+  health: HealthStatus,
+): Response {
+  return json(report("ok", health), 200, request.method === "HEAD");
+}
+
+/**
+ * Readiness: `200` when every upstream check passes, `503` with the
+ * failing checks otherwise.
+ */
+export async function readyResponse(
+  request: Request,
+  health: HealthStatus,
+  probe: () => Promise<CheckResult[]>,
+): Promise<Response> {
+  const checks = await probe();
+  const ready = checks.every((check) => check.ok);
+  return json(
+    { ...report(ready ? "ready" : "unavailable", health), checks },
+    ready ? 200 : 503,
+    request.method === "HEAD",
+  );
+}
@@ -0,0 +1,44 @@
+import { assertEquals } from "@std/assert";
+import { createReadinessProbe, runCheck } from "./health.ts";
+import { recordingFetch } from "./test_helpers.ts";
+
+Deno.test("runCheck", async (t) => {
+  await t.step("treats responses below 500 as reachable", async () => {
+    const upstream = recordingFetch(() =>
+      new Response("nope", { status: 404 })
+    );
+    const result = await runCheck(
+      { url: "https://api.example.com/up" },
+      upstream.fetch,
+    );
+    assertEquals(result.name, "api.example.com");
+    assertEquals(result.ok, true);
+    assertEquals(result.status, 404);
+  });
+
+  await t.step("reports errors", async () => {
+    const failing = () => Promise.reject(new TypeError("connection refused"));
+    const result = await runCheck(
+      { name: "api", url: "https://api.example.com/up" },
+      failing as typeof fetch,
+    );
+    assertEquals(result.ok, false);
+    assertEquals(result.error, "connection refused");
+  });
+});
+
+Deno.test("createReadinessProbe reuses results within the interval", async () => {
+  const upstream = recordingFetch();
+  const checks = [{ url: "https://a.example.com/" }, {
+    url: "https://b.example.com/",
+  }];
+  const probe = createReadinessProbe(checks, upstream.fetch, 60000);
+  assertEquals((await probe()).map((r) => r.ok), [true, true]);
+  await probe();
+  assertEquals(upstream.requests.length, 2);
+
+  const uncached = createReadinessProbe(checks, upstream.fetch, 0);
+  await uncached();
+  await uncached();
+  assertEquals(upstream.requests.length, 6);
+});
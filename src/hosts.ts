@@ -0,0 +1,96 @@
+// ===================================================================
+// HOST MATCHING & VALIDATION
+// ===================================================================
+
+/** Maximum number of `*` wildcards accepted in a single host pattern. */
+export const MAX_PATTERN_WILDCARDS = 3;
+
+/**
+ * Compiles a whitelist pattern such as `*.github.com` into a RegExp.
+ *
+ * A `*` matches exactly one hostname label. Patterns are limited to
+ * {@link MAX_PATTERN_WILDCARDS} wildcards to prevent ReDoS.
+ */
+export function patternToRegExp(pattern: string): RegExp {
+  const wildcardCount = (pattern.match(/\*/g) || []).length;
+  if (wildcardCount > MAX_PATTERN_WILDCARDS) {
+    throw new Error(
+      `Pattern "${pattern}" has too many wildcards (max ${MAX_PATTERN_WILDCARDS})`,
+    );
+  }
+  const regexString = pattern
+    .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, "[^.]+");
+  return new RegExp(`^${regexString}$`, "i"); // Case-insensitive for better compatibility
+}
+
+// --- Enhanced Hostname Validation (Deno 2.5+ with Unicode support) ---
+export const IS_VALID_HOSTNAME = new RegExp(
+  "^(([a-zA-Z0-9\\u00a1-\\uffff]|[a-zA-Z0-9\\u00a1-\\uffff][a-zA-Z0-9\\u00a1-\\uffff-]*[a-zA-Z0-9\\u00a1-\\uffff])\\.)*" +
+    "([A-Za-z0-9\\u00a1-\\uffff]|[A-Za-z0-9\\u00a1-\\uffff][A-Za-z0-9\\u00a1-\\uffff-]*[A-Za-z0-9\\u00a1-\\uffff])$",
+);
+
+/**
+ * A whitelist entry split into its parts. Entries are host patterns with
+ * an optional scheme and port, e.g. `api.example.com`, `*.github.com` or
+ * `http://localhost:9000`.
+ */
+export interface HostSpec {
+  /** `https:` unless the entry names `http://`. */
+  protocol: "http:" | "https:";
+  /** Host pattern, see {@link patternToRegExp}. */
+  pattern: string;
+  /** The entry's port, or the scheme's default one. */
+  port: number;
+}
+
+/** The default port of `protocol` (`http:` or `https:`). */
+export function defaultPort(protocol: string): number {
+  return protocol === "http:" ? 80 : 443;
+}
+
+function parsePort(value: string): number | undefined {
+  const port = Number(value);
+  return /^\d{1,5}$/.test(value) && port >= 1 && port <= 65535
+    ? port
+    : undefined;
+}
+
+/** Splits a whitelist entry, throwing on unsupported schemes or ports. */
+export function parseHostSpec(entry: string): HostSpec {
+  const match = entry.match(/^(?:([a-z]+):\/\/)?([^:/]+)(?::([^/]*))?$/i);
+  const scheme = match?.[1]?.toLowerCase() ?? "https";
+  if (!match || (scheme !== "http" && scheme !== "https")) {
+    throw new Error(
+      `Host entry "${entry}" must be a host pattern, optionally with an http:// or https:// scheme and a port`,
+    );
+  }
+  const protocol = `${scheme}:` as HostSpec["protocol"];
+  const [, , pattern, portText] = match;
+  const port = portText === undefined
+    ? defaultPort(protocol)
+    : parsePort(portText);
+  if (port === undefined) {
+    throw new Error(`Host entry "${entry}" has an invalid port`);
+  }
+  return { protocol, pattern, port };
+}
+
+/** A target named by a path segment: a hostname with an optional port. */
+export interface Target {
+  hostname: string;
+  port?: number;
+}
+
+/**
+ * Parses the target host segment of a request path, such as
+ * `api.example.com` or `localhost:9000`. Returns `undefined` when it is
+ * not a valid hostname with an optional port.
+ */
+export function parseTarget(segment: string): Target | undefined {
+  const [, hostname, port] = segment.match(/^([^:]+)(?::([^:]*))?$/) ?? [];
+  if (!hostname || !IS_VALID_HOSTNAME.test(hostname)) return undefined;
+  if (port === undefined) return { hostname };
+  const number = parsePort(port);
+  return number === undefined ? undefined : { hostname, port: number };
+}
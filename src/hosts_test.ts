@@ -0,0 +1,42 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { parseHostSpec, parseTarget, patternToRegExp } from "./hosts.ts";
+
+Deno.test("patternToRegExp matches one label per wildcard", () => {
+  const regex = patternToRegExp("*.github.com");
+  assertEquals(regex.test("api.github.com"), true);
+  assertEquals(regex.test("a.b.github.com"), false);
+  assertThrows(() => patternToRegExp("*.*.*.*.com"), Error, "wildcards");
+});
+
+Deno.test("parseHostSpec", () => {
+  assertEquals(parseHostSpec("api.example.com"), {
+    protocol: "https:",
+    pattern: "api.example.com",
+    port: 443,
+  });
+  assertEquals(parseHostSpec("HTTP://localhost:9000"), {
+    protocol: "http:",
+    pattern: "localhost",
+    port: 9000,
+  });
+  assertEquals(parseHostSpec("*.internal:8443").port, 8443);
+  assertEquals(parseHostSpec("http://*.test").port, 80);
+  assertThrows(() => parseHostSpec("ftp://a.test"), Error, "scheme");
+  assertThrows(() => parseHostSpec("https://a.test/v1"), Error, "scheme");
+  assertThrows(() => parseHostSpec("a.test:0"), Error, "invalid port");
+  assertThrows(() => parseHostSpec("a.test:99999"), Error, "invalid port");
+});
+
+Deno.test("parseTarget", () => {
+  assertEquals(parseTarget("api.example.com"), {
+    hostname: "api.example.com",
+  });
+  assertEquals(parseTarget("localhost:9000"), {
+    hostname: "localhost",
+    port: 9000,
+  });
+  assertEquals(parseTarget("localhost:"), undefined);
+  assertEquals(parseTarget("localhost:http"), undefined);
+  assertEquals(parseTarget("a..b"), undefined);
+  assertEquals(parseTarget("a:1:2"), undefined);
+});
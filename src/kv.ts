@@ -0,0 +1,59 @@
+// ===================================================================
+// DENO KV CONNECTIONS
+// ===================================================================
+import type { KvLocation } from "./config.ts";
+
+/** A Deno KV database that is opened on first use. */
+export interface LazyKv {
+  /** Resolves the database, opening it on the first call. */
+  get(): Promise<Deno.Kv>;
+  /**
+   * Closes the database if it was opened here; a passed-in one is left open.
+   * Later {@link LazyKv.get} calls reject instead of opening it again.
+   */
+  close(): void;
+}
+
+/**
+ * Wraps an open `Deno.Kv`, or a {@link KvLocation} whose database is opened
+ * lazily, so constructors can stay synchronous.
+ */
+export function lazyKv(source: Deno.Kv | KvLocation): LazyKv {
+  const owned = !("atomic" in source);
+  let kv: Promise<Deno.Kv> | undefined = owned
+    ? undefined
+    : Promise.resolve(source as Deno.Kv);
+
+  let closed = false;
+
+  return {
+    get() {
+      if (closed) return Promise.reject(new Error("Deno KV store is closed"));
+      if (!kv) {
+        const opening = Deno.openKv((source as KvLocation).path);
+        kv = opening;
+        // A failed open is retried by the next call, not remembered.
+        opening.catch(() => {
+          if (kv === opening) kv = undefined;
+        });
+      }
+      return kv;
+    },
+    close() {
+      closed = true;
+      if (owned && kv) {
+        // A database that failed to open has nothing to close.
+        kv.then((db) => db.close(), () => {});
+        kv = undefined;
+      }
+    },
+  };
+}
+
+/** The key prefix configured in `source`, or `fallback`. */
+export function kvPrefix(
+  source: Deno.Kv | KvLocation,
+  fallback: string[],
+): string[] {
+  return ("prefix" in source ? source.prefix : undefined) ?? fallback;
+}
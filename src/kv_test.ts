@@ -0,0 +1,41 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { lazyKv } from "./kv.ts";
+
+Deno.test("lazyKv", async (t) => {
+  await t.step("rejects get() once closed instead of reopening", async () => {
+    const store = lazyKv({ path: ":memory:" });
+    await store.get();
+    store.close();
+    await assertRejects(() => store.get(), Error, "closed");
+  });
+
+  await t.step("retries a failed open on the next get()", async () => {
+    const openKv = Deno.openKv;
+    let calls = 0;
+    Deno.openKv = (path) => {
+      calls++;
+      return calls === 1
+        ? Promise.reject(new Error("database is locked"))
+        : openKv(path);
+    };
+    try {
+      const store = lazyKv({ path: ":memory:" });
+      await assertRejects(() => store.get(), Error, "locked");
+      const kv = await store.get();
+      assertEquals(calls, 2);
+      assertEquals(await store.get(), kv);
+      store.close();
+    } finally {
+      Deno.openKv = openKv;
+    }
+  });
+
+  await t.step("leaves a passed-in database open", async () => {
+    const kv = await Deno.openKv(":memory:");
+    const store = lazyKv(kv);
+    assertEquals(await store.get(), kv);
+    store.close();
+    await kv.set(["still"], "open");
+    kv.close();
+  });
+});
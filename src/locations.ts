@@ -0,0 +1,94 @@
+// ===================================================================
+// LOCATION REWRITING (Keeping redirects and links inside the proxy)
+// ===================================================================
+
+/**
+ * Maps an upstream URL to its path on the proxy, such as
+ * `/api.example.com/next`, or `undefined` when the proxy does not reach it.
+ */
+export type ProxyPathFor = (url: URL) => string | undefined;
+
+/**
+ * Resolves `value` against `base` and maps it to its proxy path. Values
+ * that are not URLs are returned as they are; off-site ones give
+ * `undefined`.
+ */
+export function rewriteUrl(
+  value: string,
+  base: URL,
+  proxyPathFor: ProxyPathFor,
+): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(value.trim(), base);
+  } catch {
+    return value;
+  }
+  return proxyPathFor(url);
+}
+
+/** Splits a `Link` header into its link-values. */
+function splitLinks(header: string): string[] {
+  const links: string[] = [];
+  let current = "";
+  let quoted = false;
+  let bracketed = false;
+  let escaped = false;
+  for (const char of header) {
+    if (escaped) {
+      escaped = false;
+    } else if (quoted && char === "\\") {
+      escaped = true;
+    } else if (char === '"' && !bracketed) {
+      quoted = !quoted;
+    } else if (!quoted && (char === "<" || char === ">")) {
+      bracketed = char === "<";
+    } else if (char === "," && !quoted && !bracketed) {
+      links.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  links.push(current.trim());
+  return links.filter(Boolean);
+}
+
+/**
+ * Rewrites the URLs in `Location`, `Content-Location` and `Link` to their
+ * proxy paths, resolving relative ones against `base`, the URL the response
+ * came from. Off-site URLs are left alone with `pass`. With `block`,
+ * `Content-Location` and links pointing off-site are removed, and an
+ * off-site `Location` is returned for the caller to refuse.
+ */
+export function rewriteLocations(
+  headers: Headers,
+  base: URL,
+  proxyPathFor: ProxyPathFor,
+  offsite: "pass" | "block",
+): string | undefined {
+  for (const name of ["location", "content-location"]) {
+    const value = headers.get(name);
+    if (value === null) continue;
+    const rewritten = rewriteUrl(value, base, proxyPathFor);
+    if (rewritten !== undefined) {
+      headers.set(name, rewritten);
+    } else if (offsite === "block") {
+      if (name === "location") return value;
+      headers.delete(name);
+    }
+  }
+
+  const link = headers.get("link");
+  if (link === null) return undefined;
+  const links = splitLinks(link).flatMap((value) => {
+    const [, target, params] = value.match(/^<([^>]*)>(.*)$/s) ?? [];
+    if (target === undefined) return [value];
+    const rewritten = rewriteUrl(target, base, proxyPathFor);
+    if (rewritten !== undefined) return [`<${rewritten}>${params}`];
+    return offsite === "block" ? [] : [value];
+  });
+  if (links.length) headers.set("link", links.join(", "));
+  else headers.delete("link");
+  return undefined;
+}
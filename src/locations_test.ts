@@ -0,0 +1,68 @@
+import { assertEquals } from "@std/assert";
+import { rewriteLocations, rewriteUrl } from "./locations.ts";
+
+const base = new URL("https://api.example.com/v1/items?page=1");
+const proxyPathFor = (url: URL) =>
+  url.hostname.endsWith("example.com")
+    ? `/${url.hostname}${url.pathname}${url.search}`
+    : undefined;
+
+Deno.test("rewriteUrl", () => {
+  assertEquals(
+    rewriteUrl("https://www.example.com/a?b=1", base, proxyPathFor),
+    "/www.example.com/a?b=1",
+  );
+  assertEquals(
+    rewriteUrl("next", base, proxyPathFor),
+    "/api.example.com/v1/next",
+  );
+  assertEquals(rewriteUrl("/top", base, proxyPathFor), "/api.example.com/top");
+  assertEquals(rewriteUrl("https://evil.test/", base, proxyPathFor), undefined);
+  assertEquals(rewriteUrl("http://[", base, proxyPathFor), "http://[");
+});
+
+Deno.test("rewriteLocations", async (t) => {
+  const headers = () =>
+    new Headers({
+      location: "https://evil.test/login",
+      "content-location": "https://evil.test/doc",
+      link:
+        '</v1/items?page=2>; rel="next", <https://evil.test/x>; title="a, b", ' +
+        "<https://www.example.com/>; rel=related",
+    });
+
+  await t.step("leaves off-site URLs alone with pass", () => {
+    const rewritten = headers();
+    assertEquals(
+      rewriteLocations(rewritten, base, proxyPathFor, "pass"),
+      undefined,
+    );
+    assertEquals(rewritten.get("location"), "https://evil.test/login");
+    assertEquals(rewritten.get("content-location"), "https://evil.test/doc");
+    assertEquals(
+      rewritten.get("link"),
+      '</api.example.com/v1/items?page=2>; rel="next", ' +
+        '<https://evil.test/x>; title="a, b", ' +
+        "</www.example.com/>; rel=related",
+    );
+  });
+
+  await t.step("removes or reports them with block", () => {
+    const rewritten = headers();
+    rewritten.delete("location");
+    assertEquals(
+      rewriteLocations(rewritten, base, proxyPathFor, "block"),
+      undefined,
+    );
+    assertEquals(rewritten.get("content-location"), null);
+    assertEquals(
+      rewritten.get("link"),
+      '</api.example.com/v1/items?page=2>; rel="next", ' +
+        "</www.example.com/>; rel=related",
+    );
+    assertEquals(
+      rewriteLocations(headers(), base, proxyPathFor, "block"),
+      "https://evil.test/login",
+    );
+  });
+});
@@ -0,0 +1,32 @@
+// ===================================================================
+// STRUCTURED LOGGING
+// ===================================================================
+
+/** Severity levels used in the structured JSON log lines. */
+export type LogLevel = "INFO" | "WARN" | "ERROR";
+
+/**
+ * Writes a single structured JSON log line.
+ *
+ * Every entry carries `level`, `timestamp` and `message`; any extra fields
+ * are merged in as-is so callers can attach request context.
+ */
+export function logEvent(
+  level: LogLevel,
+  message: string,
+  fields: Record<string, unknown> = {},
+): void {
+  const line = JSON.stringify({
+    level,
+    timestamp: new Date().toISOString(),
+    message,
+    ...fields,
+  });
+  if (level === "ERROR") {
+    console.error(line);
+  } else if (level === "WARN") {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
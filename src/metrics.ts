@@ -0,0 +1,332 @@
+// ===================================================================
+// METRICS (Prometheus text exposition)
+// ===================================================================
+
+/** Label names to values for one time series. */
+export type Labels = Record<string, string>;
+
+/** A monotonically increasing count. */
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+/** A value that can go up and down. */
+export interface Gauge {
+  set(labels: Labels, value: number): void;
+  inc(labels?: Labels, value?: number): void;
+  dec(labels?: Labels, value?: number): void;
+  /** Drops every series, for gauges sampling a set that can shrink. */
+  clear(): void;
+}
+
+/** Observations counted into cumulative buckets. */
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+}
+
+/** A set of metrics rendered together. */
+export interface MetricsRegistry {
+  counter(name: string, help: string): Counter;
+  /**
+   * Registers a gauge. `collect`, if given, runs before every render so the
+   * gauge can sample state it does not own (e.g. a map's size).
+   */
+  gauge(name: string, help: string, collect?: (gauge: Gauge) => void): Gauge;
+  histogram(name: string, help: string, buckets: number[]): Histogram;
+  /** All metrics in the Prometheus text exposition format (0.0.4). */
+  render(): string;
+}
+
+/** `Content-Type` of {@link MetricsRegistry.render} output. */
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(
+    /\n/g,
+    "\\n",
+  );
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+/** Creates an empty registry. */
+export function createMetricsRegistry(): MetricsRegistry {
+  const renderers: (() => string)[] = [];
+
+  const header = (name: string, help: string, type: string) =>
+    `# HELP ${name} ${help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}\n` +
+    `# TYPE ${name} ${type}\n`;
+
+  const series = (name: string, help: string, type: string) => {
+    const values = new Map<string, number>();
+    renderers.push(() =>
+      header(name, help, type) +
+      [...values].map(([labels, value]) =>
+        `${name}${labels} ${formatValue(value)}\n`
+      ).join("")
+    );
+    return values;
+  };
+
+  return {
+    counter(name, help) {
+      const values = series(name, help, "counter");
+      return {
+        inc(labels = {}, value = 1) {
+          const key = formatLabels(labels);
+          values.set(key, (values.get(key) ?? 0) + value);
+        },
+      };
+    },
+    gauge(name, help, collect) {
+      const values = series(name, help, "gauge");
+      const gauge: Gauge = {
+        set(labels, value) {
+          values.set(formatLabels(labels), value);
+        },
+        inc(labels = {}, value = 1) {
+          const key = formatLabels(labels);
+          values.set(key, (values.get(key) ?? 0) + value);
+        },
+        dec(labels = {}, value = 1) {
+          gauge.inc(labels, -value);
+        },
+        clear() {
+          values.clear();
+        },
+      };
+      if (collect) {
+        const render = renderers.pop()!;
+        renderers.push(() => {
+          collect(gauge);
+          return render();
+        });
+      }
+      return gauge;
+    },
+    histogram(name, help, buckets) {
+      const bounds = [...buckets].sort((a, b) => a - b);
+      const states = new Map<
+        string,
+        { labels: Labels; counts: number[]; sum: number; count: number }
+      >();
+      renderers.push(() => {
+        let text = header(name, help, "histogram");
+        for (const { labels, counts, sum, count } of states.values()) {
+          bounds.forEach((le, i) => {
+            text += `${name}_bucket${
+              formatLabels({ ...labels, le: formatValue(le) })
+            } ${counts[i]}\n`;
+          });
+          text += `${name}_bucket${
+            formatLabels({ ...labels, le: "+Inf" })
+          } ${count}\n`;
+          text += `${name}_sum${formatLabels(labels)} ${sum}\n`;
+          text += `${name}_count${formatLabels(labels)} ${count}\n`;
+        }
+        return text;
+      });
+      return {
+        observe(labels, value) {
+          const key = formatLabels(labels);
+          let state = states.get(key);
+          if (!state) {
+            state = { labels, counts: bounds.map(() => 0), sum: 0, count: 0 };
+            states.set(key, state);
+          }
+          bounds.forEach((le, i) => {
+            if (value <= le) state!.counts[i]++;
+          });
+          state.sum += value;
+          state.count++;
+        },
+      };
+    },
+    render: () => renderers.map((render) => render()).join(""),
+  };
+}
+
+/**
+ * Passes `stream` through unchanged, reporting the size of every chunk to
+ * `onChunk` and calling `onDone` exactly once when the stream finishes,
+ * fails or is cancelled by the consumer.
+ */
+export function observeStream(
+  stream: ReadableStream<Uint8Array>,
+  onChunk: (bytes: number) => void,
+  onDone: () => void,
+): ReadableStream<Uint8Array> {
+  const reader = stream.getReader();
+  let done = false;
+  const finish = () => {
+    if (!done) {
+      done = true;
+      onDone();
+    }
+  };
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const result = await reader.read();
+        if (result.done) {
+          finish();
+          controller.close();
+        } else {
+          onChunk(result.value.byteLength);
+          controller.enqueue(result.value);
+        }
+      } catch (error) {
+        finish();
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      finish();
+      await reader.cancel(reason);
+    },
+  });
+}
+
+/** Upper bounds, in seconds, of the upstream latency histogram buckets. */
+export const LATENCY_BUCKETS = [
+  0.005,
+  0.01,
+  0.025,
+  0.05,
+  0.1,
+  0.25,
+  0.5,
+  1,
+  2.5,
+  5,
+  10,
+  30,
+  60,
+  120,
+];
+
+const REJECTION_OUTCOMES: Record<number, string> = {
+  400: "invalid_host",
+  401: "unauthorized",
+  403: "forbidden",
+  405: "method_not_allowed",
+  413: "payload_too_large",
+  429: "rate_limit",
+  502: "bad_gateway",
+  503: "unavailable",
+  504: "timeout",
+};
+
+/**
+ * The `outcome` label for a response the proxy produced itself, named after
+ * the layer that rejected the request.
+ */
+export function rejectionOutcome(status: number): string {
+  return REJECTION_OUTCOMES[status] ?? "other";
+}
+
+/** The `status_class` label for `status`, e.g. `4xx`. */
+export function statusClass(status: number): string {
+  return `${Math.floor(status / 100)}xx`;
+}
+
+/** The metrics a proxy handler records. */
+export interface ProxyMetrics {
+  registry: MetricsRegistry;
+  /**
+   * Labels: `host` (the matching whitelist pattern, empty when none
+   * matched), `status_class` and `outcome`.
+   */
+  requests: Counter;
+  /** Labels: `host`. Seconds until upstream response headers arrived. */
+  upstreamDuration: Histogram;
+  /** Labels: `host`. Upstream requests sent again after a failure. */
+  retries: Counter;
+  /** Labels: `host`. Request body bytes sent upstream. */
+  requestBytes: Counter;
+  /** Labels: `host`. Response body bytes sent to clients. */
+  responseBytes: Counter;
+  /** Requests whose response body is still being sent. */
+  inFlight: Gauge;
+}
+
+/**
+ * Registers the proxy's metrics. `sample` is called on every scrape to
+ * report state owned elsewhere, such as the rate limiter's bucket count.
+ */
+export function createProxyMetrics(
+  sample: () => {
+    rateLimiterBuckets?: number;
+    cacheBytes?: number;
+    backends?: { upstream: string; backend: string; healthy: boolean }[];
+  },
+): ProxyMetrics {
+  const registry = createMetricsRegistry();
+  const metrics: ProxyMetrics = {
+    registry,
+    requests: registry.counter(
+      "proxy_requests_total",
+      "Requests handled, by whitelist entry, status class and outcome (proxied, cache_hit, preflight, websocket, circuit_open or the layer that rejected it).",
+    ),
+    upstreamDuration: registry.histogram(
+      "proxy_upstream_duration_seconds",
+      "Time from sending the upstream request to receiving its response headers.",
+      LATENCY_BUCKETS,
+    ),
+    retries: registry.counter(
+      "proxy_upstream_retries_total",
+      "Upstream requests retried after an error or a retryable status.",
+    ),
+    requestBytes: registry.counter(
+      "proxy_request_bytes_total",
+      "Request body bytes forwarded upstream.",
+    ),
+    responseBytes: registry.counter(
+      "proxy_response_bytes_total",
+      "Response body bytes sent to clients.",
+    ),
+    inFlight: registry.gauge(
+      "proxy_requests_in_flight",
+      "Requests being handled or streaming their response.",
+    ),
+  };
+  registry.gauge(
+    "proxy_rate_limiter_buckets",
+    "Rate-limit buckets held in memory.",
+    (gauge) => {
+      const { rateLimiterBuckets } = sample();
+      if (rateLimiterBuckets !== undefined) gauge.set({}, rateLimiterBuckets);
+    },
+  );
+  registry.gauge(
+    "proxy_cache_bytes",
+    "Bytes held by the in-memory response cache.",
+    (gauge) => {
+      const { cacheBytes } = sample();
+      if (cacheBytes !== undefined) gauge.set({}, cacheBytes);
+    },
+  );
+  registry.gauge(
+    "proxy_backend_up",
+    "Whether an upstream backend passed its last health check (1) or not (0).",
+    (gauge) => {
+      // Backends removed by a reload must not linger with their last value.
+      gauge.clear();
+      for (const { upstream, backend, healthy } of sample().backends ?? []) {
+        gauge.set({ upstream, backend }, healthy ? 1 : 0);
+      }
+    },
+  );
+  return metrics;
+}
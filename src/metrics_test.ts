@@ -0,0 +1,83 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import {
+  createMetricsRegistry,
+  observeStream,
+  rejectionOutcome,
+  statusClass,
+} from "./metrics.ts";
+
+Deno.test("createMetricsRegistry", async (t) => {
+  await t.step("renders counters and gauges by label set", () => {
+    const registry = createMetricsRegistry();
+    const requests = registry.counter("requests_total", "Requests.");
+    requests.inc({ outcome: "proxied", host: "a.test" });
+    requests.inc({ host: "a.test", outcome: "proxied" }, 2);
+    requests.inc({ host: 'quote"d', outcome: "forbidden" });
+    let sampled = 0;
+    registry.gauge("buckets", "Buckets.", (gauge) => gauge.set({}, ++sampled));
+
+    assertEquals(
+      registry.render(),
+      "# HELP requests_total Requests.\n" +
+        "# TYPE requests_total counter\n" +
+        'requests_total{host="a.test",outcome="proxied"} 3\n' +
+        'requests_total{host="quote\\"d",outcome="forbidden"} 1\n' +
+        "# HELP buckets Buckets.\n" +
+        "# TYPE buckets gauge\n" +
+        "buckets 1\n",
+    );
+    assertStringIncludes(registry.render(), "buckets 2\n");
+  });
+
+  await t.step("renders cumulative histogram buckets", () => {
+    const registry = createMetricsRegistry();
+    const latency = registry.histogram("latency_seconds", "Latency.", [1, 0.1]);
+    latency.observe({ host: "a.test" }, 0.05);
+    latency.observe({ host: "a.test" }, 0.5);
+    latency.observe({ host: "a.test" }, 3);
+
+    assertEquals(
+      registry.render(),
+      "# HELP latency_seconds Latency.\n" +
+        "# TYPE latency_seconds histogram\n" +
+        'latency_seconds_bucket{host="a.test",le="0.1"} 1\n' +
+        'latency_seconds_bucket{host="a.test",le="1"} 2\n' +
+        'latency_seconds_bucket{host="a.test",le="+Inf"} 3\n' +
+        'latency_seconds_sum{host="a.test"} 3.55\n' +
+        'latency_seconds_count{host="a.test"} 3\n',
+    );
+  });
+});
+
+Deno.test("observeStream", async (t) => {
+  await t.step("reports chunk sizes and completion", async () => {
+    const sizes: number[] = [];
+    let done = 0;
+    const stream = observeStream(
+      new Response("hello world").body!,
+      (bytes) => sizes.push(bytes),
+      () => done++,
+    );
+    assertEquals(await new Response(stream).text(), "hello world");
+    assertEquals(sizes.reduce((a, b) => a + b, 0), 11);
+    assertEquals(done, 1);
+  });
+
+  await t.step("reports cancellation once", async () => {
+    let done = 0;
+    const stream = observeStream(
+      new Response("hello").body!,
+      () => {},
+      () => done++,
+    );
+    await stream.cancel();
+    assertEquals(done, 1);
+  });
+});
+
+Deno.test("outcome labels", () => {
+  assertEquals(rejectionOutcome(429), "rate_limit");
+  assertEquals(rejectionOutcome(504), "timeout");
+  assertEquals(rejectionOutcome(418), "other");
+  assertEquals(statusClass(204), "2xx");
+});
@@ -0,0 +1,169 @@
+// ===================================================================
+// RATE LIMITING (Token bucket, pluggable store)
+// ===================================================================
+
+/**
+ * Rate limit settings. Each client gets a bucket of `maxRequests` tokens
+ * that refills continuously at `maxRequests` per `windowMs`, so short
+ * bursts up to the full allowance are fine but the sustained rate is capped.
+ */
+export interface RateLimitConfig {
+  /** Time in milliseconds for an empty bucket to refill completely. */
+  windowMs: number;
+  /** Bucket capacity: the most requests a client may make in a burst. */
+  maxRequests: number;
+}
+
+/** Outcome of {@link RateLimiter.consume}. */
+export interface RateLimitDecision {
+  /** Whether the request may proceed. */
+  allowed: boolean;
+  /** Bucket capacity. */
+  limit: number;
+  /** Whole tokens left after this request. */
+  remaining: number;
+  /** Milliseconds until the bucket is full again. */
+  resetMs: number;
+  /** Milliseconds until the next token is available (0 when allowed). */
+  retryAfterMs: number;
+}
+
+/**
+ * Tracks a token bucket per key and decides whether to admit requests.
+ * Implementations decide where buckets live: see {@link createRateLimiter}
+ * (process memory) and `createKvRateLimiter` (Deno KV, shared).
+ */
+export interface RateLimiter {
+  /**
+   * Takes a token from `key`'s bucket, sized by `limit`. Buckets adapt when
+   * `limit` changes, so one limiter can serve a handler across reloads.
+   */
+  consume(
+    key: string,
+    limit: RateLimitConfig,
+    now?: number,
+  ): Promise<RateLimitDecision>;
+  /**
+   * Number of buckets held by this process, or `undefined` when the store
+   * cannot count them cheaply.
+   */
+  readonly size: number | undefined;
+  /** Releases any connection the limiter opened. */
+  close(): void;
+}
+
+/** Options for {@link createRateLimiter}. */
+export interface RateLimiterOptions {
+  /**
+   * How often, at most, idle buckets are swept. A bucket that has refilled
+   * completely is indistinguishable from a new one, so it is dropped.
+   * Defaults to one minute.
+   */
+  evictionIntervalMs?: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  /** When the bucket will be full again if left alone. */
+  fullAt: number;
+}
+
+/**
+ * Applies one request to `bucket` (or a fresh one) and returns the new
+ * bucket state together with the decision.
+ */
+export function takeToken(
+  bucket: { tokens: number; updatedAt: number } | undefined,
+  limit: RateLimitConfig,
+  now: number,
+): { bucket: Bucket; decision: RateLimitDecision } {
+  const capacity = limit.maxRequests;
+  const refillPerMs = capacity / limit.windowMs;
+  let tokens = bucket
+    ? Math.min(
+      capacity,
+      bucket.tokens + Math.max(0, now - bucket.updatedAt) * refillPerMs,
+    )
+    : capacity;
+
+  const allowed = tokens >= 1;
+  if (allowed) tokens -= 1;
+  const resetMs = Math.ceil((capacity - tokens) / refillPerMs);
+
+  return {
+    bucket: { tokens, updatedAt: now, fullAt: now + resetMs },
+    decision: {
+      allowed,
+      limit: capacity,
+      remaining: Math.floor(tokens),
+      resetMs,
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+    },
+  };
+}
+
+/** Creates an in-memory token-bucket limiter with periodic eviction. */
+export function createRateLimiter(
+  options: RateLimiterOptions = {},
+): RateLimiter {
+  const { evictionIntervalMs = 60000 } = options;
+  const buckets = new Map<string, Bucket>();
+  let lastSweep = Date.now();
+
+  // Sweeping piggybacks on traffic instead of a timer, so an idle limiter
+  // holds no resources and needs no disposal.
+  const sweep = (now: number) => {
+    if (now - lastSweep < evictionIntervalMs) return;
+    lastSweep = now;
+    for (const [key, bucket] of buckets) {
+      if (bucket.fullAt <= now) buckets.delete(key);
+    }
+  };
+
+  return {
+    consume(key, limit, now = Date.now()) {
+      sweep(now);
+      const { bucket, decision } = takeToken(buckets.get(key), limit, now);
+      buckets.set(key, bucket);
+      return Promise.resolve(decision);
+    },
+    get size() {
+      return buckets.size;
+    },
+    close() {},
+  };
+}
+
+/**
+ * The `RateLimit-*` response headers (IETF draft) for `decision`, plus
+ * `Retry-After` when the request was rejected. Times are whole seconds.
+ */
+export function rateLimitHeaders(
+  decision: RateLimitDecision,
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "ratelimit-limit": String(decision.limit),
+    "ratelimit-remaining": String(decision.remaining),
+    "ratelimit-reset": String(Math.ceil(decision.resetMs / 1000)),
+  };
+  if (!decision.allowed) {
+    headers["retry-after"] = String(
+      Math.max(1, Math.ceil(decision.retryAfterMs / 1000)),
+    );
+  }
+  return headers;
+}
+
+/** Of several decisions, the one to report to the client. */
+export function mostRestrictive(
+  decisions: RateLimitDecision[],
+): RateLimitDecision {
+  return decisions.reduce((a, b) =>
+    !b.allowed && a.allowed
+      ? b
+      : b.allowed === a.allowed && b.remaining < a.remaining
+      ? b
+      : a
+  );
+}
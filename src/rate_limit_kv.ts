@@ -0,0 +1,71 @@
+// ===================================================================
+// RATE LIMITING (Deno KV store, shared across instances)
+// ===================================================================
+import type { KvLocation } from "./config.ts";
+import { kvPrefix, lazyKv } from "./kv.ts";
+import { type RateLimiter, takeToken } from "./rate_limit.ts";
+
+/** Default Deno KV prefix for rate-limit buckets. */
+export const DEFAULT_KV_RATE_LIMIT_PREFIX = ["proxy", "rate_limit"];
+
+/** Options for {@link createKvRateLimiter}. */
+export interface KvRateLimiterOptions {
+  /** Compare-and-set attempts before giving up under contention. */
+  maxAttempts?: number;
+}
+
+interface StoredBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * A token-bucket limiter whose buckets live in Deno KV at `[...prefix, key]`,
+ * so every proxy instance (or Deno Deploy isolate) sharing the database
+ * draws from the same bucket.
+ *
+ * Each request is a read followed by an atomic check-and-set on the
+ * bucket's versionstamp, retried when another instance won the race.
+ * Buckets expire once they would have refilled, so idle clients are evicted
+ * by KV itself.
+ *
+ * @throws {Error} from `consume` when the bucket stays contended for
+ * `maxAttempts` tries.
+ */
+export function createKvRateLimiter(
+  source: Deno.Kv | KvLocation = {},
+  options: KvRateLimiterOptions = {},
+): RateLimiter {
+  const { maxAttempts = 10 } = options;
+  const prefix = kvPrefix(source, DEFAULT_KV_RATE_LIMIT_PREFIX);
+  const kv = lazyKv(source);
+
+  return {
+    async consume(key, limit, now = Date.now()) {
+      const db = await kv.get();
+      const entryKey = [...prefix, key];
+      for (let attempt = 0; attempt < maxAttempts; attempt++) {
+        const entry = await db.get<StoredBucket>(entryKey);
+        const { bucket, decision } = takeToken(
+          entry.value ?? undefined,
+          limit,
+          now,
+        );
+        const result = await db.atomic()
+          .check(entry)
+          .set(
+            entryKey,
+            { tokens: bucket.tokens, updatedAt: bucket.updatedAt },
+            { expireIn: Math.max(1, bucket.fullAt - now) },
+          )
+          .commit();
+        if (result.ok) return decision;
+      }
+      throw new Error(
+        `Rate limit bucket "${key}" stayed contended after ${maxAttempts} attempts`,
+      );
+    },
+    size: undefined,
+    close: kv.close,
+  };
+}
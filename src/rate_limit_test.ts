@@ -0,0 +1,121 @@
+import { assertEquals } from "@std/assert";
+import {
+  createRateLimiter,
+  mostRestrictive,
+  rateLimitHeaders,
+} from "./rate_limit.ts";
+import { createKvRateLimiter } from "./rate_limit_kv.ts";
+
+const limit = { windowMs: 1000, maxRequests: 2 };
+
+Deno.test("createRateLimiter", async (t) => {
+  await t.step("allows a burst up to capacity, then refills", async () => {
+    const limiter = createRateLimiter();
+    assertEquals((await limiter.consume("a", limit, 0)).allowed, true);
+    assertEquals((await limiter.consume("a", limit, 0)).allowed, true);
+
+    const rejected = await limiter.consume("a", limit, 0);
+    assertEquals(rejected, {
+      allowed: false,
+      limit: 2,
+      remaining: 0,
+      resetMs: 1000,
+      retryAfterMs: 500,
+    });
+
+    // One token refills every 500ms.
+    assertEquals((await limiter.consume("a", limit, 499)).allowed, false);
+    assertEquals((await limiter.consume("a", limit, 500)).allowed, true);
+    assertEquals((await limiter.consume("b", limit, 500)).remaining, 1);
+  });
+
+  await t.step("adapts buckets when the limit changes", async () => {
+    const limiter = createRateLimiter();
+    await limiter.consume("a", limit, 0);
+    await limiter.consume("a", limit, 0);
+    const bigger = { windowMs: 1000, maxRequests: 10 };
+    assertEquals((await limiter.consume("a", bigger, 0)).allowed, false);
+    assertEquals((await limiter.consume("a", bigger, 100)).allowed, true);
+  });
+
+  await t.step("evicts buckets that have refilled", async () => {
+    const limiter = createRateLimiter({ evictionIntervalMs: 0 });
+    const start = Date.now();
+    await limiter.consume("a", limit, start);
+    await limiter.consume("b", { windowMs: 60000, maxRequests: 2 }, start);
+    assertEquals(limiter.size, 2);
+
+    // "a" refills after 500ms; "b" is still partly drained.
+    await limiter.consume("c", limit, start + 600);
+    assertEquals(limiter.size, 2);
+    await limiter.consume("c", limit, start + 120000);
+    assertEquals(limiter.size, 1);
+  });
+});
+
+Deno.test("rateLimitHeaders", () => {
+  assertEquals(
+    rateLimitHeaders({
+      allowed: true,
+      limit: 10,
+      remaining: 9,
+      resetMs: 6000,
+      retryAfterMs: 0,
+    }),
+    {
+      "ratelimit-limit": "10",
+      "ratelimit-remaining": "9",
+      "ratelimit-reset": "6",
+    },
+  );
+  assertEquals(
+    rateLimitHeaders({
+      allowed: false,
+      limit: 10,
+      remaining: 0,
+      resetMs: 60000,
+      retryAfterMs: 200,
+    })["retry-after"],
+    "1",
+  );
+});
+
+Deno.test("mostRestrictive prefers rejections, then fewest remaining", () => {
+  const d = (allowed: boolean, remaining: number) => ({
+    allowed,
+    limit: 10,
+    remaining,
+    resetMs: 0,
+    retryAfterMs: 0,
+  });
+  assertEquals(mostRestrictive([d(true, 5), d(true, 2)]), d(true, 2));
+  assertEquals(mostRestrictive([d(true, 0), d(false, 3)]), d(false, 3));
+  assertEquals(mostRestrictive([d(false, 0), d(true, 9)]), d(false, 0));
+});
+
+Deno.test("createKvRateLimiter shares buckets through Deno KV", async () => {
+  const dir = await Deno.makeTempDir();
+  const kv = await Deno.openKv(`${dir}/limits.db`);
+  // Two limiters on one database stand in for two proxy instances.
+  const first = createKvRateLimiter(kv);
+  const second = createKvRateLimiter(kv);
+  try {
+    assertEquals((await first.consume("a", limit, 0)).allowed, true);
+    assertEquals((await second.consume("a", limit, 0)).allowed, true);
+    assertEquals((await first.consume("a", limit, 0)).allowed, false);
+    assertEquals((await second.consume("a", limit, 500)).remaining, 0);
+    assertEquals(first.size, undefined);
+
+    // Concurrent requests never over-admit.
+    const decisions = await Promise.all(
+      Array.from(
+        { length: 6 },
+        (_, i) => (i % 2 ? first : second).consume("b", limit, 1000),
+      ),
+    );
+    assertEquals(decisions.filter((d) => d.allowed).length, 2);
+  } finally {
+    kv.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,105 @@
+// ===================================================================
+// CONFIG HOT RELOAD (SIGHUP & file watching)
+// ===================================================================
+import { ConfigError, loadConfigFile } from "./config_file.ts";
+import type { ProxyHandler } from "./handler.ts";
+import { logEvent } from "./log.ts";
+
+/** Options for {@link watchConfigFile}. */
+export interface WatchConfigOptions {
+  /** Reload when the process receives `SIGHUP`. Defaults to `true`. */
+  signal?: boolean;
+  /** Reload when the file changes on disk. Defaults to `true`. */
+  watch?: boolean;
+  /** Quiet period before a burst of file events triggers a reload. */
+  debounceMs?: number;
+}
+
+/** Handle returned by {@link watchConfigFile}. */
+export interface ConfigWatcher {
+  /**
+   * Re-reads the file and applies it to the handler. Resolves `false` and
+   * keeps the previous config when the new file is invalid.
+   */
+  reload(): Promise<boolean>;
+  /** Stops watching and removes the signal listener. */
+  close(): void;
+}
+
+function splitPath(path: string): { dir: string; name: string } {
+  const absolute = path.startsWith("/") ? path : `${Deno.cwd()}/${path}`;
+  const slash = absolute.lastIndexOf("/");
+  return {
+    dir: absolute.slice(0, slash) || "/",
+    name: absolute.slice(slash + 1),
+  };
+}
+
+/**
+ * Reloads `handler` from the config file at `path` on `SIGHUP` and whenever
+ * the file changes.
+ *
+ * The containing directory is watched rather than the file itself so that
+ * editors which save by renaming a temp file over the original are still
+ * picked up. Reloads are serialized, and an invalid file is logged and
+ * ignored so the proxy keeps serving with its last good config.
+ */
+export function watchConfigFile(
+  path: string,
+  handler: ProxyHandler,
+  options: WatchConfigOptions = {},
+): ConfigWatcher {
+  const { signal = true, watch = true, debounceMs = 100 } = options;
+  let pending: Promise<boolean> = Promise.resolve(true);
+  let debounceId: number | undefined;
+
+  const reload = (): Promise<boolean> => {
+    pending = pending.then(async () => {
+      try {
+        handler.reload(await loadConfigFile(path));
+        logEvent("INFO", "Configuration reloaded", {
+          path,
+          generation: handler.generation,
+        });
+        return true;
+      } catch (error) {
+        logEvent("ERROR", "Configuration reload failed, keeping previous", {
+          path,
+          error: error instanceof ConfigError ? error.message : String(error),
+        });
+        return false;
+      }
+    });
+    return pending;
+  };
+
+  const onSignal = () => void reload();
+  if (signal && Deno.build.os !== "windows") {
+    Deno.addSignalListener("SIGHUP", onSignal);
+  }
+
+  let watcher: Deno.FsWatcher | undefined;
+  if (watch) {
+    const { dir, name } = splitPath(path);
+    watcher = Deno.watchFs(dir, { recursive: false });
+    (async () => {
+      for await (const event of watcher!) {
+        if (event.kind === "access") continue;
+        if (!event.paths.some((p) => splitPath(p).name === name)) continue;
+        clearTimeout(debounceId);
+        debounceId = setTimeout(() => void reload(), debounceMs);
+      }
+    })();
+  }
+
+  return {
+    reload,
+    close() {
+      clearTimeout(debounceId);
+      watcher?.close();
+      if (signal && Deno.build.os !== "windows") {
+        Deno.removeSignalListener("SIGHUP", onSignal);
+      }
+    },
+  };
+}
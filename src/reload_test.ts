@@ -0,0 +1,68 @@
+import { assertEquals } from "@std/assert";
+import { createProxyHandler } from "./handler.ts";
+import { watchConfigFile } from "./reload.ts";
+import { tcpInfo, testConfig } from "./test_helpers.ts";
+
+Deno.test("watchConfigFile", async (t) => {
+  const dir = await Deno.makeTempDir();
+  const path = `${dir}/proxy.jsonc`;
+  await Deno.writeTextFile(path, `{"hosts": ["a.example.com"]}`);
+
+  await t.step("applies a valid file and bumps the generation", async () => {
+    const handler = createProxyHandler(testConfig());
+    const watcher = watchConfigFile(path, handler, {
+      signal: false,
+      watch: false,
+    });
+    try {
+      assertEquals(await watcher.reload(), true);
+      assertEquals(handler.generation, 2);
+
+      const response = await handler(
+        new Request("http://proxy.local/api.example.com/"),
+        tcpInfo(),
+      );
+      assertEquals(response.status, 403);
+      await response.body?.cancel();
+    } finally {
+      watcher.close();
+    }
+  });
+
+  await t.step(
+    "keeps the previous config when the file is invalid",
+    async () => {
+      const handler = createProxyHandler(testConfig());
+      const watcher = watchConfigFile(path, handler, {
+        signal: false,
+        watch: false,
+      });
+      try {
+        await Deno.writeTextFile(path, `{"hosts": [{"host": 1}]}`);
+        assertEquals(await watcher.reload(), false);
+        assertEquals(handler.generation, 1);
+      } finally {
+        watcher.close();
+      }
+    },
+  );
+
+  await t.step("reloads when the file changes on disk", async () => {
+    const handler = createProxyHandler(testConfig());
+    const watcher = watchConfigFile(path, handler, {
+      signal: false,
+      debounceMs: 10,
+    });
+    try {
+      await Deno.writeTextFile(path, `{"hosts": ["b.example.com"]}`);
+      for (let i = 0; i < 100 && handler.generation === 1; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      assertEquals(handler.generation, 2);
+    } finally {
+      watcher.close();
+    }
+  });
+
+  await Deno.remove(dir, { recursive: true });
+});
@@ -0,0 +1,206 @@
+// ===================================================================
+// RETRIES (Backoff, Retry-After & replayable request bodies)
+// ===================================================================
+
+/**
+ * Retry settings. Idempotent requests are retried after network errors
+ * and retryable statuses; others only when the connection could not be
+ * established, so the upstream cannot have seen them.
+ */
+export interface RetryConfig {
+  /** Retries after the first attempt. */
+  attempts: number;
+  /** Backoff before the first retry, doubled for each further one. */
+  baseDelayMs?: number;
+  /**
+   * Longest wait before a retry. A longer `Retry-After` is not waited for:
+   * the upstream's response goes to the client instead.
+   */
+  maxDelayMs?: number;
+  /** Statuses retried for idempotent requests. */
+  statuses?: number[];
+}
+
+/** Default for {@link RetryConfig.baseDelayMs}. */
+export const DEFAULT_RETRY_BASE_DELAY_MS = 100;
+
+/** Default for {@link RetryConfig.maxDelayMs}. */
+export const DEFAULT_RETRY_MAX_DELAY_MS = 5000;
+
+/** Default for {@link RetryConfig.statuses}. */
+export const DEFAULT_RETRY_STATUSES = [429, 502, 503, 504];
+
+/**
+ * Most request body bytes kept in memory so the body can be sent again.
+ * Requests with larger bodies are not retried once their body was read.
+ */
+export const RETRY_BUFFER_BYTES = 1024 * 1024;
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE", "TRACE"];
+
+/** Whether repeating a `method` request has no effect beyond the first. */
+export function isIdempotent(method: string): boolean {
+  return IDEMPOTENT_METHODS.includes(method.toUpperCase());
+}
+
+/**
+ * Whether `error` from `fetch` means the connection was never established
+ * (refused, unresolvable, TLS failure), so nothing reached the upstream.
+ */
+export function isConnectError(error: unknown): boolean {
+  return error instanceof TypeError &&
+    /client error \(Connect\)|tcp connect error|dns error/i.test(error.message);
+}
+
+/**
+ * Parses `Retry-After` (delay seconds or an HTTP date) into milliseconds
+ * from `now`. Returns `undefined` when absent or malformed.
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now = Date.now(),
+): number | undefined {
+  if (value === null) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay up to
+ * `baseDelayMs * 2^retry`, capped at `maxDelayMs`. `retry` counts from 0.
+ */
+export function backoffDelay(
+  config: RetryConfig,
+  retry: number,
+  random = Math.random,
+): number {
+  const base = config.baseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+  const max = config.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+  return Math.round(random() * Math.min(max, base * 2 ** retry));
+}
+
+/** How an attempt ended: with an error or with a response. */
+export type AttemptResult =
+  | { error: unknown }
+  | { response: Response };
+
+/**
+ * The delay before retry number `retry` (from 0) of a `method` request
+ * that ended with `result`, or `undefined` when it must not be retried.
+ * `canResend` tells whether the request body can be sent again.
+ */
+export function retryDelay(
+  config: RetryConfig,
+  retry: number,
+  method: string,
+  result: AttemptResult,
+  canResend: boolean,
+): number | undefined {
+  if (retry >= config.attempts || !canResend) return undefined;
+  if ("error" in result) {
+    return isIdempotent(method) || isConnectError(result.error)
+      ? backoffDelay(config, retry)
+      : undefined;
+  }
+  const { status, headers } = result.response;
+  const statuses = config.statuses ?? DEFAULT_RETRY_STATUSES;
+  if (!isIdempotent(method) || !statuses.includes(status)) return undefined;
+  const retryAfter = status === 429 || status === 503
+    ? parseRetryAfter(headers.get("retry-after"))
+    : undefined;
+  if (retryAfter === undefined) return backoffDelay(config, retry);
+  const max = config.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+  return retryAfter <= max ? retryAfter : undefined;
+}
+
+/** Resolves after `ms`, or rejects with `signal`'s reason once it aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const aborted = () => {
+      clearTimeout(timeoutId);
+      reject(signal!.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", aborted);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", aborted, { once: true });
+  });
+}
+
+/** A request body that can be streamed again for a retry. */
+export interface ReplayableBody {
+  /** Whether {@link stream} can still produce the whole body. */
+  readonly replayable: boolean;
+  /**
+   * A stream of the whole body: the bytes read by earlier streams, then
+   * the rest of the source. Returns `undefined` when more than the buffer
+   * limit has been read already.
+   */
+  stream(): ReadableStream<Uint8Array> | undefined;
+}
+
+/**
+ * Wraps `source` so that it can be sent more than once, keeping up to
+ * `maxBytes` of what has been read in memory.
+ */
+export function replayableBody(
+  source: ReadableStream<Uint8Array>,
+  maxBytes = RETRY_BUFFER_BYTES,
+): ReplayableBody {
+  const reader = source.getReader();
+  const chunks: Uint8Array[] = [];
+  let buffered = 0;
+  let overflowed = false;
+  let current: { cancelled: boolean } | undefined;
+
+  return {
+    get replayable() {
+      return !overflowed;
+    },
+    stream() {
+      if (overflowed) return undefined;
+      // Only the newest stream reads on; older ones belong to failed attempts.
+      if (current) current.cancelled = true;
+      const state = { cancelled: false };
+      current = state;
+      let replayed = 0;
+      return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          if (replayed < chunks.length) {
+            controller.enqueue(chunks[replayed++]);
+            return;
+          }
+          if (state.cancelled) {
+            controller.error(new Error("Request body replaced by a retry"));
+            return;
+          }
+          const { done, value } = await reader.read();
+          if (done) {
+            controller.close();
+            return;
+          }
+          buffered += value.byteLength;
+          if (buffered > maxBytes) {
+            overflowed = true;
+            chunks.length = 0;
+          } else {
+            chunks.push(value);
+            replayed++;
+          }
+          controller.enqueue(value);
+        },
+        cancel() {
+          // A failed attempt cancels its stream; the source stays readable.
+          state.cancelled = true;
+        },
+      });
+    },
+  };
+}
@@ -0,0 +1,112 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+  backoffDelay,
+  isConnectError,
+  isIdempotent,
+  parseRetryAfter,
+  replayableBody,
+  retryDelay,
+  sleep,
+} from "./retry.ts";
+
+const connectError = new TypeError(
+  "error sending request for url (https://a.test/): client error (Connect): tcp connect error: Connection refused",
+);
+
+Deno.test("isIdempotent and isConnectError", () => {
+  assert(isIdempotent("GET"));
+  assert(isIdempotent("put"));
+  assert(!isIdempotent("POST"));
+  assert(!isIdempotent("PATCH"));
+  assert(isConnectError(connectError));
+  assert(!isConnectError(new TypeError("connection reset by peer")));
+  assert(!isConnectError(new Error("client error (Connect)")));
+});
+
+Deno.test("parseRetryAfter", () => {
+  const now = Date.parse("2025-10-10T12:00:00Z");
+  assertEquals(parseRetryAfter("3", now), 3000);
+  assertEquals(parseRetryAfter("Fri, 10 Oct 2025 12:00:05 GMT", now), 5000);
+  assertEquals(parseRetryAfter("Fri, 10 Oct 2025 11:00:00 GMT", now), 0);
+  assertEquals(parseRetryAfter("soon", now), undefined);
+  assertEquals(parseRetryAfter(null, now), undefined);
+});
+
+Deno.test("backoffDelay grows exponentially up to the cap", () => {
+  const config = { attempts: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+  assertEquals(backoffDelay(config, 0, () => 1), 100);
+  assertEquals(backoffDelay(config, 2, () => 1), 400);
+  assertEquals(backoffDelay(config, 6, () => 1), 1000);
+  assertEquals(backoffDelay(config, 2, () => 0.5), 200);
+});
+
+Deno.test("retryDelay", async (t) => {
+  const config = { attempts: 2, maxDelayMs: 5000 };
+  const status = (code: number, headers: HeadersInit = {}) => ({
+    response: new Response(null, { status: code, headers }),
+  });
+
+  await t.step("retries idempotent requests after errors", () => {
+    assert(
+      retryDelay(config, 0, "GET", { error: new TypeError("x") }, true)! >= 0,
+    );
+    assertEquals(
+      retryDelay(config, 2, "GET", { error: connectError }, true),
+      undefined,
+    );
+  });
+
+  await t.step("retries other requests only on connect errors", () => {
+    assertEquals(
+      retryDelay(config, 0, "POST", { error: new TypeError("reset") }, true),
+      undefined,
+    );
+    assert(retryDelay(config, 0, "POST", { error: connectError }, true)! >= 0);
+    assertEquals(
+      retryDelay(config, 0, "POST", { error: connectError }, false),
+      undefined,
+    );
+    assertEquals(retryDelay(config, 0, "POST", status(503), true), undefined);
+  });
+
+  await t.step("honors Retry-After on 429 and 503", () => {
+    assertEquals(retryDelay(config, 0, "GET", status(200), true), undefined);
+    assertEquals(
+      retryDelay(config, 0, "GET", status(503, { "retry-after": "2" }), true),
+      2000,
+    );
+    assertEquals(
+      retryDelay(config, 0, "GET", status(429, { "retry-after": "60" }), true),
+      undefined,
+    );
+    assert(retryDelay(config, 0, "GET", status(502), true)! <= 100);
+  });
+});
+
+Deno.test("sleep stops when the signal aborts", async () => {
+  const controller = new AbortController();
+  const slept = sleep(10000, controller.signal).then(() => "slept", (e) => e);
+  controller.abort();
+  assertEquals((await slept).name, "AbortError");
+});
+
+Deno.test("replayableBody", async (t) => {
+  const source = () => new Response("hello world").body!;
+
+  await t.step("replays what an earlier stream read", async () => {
+    const body = replayableBody(source());
+    const first = body.stream()!.getReader();
+    await first.read();
+    await first.cancel();
+    assert(body.replayable);
+    assertEquals(await new Response(body.stream()).text(), "hello world");
+  });
+
+  await t.step("gives up beyond the buffer limit", async () => {
+    const body = replayableBody(source(), 4);
+    const first = body.stream()!.getReader();
+    await first.read();
+    assertEquals(body.replayable, false);
+    assertEquals(body.stream(), undefined);
+  });
+});
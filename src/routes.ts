@@ -0,0 +1,119 @@
+// ===================================================================
+// PER-HOST PATH & METHOD RULES
+// ===================================================================
+import type { RouteRule } from "./config.ts";
+
+/** A {@link RouteRule} with its path glob pre-compiled. */
+export interface CompiledRoute {
+  rule: RouteRule;
+  regex: RegExp;
+  /** Human-readable rule label for rejection messages. */
+  label: string;
+}
+
+/** Outcome of {@link evaluateRoutes}. */
+export type RouteDecision =
+  | { allowed: true; rule?: string }
+  | { allowed: false; status: 403; rule: string }
+  | { allowed: false; status: 405; rule: string; allow: string[] };
+
+/**
+ * Compiles a path glob into an anchored, case-insensitive RegExp. `*`
+ * matches within a single segment, `**` across segments, and a trailing
+ * `/**` also matches the bare prefix.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "/" && glob.startsWith("/**", i) && i + 3 === glob.length) {
+      source += "(?:/.*)?";
+      break;
+    } else if (ch === "*" && glob[i + 1] === "*") {
+      source += ".*";
+      i++;
+    } else if (ch === "*") {
+      source += "[^/]*";
+    } else {
+      source += ch.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Joins request path `segments` into the one spelling routes are checked
+ * against and the upstream is sent: escapes of unreserved characters are
+ * decoded and the rest upper-cased. Returns `undefined` for encoded `/` or
+ * `\` and for dot-segments, which the upstream could read as a different
+ * path than the one checked.
+ */
+export function normalizePath(segments: string[]): string | undefined {
+  const normalized: string[] = [];
+  for (const segment of segments) {
+    if (/%(?:2f|5c)/i.test(segment)) return undefined;
+    const decoded = segment.replace(/%[0-9a-f]{2}/gi, (escape) => {
+      const char = String.fromCharCode(parseInt(escape.slice(1), 16));
+      return /[A-Za-z0-9._~-]/.test(char) ? char : escape.toUpperCase();
+    });
+    if (decoded === "." || decoded === "..") return undefined;
+    normalized.push(decoded);
+  }
+  return "/" + normalized.join("/");
+}
+
+/** Pre-compiles `rules`, labelling unnamed ones by position and content. */
+export function compileRoutes(rules: RouteRule[]): CompiledRoute[] {
+  return rules.map((rule, i) => ({
+    rule,
+    regex: globToRegExp(rule.path),
+    label: rule.name ??
+      `routes[${i}] (${rule.action} ${
+        rule.methods?.join(",") ?? "*"
+      } ${rule.path})`,
+  }));
+}
+
+/**
+ * Decides whether `method` on `path` may be forwarded.
+ *
+ * Rules are checked in order and the first one matching both path and
+ * method wins. When none does, the request is allowed only if the list has
+ * no `allow` rules; otherwise it is rejected with 405 if an `allow` rule
+ * matched the path for other methods, or 403 if nothing matched.
+ */
+export function evaluateRoutes(
+  routes: CompiledRoute[],
+  method: string,
+  path: string,
+): RouteDecision {
+  let hasAllowRules = false;
+  let pathOnlyMatch: CompiledRoute | undefined;
+  const allowedMethods = new Set<string>();
+
+  for (const route of routes) {
+    const { rule } = route;
+    if (rule.action === "allow") hasAllowRules = true;
+    if (!route.regex.test(path)) continue;
+    if (!rule.methods || rule.methods.includes(method)) {
+      return rule.action === "allow"
+        ? { allowed: true, rule: route.label }
+        : { allowed: false, status: 403, rule: route.label };
+    }
+    if (rule.action === "allow") {
+      pathOnlyMatch ??= route;
+      rule.methods.forEach((m) => allowedMethods.add(m));
+    }
+  }
+
+  if (!hasAllowRules) return { allowed: true };
+  if (pathOnlyMatch) {
+    return {
+      allowed: false,
+      status: 405,
+      rule: pathOnlyMatch.label,
+      allow: [...allowedMethods],
+    };
+  }
+  return { allowed: false, status: 403, rule: "no allow rule matched" };
+}
@@ -0,0 +1,105 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+  compileRoutes,
+  evaluateRoutes,
+  globToRegExp,
+  normalizePath,
+} from "./routes.ts";
+
+Deno.test("globToRegExp", () => {
+  const single = globToRegExp("/v1/files/*");
+  assert(single.test("/v1/files/abc"));
+  assert(!single.test("/v1/files/abc/content"));
+  assert(!single.test("/v1/files"));
+
+  const deep = globToRegExp("/v1/files/**");
+  assert(deep.test("/v1/files"));
+  assert(deep.test("/v1/files/abc/content"));
+  assert(!deep.test("/v1/filesystem"));
+
+  const middle = globToRegExp("/v1/**/content");
+  assert(middle.test("/v1/files/abc/content"));
+  assert(!middle.test("/v1/files/abc"));
+
+  assert(globToRegExp("/v1/models").test("/v1/models"));
+  assert(!globToRegExp("/v1/models").test("/v1/models/x"));
+  assert(!globToRegExp("/a.b").test("/axb"));
+  assert(globToRegExp("/v1/files/**").test("/V1/Files/abc"));
+});
+
+Deno.test("normalizePath", async (t) => {
+  await t.step("decodes escaped unreserved characters", () => {
+    assertEquals(
+      normalizePath(["v1", "%66iles", "a%2Db%7e"]),
+      "/v1/files/a-b~",
+    );
+  });
+
+  await t.step("keeps other escapes, upper-cased", () => {
+    assertEquals(normalizePath(["a%20b", "%c3%a9"]), "/a%20b/%C3%A9");
+  });
+
+  await t.step("rejects encoded slashes and backslashes", () => {
+    assertEquals(normalizePath(["v1", "files%2Fabc"]), undefined);
+    assertEquals(normalizePath(["v1", "files%2fabc"]), undefined);
+    assertEquals(normalizePath(["v1", "files%5Cabc"]), undefined);
+  });
+
+  await t.step("rejects dot-segments, escaped or not", () => {
+    assertEquals(normalizePath(["v1", "..", "admin"]), undefined);
+    assertEquals(normalizePath(["v1", "."]), undefined);
+    assertEquals(normalizePath(["v1", "%2e%2E", "admin"]), undefined);
+    assertEquals(normalizePath(["v1", ".%2e"]), undefined);
+  });
+
+  await t.step("leaves plain paths alone", () => {
+    assertEquals(normalizePath([]), "/");
+    assertEquals(normalizePath(["v1", "files", "a.b"]), "/v1/files/a.b");
+  });
+});
+
+Deno.test("evaluateRoutes", async (t) => {
+  const routes = compileRoutes([
+    { action: "deny", path: "/v1/files/**", methods: ["DELETE"] },
+    { action: "allow", path: "/v1/responses", methods: ["POST"] },
+    { action: "allow", path: "/v1/models", methods: ["GET"], name: "models" },
+  ]);
+
+  await t.step("allows the first matching allow rule", () => {
+    assertEquals(evaluateRoutes(routes, "POST", "/v1/responses"), {
+      allowed: true,
+      rule: "routes[1] (allow POST /v1/responses)",
+    });
+    assertEquals(evaluateRoutes(routes, "GET", "/v1/models").allowed, true);
+  });
+
+  await t.step("rejects deny matches with 403", () => {
+    assertEquals(evaluateRoutes(routes, "DELETE", "/v1/files/abc"), {
+      allowed: false,
+      status: 403,
+      rule: "routes[0] (deny DELETE /v1/files/**)",
+    });
+  });
+
+  await t.step("rejects other methods on allowed paths with 405", () => {
+    assertEquals(evaluateRoutes(routes, "DELETE", "/v1/models"), {
+      allowed: false,
+      status: 405,
+      rule: "models",
+      allow: ["GET"],
+    });
+  });
+
+  await t.step("rejects unmatched paths when allow rules exist", () => {
+    const decision = evaluateRoutes(routes, "GET", "/v1/files/abc");
+    assertEquals(decision.allowed, false);
+    assertEquals(!decision.allowed && decision.status, 403);
+  });
+
+  await t.step("allows by default when there are only deny rules", () => {
+    const denyOnly = compileRoutes([{ action: "deny", path: "/admin/**" }]);
+    assertEquals(evaluateRoutes(denyOnly, "GET", "/public").allowed, true);
+    assertEquals(evaluateRoutes(denyOnly, "GET", "/admin/x").allowed, false);
+    assertEquals(evaluateRoutes([], "DELETE", "/anything").allowed, true);
+  });
+});
@@ -0,0 +1,108 @@
+// ===================================================================
+// SSRF PROTECTION (Internal address checks & redirect validation)
+// ===================================================================
+import { type IpAddress, ipInCidrs, parseCidr, parseIp } from "./client_ip.ts";
+
+/** Default for `ProxyConfig.maxRedirects`. */
+export const DEFAULT_MAX_REDIRECTS = 5;
+
+/** Resolves a hostname to the IP addresses it would be fetched from. */
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+/**
+ * Ranges that must not be reached through the proxy unless a host entry
+ * opts in: "this network", private (RFC 1918), shared (CGNAT), loopback,
+ * link-local (including cloud metadata at 169.254.169.254), multicast and
+ * reserved space, plus their IPv6 counterparts. NAT64 and 6to4 prefixes
+ * are refused as a whole, since they can embed any of the IPv4 ones.
+ */
+export const INTERNAL_ADDRESS_RANGES = [
+  "0.0.0.0/8",
+  "10.0.0.0/8",
+  "100.64.0.0/10",
+  "127.0.0.0/8",
+  "169.254.0.0/16",
+  "172.16.0.0/12",
+  "192.168.0.0/16",
+  "224.0.0.0/4",
+  "240.0.0.0/4",
+  "::/128",
+  "::1/128",
+  "64:ff9b::/96",
+  "64:ff9b:1::/48",
+  "2002::/16",
+  "fc00::/7",
+  "fe80::/10",
+  "ff00::/8",
+].map(parseCidr);
+
+/** Whether `ip` is in one of the {@link INTERNAL_ADDRESS_RANGES}. */
+export function isInternalAddress(ip: IpAddress): boolean {
+  return ipInCidrs(ip, INTERNAL_ADDRESS_RANGES);
+}
+
+/** Resolves A and AAAA records with `Deno.resolveDns`. */
+export async function resolveWithDns(hostname: string): Promise<string[]> {
+  const results = await Promise.allSettled([
+    Deno.resolveDns(hostname, "A"),
+    Deno.resolveDns(hostname, "AAAA"),
+  ]);
+  const addresses = results.flatMap((result) =>
+    result.status === "fulfilled" ? result.value : []
+  );
+  if (!addresses.length) {
+    const failure = results.find((r) => r.status === "rejected");
+    throw failure
+      ? (failure as PromiseRejectedResult).reason
+      : new Error(`No addresses found for '${hostname}'`);
+  }
+  return addresses;
+}
+
+/** Outcome of {@link checkTarget}. */
+export type TargetCheck =
+  | { ok: true }
+  | { ok: false; reason: string };
+
+/**
+ * Decides whether `hostname` may be fetched. IP literals are refused
+ * outright, and names are refused when any address they resolve to is
+ * internal, so a public name pointing at a private address cannot be used
+ * to reach internal services.
+ *
+ * @throws when `hostname` cannot be resolved.
+ */
+export async function checkTarget(
+  hostname: string,
+  resolve: HostResolver,
+): Promise<TargetCheck> {
+  if (parseIp(hostname)) {
+    return { ok: false, reason: `'${hostname}' is an IP address` };
+  }
+  for (const address of await resolve(hostname)) {
+    const ip = parseIp(address);
+    if (!ip || isInternalAddress(ip)) {
+      return {
+        ok: false,
+        reason: `'${hostname}' resolves to internal address ${address}`,
+      };
+    }
+  }
+  return { ok: true };
+}
+
+/** Whether `status` is a redirect that carries a `Location` to follow. */
+export function isRedirect(status: number): boolean {
+  return [301, 302, 303, 307, 308].includes(status);
+}
+
+/**
+ * The method to use after a redirect with `status`, as browsers do: `303`
+ * always becomes `GET` (except for `HEAD`), and so do `POST`s answered with
+ * `301`/`302`. Other requests keep their method and body.
+ */
+export function redirectMethod(status: number, method: string): string {
+  if (status === 303 && method !== "HEAD") return "GET";
+  if ((status === 301 || status === 302) && method === "POST") return "GET";
+  return method;
+}
@@ -0,0 +1,76 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { parseIp } from "./client_ip.ts";
+import { checkTarget, isInternalAddress, redirectMethod } from "./ssrf.ts";
+
+Deno.test("isInternalAddress", () => {
+  for (
+    const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.31.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "::1",
+      "fd00::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+      "64:ff9b::7f00:1",
+      "64:ff9b::169.254.169.254",
+      "64:ff9b:1::a00:1",
+      "2002:7f00:1::1",
+      "2002:a9fe:a9fe::",
+    ]
+  ) {
+    assertEquals(isInternalAddress(parseIp(address)!), true, address);
+  }
+  for (const address of ["8.8.8.8", "172.32.0.1", "2606:4700::1111"]) {
+    assertEquals(isInternalAddress(parseIp(address)!), false, address);
+  }
+});
+
+Deno.test("checkTarget", async (t) => {
+  const resolve = (map: Record<string, string[]>) => (hostname: string) =>
+    Promise.resolve(map[hostname] ?? []);
+
+  await t.step("allows names resolving to public addresses", async () => {
+    assertEquals(
+      await checkTarget("api.test", resolve({ "api.test": ["8.8.8.8"] })),
+      { ok: true },
+    );
+  });
+
+  await t.step("refuses names with any internal address", async () => {
+    const check = await checkTarget(
+      "api.test",
+      resolve({ "api.test": ["8.8.8.8", "10.0.0.1"] }),
+    );
+    assertEquals(check, {
+      ok: false,
+      reason: "'api.test' resolves to internal address 10.0.0.1",
+    });
+  });
+
+  await t.step("refuses IP literals without resolving", async () => {
+    const check = await checkTarget("8.8.8.8", () => {
+      throw new Error("not called");
+    });
+    assertEquals(check.ok, false);
+  });
+
+  await t.step("propagates resolution failures", async () => {
+    await assertRejects(
+      () => checkTarget("nx.test", () => Promise.reject(new Error("NXDOMAIN"))),
+      Error,
+      "NXDOMAIN",
+    );
+  });
+});
+
+Deno.test("redirectMethod", () => {
+  assertEquals(redirectMethod(303, "PUT"), "GET");
+  assertEquals(redirectMethod(303, "HEAD"), "HEAD");
+  assertEquals(redirectMethod(302, "POST"), "GET");
+  assertEquals(redirectMethod(307, "POST"), "POST");
+});
@@ -0,0 +1,178 @@
+// Shared fixtures for the in-process unit tests.
+import type { ProxyConfig } from "./config.ts";
+import type { ProxyHandlerInfo } from "./handler.ts";
+import type { WebSocketConnector } from "./websocket.ts";
+
+/** A connection info value for a TCP client at `hostname`. */
+export function tcpInfo(hostname = "127.0.0.1"): ProxyHandlerInfo {
+  return { remoteAddr: { transport: "tcp", hostname, port: 40000 } };
+}
+
+/** An upstream request as observed by {@link recordingFetch}. */
+export interface RecordedRequest {
+  url: string;
+  method: string;
+  headers: Headers;
+  body: string | null;
+}
+
+/**
+ * A fake `fetch` that records every upstream request and answers with
+ * `respond` (a 200 "ok" by default).
+ */
+export function recordingFetch(
+  respond: (request: RecordedRequest) => Response | Promise<Response> = () =>
+    new Response("ok"),
+): { fetch: typeof fetch; requests: RecordedRequest[] } {
+  const requests: RecordedRequest[] = [];
+  const fakeFetch = async (
+    input: string | URL | Request,
+    init?: RequestInit,
+  ): Promise<Response> => {
+    const request = new Request(input, init);
+    const recorded: RecordedRequest = {
+      url: request.url,
+      method: request.method,
+      headers: request.headers,
+      body: request.body ? await request.text() : null,
+    };
+    requests.push(recorded);
+    return await respond(recorded);
+  };
+  return { fetch: fakeFetch as typeof fetch, requests };
+}
+
+/** A permissive config for tests; override fields as needed. */
+export function testConfig(overrides: Partial<ProxyConfig> = {}): ProxyConfig {
+  return {
+    hosts: [{ host: "api.example.com" }],
+    timeoutMs: 1000,
+    rateLimit: { windowMs: 60000, maxRequests: 1000 },
+    // A public documentation address, so the internal-address check passes.
+    resolveHost: () => Promise.resolve(["203.0.113.10"]),
+    ...overrides,
+  };
+}
+
+/** A span as received by {@link startCollector}, attributes flattened. */
+export interface CollectedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  status: { code: number };
+  attributes: Record<string, unknown>;
+  serviceName: unknown;
+}
+
+interface OtlpAttribute {
+  key: string;
+  value: Record<string, unknown>;
+}
+
+function flattenAttributes(list: OtlpAttribute[]): Record<string, unknown> {
+  return Object.fromEntries(
+    list.map(({ key, value }) => [key, Object.values(value)[0]]),
+  );
+}
+
+/**
+ * A stand-in OpenTelemetry collector on a random local port, recording the
+ * spans posted to it as OTLP/HTTP JSON.
+ */
+export function startCollector(): {
+  endpoint: string;
+  spans: CollectedSpan[];
+  headers: Headers[];
+  close(): Promise<void>;
+} {
+  const spans: CollectedSpan[] = [];
+  const headers: Headers[] = [];
+  const server = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, onListen() {} },
+    async (request) => {
+      headers.push(request.headers);
+      const { resourceSpans } = await request.json();
+      for (const { resource, scopeSpans } of resourceSpans) {
+        const serviceName =
+          flattenAttributes(resource.attributes)["service.name"];
+        for (const scope of scopeSpans) {
+          for (const span of scope.spans) {
+            spans.push({
+              ...span,
+              attributes: flattenAttributes(span.attributes),
+              serviceName,
+            });
+          }
+        }
+      }
+      return Response.json({});
+    },
+  );
+  return {
+    endpoint: `http://127.0.0.1:${server.addr.port}/v1/traces`,
+    spans,
+    headers,
+    close: () => server.shutdown(),
+  };
+}
+
+/** A handshake as received by {@link startWebSocketUpstream}. */
+export interface UpgradeRequest {
+  url: string;
+  headers: Headers;
+}
+
+/**
+ * A WebSocket upstream on a random local port. It echoes every frame,
+ * except `close <code> <reason>`, which makes it close the socket. Its
+ * `connect` stands in for the proxy's upstream connector, sending `wss:`
+ * URLs for any host to this server.
+ */
+export function startWebSocketUpstream(): {
+  connect: WebSocketConnector;
+  requests: UpgradeRequest[];
+  /** Close events seen by the upstream, as `[code, reason]`. */
+  closes: Promise<[number, string]>[];
+  close(): Promise<void>;
+} {
+  const requests: UpgradeRequest[] = [];
+  const closes: Promise<[number, string]>[] = [];
+  const server = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, onListen() {} },
+    (request) => {
+      requests.push({ url: request.url, headers: request.headers });
+      const protocol = request.headers.get("sec-websocket-protocol")
+        ?.split(",")[0].trim();
+      const { socket, response } = Deno.upgradeWebSocket(request, {
+        protocol,
+      });
+      socket.onmessage = ({ data }) => {
+        const command = typeof data === "string" &&
+          data.match(/^close (\d+) (.*)$/);
+        if (command) {
+          socket.close(Number(command[1]), command[2]);
+        } else {
+          socket.send(data);
+        }
+      };
+      closes.push(
+        new Promise((resolve) => {
+          socket.onclose = ({ code, reason }) => resolve([code, reason]);
+        }),
+      );
+      return response;
+    },
+  );
+  return {
+    connect: (url, options) =>
+      new WebSocket(
+        url.replace(/^wss:\/\/[^/]+/, `ws://127.0.0.1:${server.addr.port}`),
+        options,
+      ),
+    requests,
+    closes,
+    close: () => server.shutdown(),
+  };
+}
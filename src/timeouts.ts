@@ -0,0 +1,110 @@
+// ===================================================================
+// TIMEOUTS (Header, idle & total limits on upstream exchanges)
+// ===================================================================
+import type { HostConfig, ProxyConfig } from "./config.ts";
+
+/** The limit an upstream exchange ran into. */
+export type TimeoutPhase = "headers" | "idle" | "total";
+
+/** The timeouts applying to one upstream exchange, in milliseconds. */
+export interface Timeouts {
+  /** Until the response headers arrive. */
+  headersMs: number;
+  /** Between two chunks of the response body. */
+  idleMs: number;
+  /** For the whole exchange; unlimited when undefined. */
+  totalMs?: number;
+}
+
+/** The timeouts for requests to `host`, with host settings taking priority. */
+export function resolveTimeouts(
+  config: ProxyConfig,
+  host: HostConfig,
+): Timeouts {
+  const headersMs = host.timeoutMs ?? config.timeoutMs;
+  return {
+    headersMs,
+    idleMs: host.idleTimeoutMs ?? config.idleTimeoutMs ?? headersMs,
+    totalMs: host.totalTimeoutMs ?? config.totalTimeoutMs,
+  };
+}
+
+/**
+ * How long to wait for response headers, and which limit that wait runs
+ * into: the header timeout, or the total timeout when it is shorter.
+ */
+export function headersDeadline(
+  timeouts: Timeouts,
+): { phase: TimeoutPhase; ms: number } {
+  return timeouts.totalMs !== undefined && timeouts.totalMs < timeouts.headersMs
+    ? { phase: "total", ms: timeouts.totalMs }
+    : { phase: "headers", ms: timeouts.headersMs };
+}
+
+/** Raised when an upstream exchange exceeds one of its {@link Timeouts}. */
+export class UpstreamTimeoutError extends Error {
+  phase: TimeoutPhase;
+  timeoutMs: number;
+
+  constructor(phase: TimeoutPhase, timeoutMs: number) {
+    super(`Upstream ${phase} timeout of ${timeoutMs}ms exceeded`);
+    this.name = "TimeoutError";
+    this.phase = phase;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Passes a response body through, enforcing the idle and total timeouts
+ * of an exchange that began at `startedAt` (a `performance.now()` time).
+ * When one fires, the upstream body is cancelled, `onTimeout` is called and
+ * the stream fails with an {@link UpstreamTimeoutError}. Time the consumer
+ * spends not reading does not count as idle.
+ */
+export function guardStream(
+  stream: ReadableStream<Uint8Array>,
+  timeouts: Timeouts,
+  startedAt: number,
+  onTimeout: (error: UpstreamTimeoutError) => void,
+): ReadableStream<Uint8Array> {
+  const { idleMs, totalMs } = timeouts;
+  const reader = stream.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const remainingMs = totalMs === undefined
+        ? Infinity
+        : startedAt + totalMs - performance.now();
+      let timeoutId: number | undefined;
+      const timeout = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(
+          () =>
+            reject(
+              remainingMs < idleMs
+                ? new UpstreamTimeoutError("total", totalMs!)
+                : new UpstreamTimeoutError("idle", idleMs),
+            ),
+          Math.max(0, Math.min(idleMs, remainingMs)),
+        );
+      });
+      try {
+        const result = await Promise.race([reader.read(), timeout]);
+        if (result.done) {
+          controller.close();
+        } else {
+          controller.enqueue(result.value);
+        }
+      } catch (error) {
+        if (error instanceof UpstreamTimeoutError) {
+          reader.cancel(error).catch(() => {});
+          onTimeout(error);
+        }
+        controller.error(error);
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    },
+    async cancel(reason) {
+      await reader.cancel(reason);
+    },
+  });
+}
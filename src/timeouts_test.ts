@@ -0,0 +1,95 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  guardStream,
+  headersDeadline,
+  resolveTimeouts,
+  UpstreamTimeoutError,
+} from "./timeouts.ts";
+import { testConfig } from "./test_helpers.ts";
+
+Deno.test("resolveTimeouts", () => {
+  const config = testConfig({ timeoutMs: 1000, totalTimeoutMs: 60000 });
+  assertEquals(resolveTimeouts(config, { host: "a.test" }), {
+    headersMs: 1000,
+    idleMs: 1000,
+    totalMs: 60000,
+  });
+  assertEquals(
+    resolveTimeouts(
+      { ...config, idleTimeoutMs: 5000 },
+      { host: "a.test", timeoutMs: 200, totalTimeoutMs: 100 },
+    ),
+    { headersMs: 200, idleMs: 5000, totalMs: 100 },
+  );
+});
+
+Deno.test("headersDeadline", () => {
+  assertEquals(headersDeadline({ headersMs: 200, idleMs: 200 }), {
+    phase: "headers",
+    ms: 200,
+  });
+  assertEquals(headersDeadline({ headersMs: 200, idleMs: 200, totalMs: 50 }), {
+    phase: "total",
+    ms: 50,
+  });
+});
+
+Deno.test("guardStream", async (t) => {
+  // A source that yields one chunk and then stalls until cancelled.
+  const stalling = () => {
+    let cancelled: unknown;
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array([1]));
+      },
+      cancel(reason) {
+        cancelled = reason;
+      },
+    });
+    return { stream, cancelled: () => cancelled };
+  };
+
+  await t.step("passes complete bodies through", async () => {
+    const guarded = guardStream(
+      new Response("hello").body!,
+      { headersMs: 10, idleMs: 10, totalMs: 1000 },
+      performance.now(),
+      () => {
+        throw new Error("must not time out");
+      },
+    );
+    assertEquals(await new Response(guarded).text(), "hello");
+  });
+
+  await t.step("fails stalled bodies and cancels the source", async () => {
+    const source = stalling();
+    const timeouts: UpstreamTimeoutError[] = [];
+    const guarded = guardStream(
+      source.stream,
+      { headersMs: 1000, idleMs: 20 },
+      performance.now(),
+      (error) => timeouts.push(error),
+    );
+    await assertRejects(
+      () => new Response(guarded).arrayBuffer(),
+      UpstreamTimeoutError,
+      "idle timeout of 20ms",
+    );
+    assertEquals(timeouts.map((error) => error.phase), ["idle"]);
+    assertEquals(source.cancelled(), timeouts[0]);
+  });
+
+  await t.step("applies the total timeout from the start", async () => {
+    const guarded = guardStream(
+      stalling().stream,
+      { headersMs: 1000, idleMs: 1000, totalMs: 50 },
+      performance.now() - 40,
+      () => {},
+    );
+    await assertRejects(
+      () => new Response(guarded).arrayBuffer(),
+      UpstreamTimeoutError,
+      "total timeout of 50ms",
+    );
+  });
+});
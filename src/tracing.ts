@@ -0,0 +1,252 @@
+// ===================================================================
+// TRACING (W3C trace context & OTLP/HTTP span export)
+// ===================================================================
+import { PROXY_VERSION, type TracingConfig } from "./config.ts";
+import { logEvent } from "./log.ts";
+
+/** The parts of a `traceparent` header (version `00`). */
+export interface TraceContext {
+  /** 32 lower-case hex digits. */
+  traceId: string;
+  /** 16 lower-case hex digits: the span the context points at. */
+  spanId: string;
+  sampled: boolean;
+}
+
+const TRACEPARENT =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * Parses a `traceparent` header. Returns `undefined` for malformed values,
+ * all-zero ids and the forbidden version `ff`. Later versions are read as
+ * version `00`, ignoring any extra fields, as the spec requires.
+ */
+export function parseTraceparent(
+  value: string | null,
+): TraceContext | undefined {
+  const match = value?.trim().match(TRACEPARENT);
+  if (!match) return undefined;
+  const [, version, traceId, spanId, flags, rest] = match;
+  if (version === "ff" || (version === "00" && rest !== undefined)) {
+    return undefined;
+  }
+  if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) return undefined;
+  return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+}
+
+/** Formats `context` as a version `00` `traceparent` header. */
+export function formatTraceparent(context: TraceContext): string {
+  return `00-${context.traceId}-${context.spanId}-${
+    context.sampled ? "01" : "00"
+  }`;
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/** Attribute values a span can carry. */
+export type AttributeValue = string | number | boolean;
+
+/** A span being recorded. */
+export interface Span {
+  /** This span's context, to propagate to the upstream. */
+  context: TraceContext;
+  /** Span id of the caller's span, when the request joined a trace. */
+  parentSpanId?: string;
+  name: string;
+  /** Unix time in milliseconds, with sub-millisecond precision. */
+  startTime: number;
+  endTime?: number;
+  attributes: Record<string, AttributeValue>;
+  /** Marks the span as failed (OTLP status code `ERROR`). */
+  error?: boolean;
+}
+
+/** The current Unix time in milliseconds, with sub-millisecond precision. */
+export function preciseNow(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+/**
+ * Starts a server span for a request carrying `headers`. The span joins
+ * the caller's trace when `traceparent` is valid and inherits its sampling
+ * decision; otherwise it starts a new trace, sampled with `sampleRatio`.
+ */
+export function startSpan(
+  name: string,
+  headers: Headers,
+  sampleRatio = 1,
+): Span {
+  const parent = parseTraceparent(headers.get("traceparent"));
+  return {
+    context: {
+      traceId: parent?.traceId ?? randomHex(16),
+      spanId: randomHex(8),
+      sampled: parent ? parent.sampled : Math.random() < sampleRatio,
+    },
+    parentSpanId: parent?.spanId,
+    name,
+    startTime: preciseNow(),
+    attributes: {},
+  };
+}
+
+/**
+ * Sets `traceparent` on an upstream request so the upstream's spans become
+ * children of `span`. `tracestate` belongs to the caller's trace and is
+ * only kept when the span joined it.
+ */
+export function injectTraceContext(headers: Headers, span: Span): void {
+  headers.set("traceparent", formatTraceparent(span.context));
+  if (!span.parentSpanId) headers.delete("tracestate");
+}
+
+/** Receives finished spans. */
+export interface SpanExporter {
+  export(span: Span): void;
+  /** Sends everything buffered so far, resolving once all exports ended. */
+  flush(): Promise<void>;
+  /** Flushes and stops the export timer. */
+  close(): Promise<void>;
+}
+
+/** Options for {@link createOtlpExporter}. */
+export interface OtlpExporterOptions
+  extends Pick<TracingConfig, "headers" | "serviceName"> {
+  /** OTLP/HTTP traces endpoint. */
+  endpoint: string;
+  /** Spans sent per request. Defaults to 512. */
+  maxBatchSize?: number;
+  /** Spans buffered before new ones are dropped. Defaults to 2048. */
+  maxQueueSize?: number;
+  /** Milliseconds a span waits before its batch is sent. Defaults to 5000. */
+  flushIntervalMs?: number;
+  /** Defaults to the global `fetch`. */
+  fetch?: typeof fetch;
+}
+
+function attributeValue(value: AttributeValue) {
+  if (typeof value === "string") return { stringValue: value };
+  if (typeof value === "boolean") return { boolValue: value };
+  return Number.isInteger(value)
+    ? { intValue: String(value) }
+    : { doubleValue: value };
+}
+
+function attributes(values: Record<string, AttributeValue>) {
+  return Object.entries(values).map(([key, value]) => ({
+    key,
+    value: attributeValue(value),
+  }));
+}
+
+function unixNanos(ms: number): string {
+  return (BigInt(Math.floor(ms)) * 1_000_000n +
+    BigInt(Math.round((ms % 1) * 1_000_000))).toString();
+}
+
+/** Encodes spans as an OTLP/HTTP JSON `ExportTraceServiceRequest`. */
+export function encodeSpans(spans: Span[], serviceName: string): unknown {
+  return {
+    resourceSpans: [{
+      resource: { attributes: attributes({ "service.name": serviceName }) },
+      scopeSpans: [{
+        scope: { name: "deno-proxy", version: PROXY_VERSION },
+        spans: spans.map((span) => ({
+          traceId: span.context.traceId,
+          spanId: span.context.spanId,
+          ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+          name: span.name,
+          kind: 2, // SPAN_KIND_SERVER
+          startTimeUnixNano: unixNanos(span.startTime),
+          endTimeUnixNano: unixNanos(span.endTime ?? span.startTime),
+          attributes: attributes(span.attributes),
+          status: { code: span.error ? 2 : 0 },
+        })),
+      }],
+    }],
+  };
+}
+
+/**
+ * Batches spans and posts them to an OpenTelemetry collector as OTLP/HTTP
+ * JSON. Failed exports are logged and dropped: tracing must never hold up
+ * or break proxying.
+ */
+export function createOtlpExporter(options: OtlpExporterOptions): SpanExporter {
+  const {
+    endpoint,
+    headers = {},
+    serviceName = "deno-proxy",
+    maxBatchSize = 512,
+    maxQueueSize = 2048,
+    flushIntervalMs = 5000,
+    fetch: exportFetch = fetch,
+  } = options;
+  let queue: Span[] = [];
+  let timerId: number | undefined;
+  let dropped = 0;
+  // Exports still under way, so that close() can wait for them.
+  const pending = new Set<Promise<void>>();
+
+  const send = async (batch: Span[]) => {
+    try {
+      const response = await exportFetch(endpoint, {
+        method: "POST",
+        headers: { ...headers, "content-type": "application/json" },
+        body: JSON.stringify(encodeSpans(batch, serviceName)),
+      });
+      await response.body?.cancel();
+      if (!response.ok) {
+        throw new Error(`Collector answered ${response.status}`);
+      }
+    } catch (error) {
+      logEvent("WARN", "Span export failed", {
+        endpoint,
+        spans: batch.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const flush = async () => {
+    clearTimeout(timerId);
+    timerId = undefined;
+    if (dropped) {
+      logEvent("WARN", "Span export queue full, spans dropped", { dropped });
+      dropped = 0;
+    }
+    const batches: Span[][] = [];
+    for (let i = 0; i < queue.length; i += maxBatchSize) {
+      batches.push(queue.slice(i, i + maxBatchSize));
+    }
+    queue = [];
+    for (const batch of batches) {
+      const sent = send(batch).finally(() => pending.delete(sent));
+      pending.add(sent);
+    }
+    await Promise.all(pending);
+  };
+
+  return {
+    export(span) {
+      if (queue.length >= maxQueueSize) {
+        dropped++;
+        return;
+      }
+      queue.push(span);
+      if (queue.length >= maxBatchSize) {
+        void flush();
+      } else if (timerId === undefined) {
+        timerId = setTimeout(() => void flush(), flushIntervalMs);
+        // A pending export must not keep the process alive.
+        Deno.unrefTimer(timerId);
+      }
+    },
+    flush,
+    close: flush,
+  };
+}
@@ -0,0 +1,113 @@
+import { assert, assertEquals, assertNotEquals } from "@std/assert";
+import {
+  createOtlpExporter,
+  formatTraceparent,
+  injectTraceContext,
+  parseTraceparent,
+  preciseNow,
+  type Span,
+  startSpan,
+} from "./tracing.ts";
+import { startCollector } from "./test_helpers.ts";
+
+const PARENT = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+
+Deno.test("parseTraceparent", async (t) => {
+  await t.step("reads valid headers", () => {
+    assertEquals(parseTraceparent(PARENT), {
+      traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+      spanId: "00f067aa0ba902b7",
+      sampled: true,
+    });
+    assertEquals(
+      parseTraceparent(PARENT.replace(/01$/, "00"))?.sampled,
+      false,
+    );
+  });
+
+  await t.step("reads future versions as version 00", () => {
+    assertEquals(
+      parseTraceparent(PARENT.replace(/^00/, "cc") + "-extra")?.spanId,
+      "00f067aa0ba902b7",
+    );
+  });
+
+  await t.step("rejects malformed values", () => {
+    for (
+      const value of [
+        null,
+        "",
+        PARENT.toUpperCase(),
+        PARENT + "-extra",
+        PARENT.replace(/^00/, "ff"),
+        `00-${"0".repeat(32)}-00f067aa0ba902b7-01`,
+        `00-4bf92f3577b34da6a3ce929d0e0e4736-${"0".repeat(16)}-01`,
+      ]
+    ) {
+      assertEquals(parseTraceparent(value), undefined, String(value));
+    }
+  });
+});
+
+Deno.test("startSpan", async (t) => {
+  await t.step("joins the caller's trace", () => {
+    const span = startSpan("GET", new Headers({ traceparent: PARENT }));
+    assertEquals(span.context.traceId, "4bf92f3577b34da6a3ce929d0e0e4736");
+    assertEquals(span.parentSpanId, "00f067aa0ba902b7");
+    assertNotEquals(span.context.spanId, "00f067aa0ba902b7");
+    assertEquals(span.context.sampled, true);
+  });
+
+  await t.step("starts a trace when there is no valid parent", () => {
+    const span = startSpan("GET", new Headers({ traceparent: "junk" }), 0);
+    assertEquals(span.parentSpanId, undefined);
+    assertEquals(span.context.traceId.length, 32);
+    assertEquals(span.context.sampled, false);
+  });
+
+  await t.step("propagates tracestate only within the caller's trace", () => {
+    const joined = new Headers({ traceparent: PARENT, tracestate: "a=1" });
+    const span = startSpan("GET", joined);
+    injectTraceContext(joined, span);
+    assertEquals(joined.get("traceparent"), formatTraceparent(span.context));
+    assertEquals(joined.get("tracestate"), "a=1");
+
+    const fresh = new Headers({ tracestate: "a=1" });
+    injectTraceContext(fresh, startSpan("GET", fresh));
+    assertEquals(fresh.get("tracestate"), null);
+  });
+});
+
+Deno.test("createOtlpExporter posts batches to the collector", async () => {
+  const collector = startCollector();
+  try {
+    const exporter = createOtlpExporter({
+      endpoint: collector.endpoint,
+      headers: { "x-api-key": "secret" },
+      serviceName: "edge-proxy",
+      maxBatchSize: 2,
+    });
+    const span: Span = {
+      ...startSpan("GET api.example.com", new Headers({ traceparent: PARENT })),
+      attributes: { "http.response.status_code": 200, "proxy.outcome": "ok" },
+    };
+    span.endTime = preciseNow();
+    for (let i = 0; i < 3; i++) exporter.export(span);
+    await exporter.close();
+
+    assertEquals(collector.headers.length, 2);
+    assertEquals(collector.headers[0].get("x-api-key"), "secret");
+    assertEquals(collector.spans.length, 3);
+    const [received] = collector.spans;
+    assertEquals(received.serviceName, "edge-proxy");
+    assertEquals(received.parentSpanId, "00f067aa0ba902b7");
+    assertEquals(received.kind, 2);
+    assertEquals(received.attributes, {
+      "http.response.status_code": "200",
+      "proxy.outcome": "ok",
+    });
+    assert(collector.spans.every((s) => s.spanId === span.context.spanId));
+  } finally {
+    await collector.close();
+  }
+});
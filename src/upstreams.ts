@@ -0,0 +1,150 @@
+// ===================================================================
+// UPSTREAM ALIASES (Named routes, load balancing & health checks)
+// ===================================================================
+import type { UpstreamConfig } from "./config.ts";
+import { runCheck } from "./health.ts";
+import { logEvent } from "./log.ts";
+
+/** Default for `HealthCheckConfig.intervalMs`. */
+export const DEFAULT_HEALTH_CHECK_INTERVAL_MS = 10000;
+
+/** One backend of an upstream and what its health checks last said. */
+export interface Backend {
+  url: URL;
+  /** `true` until a health check fails. */
+  healthy: boolean;
+}
+
+/** The backends behind one upstream name. */
+export interface UpstreamPool {
+  readonly config: UpstreamConfig;
+  readonly backends: readonly Backend[];
+  /**
+   * The base URL for the next attempt. Healthy backends that `usable`
+   * accepts and that were not `tried` yet come first; when there are none,
+   * untried ones, and then any backend, so a request is never refused
+   * only because every health check failed.
+   */
+  pick(tried?: ReadonlySet<string>, usable?: (url: URL) => boolean): URL;
+}
+
+/**
+ * Creates the pool for `config`, with every backend healthy. Throws when a
+ * backend uses `http://` without `allowHttp`.
+ */
+export function createUpstreamPool(config: UpstreamConfig): UpstreamPool {
+  const backends: Backend[] = config.backends.map((backend) => {
+    const url = new URL(backend);
+    if (url.protocol === "http:" && !config.allowHttp) {
+      throw new Error(
+        `Upstream "${config.name}" uses http:// without allowHttp`,
+      );
+    }
+    return { url, healthy: true };
+  });
+  let turn = 0;
+  return {
+    config,
+    backends,
+    pick(tried = new Set(), usable = () => true) {
+      const untried = backends.filter(({ url }) => !tried.has(url.href));
+      const candidates = [
+        untried.filter(({ url, healthy }) => healthy && usable(url)),
+        untried,
+        backends,
+      ].find((list) => list.length)!;
+      return config.balance === "priority"
+        ? candidates[0].url
+        : candidates[turn++ % candidates.length].url;
+    },
+  };
+}
+
+/**
+ * The URL for `path` on a backend: `path` appended to the base URL's path
+ * prefix. The base URL's query, if any, is dropped.
+ */
+export function backendUrl(base: URL, path: string): URL {
+  const url = new URL(base);
+  url.pathname = base.pathname.replace(/\/+$/, "") + path;
+  url.search = "";
+  return url;
+}
+
+/**
+ * The inverse of {@link backendUrl}: the path of `url` below the base URL
+ * of one of `pool`'s backends, or `undefined` when it is on none of them.
+ */
+export function backendPath(pool: UpstreamPool, url: URL): string | undefined {
+  for (const { url: base } of pool.backends) {
+    if (url.origin !== base.origin) continue;
+    const prefix = base.pathname.replace(/\/+$/, "");
+    if (url.pathname === prefix) return "/";
+    if (url.pathname.startsWith(prefix + "/")) {
+      return url.pathname.slice(prefix.length);
+    }
+  }
+  return undefined;
+}
+
+/** Background health checks, see {@link startHealthChecks}. */
+export interface HealthChecker {
+  /** Stops checking and waits for checks under way. */
+  close(): Promise<void>;
+}
+
+/**
+ * Probes the backends of every pool with a `healthCheck`, right away and
+ * then every `intervalMs`, updating {@link Backend.healthy} and logging
+ * each change.
+ */
+export function startHealthChecks(
+  pools: UpstreamPool[],
+  upstreamFetch: typeof fetch,
+): HealthChecker {
+  const intervals: number[] = [];
+  const running = new Set<Promise<void>>();
+
+  const check = async (pool: UpstreamPool, backend: Backend) => {
+    const { healthCheck } = pool.config;
+    const result = await runCheck({
+      url: backendUrl(backend.url, healthCheck?.path ?? "/").toString(),
+      timeoutMs: healthCheck?.timeoutMs,
+    }, upstreamFetch);
+    if (result.ok === backend.healthy) return;
+    backend.healthy = result.ok;
+    logEvent(
+      result.ok ? "INFO" : "WARN",
+      result.ok ? "Backend passed its health check" : "Backend is unhealthy",
+      {
+        upstream: pool.config.name,
+        backend: backend.url.toString(),
+        status: result.status,
+        error: result.error,
+      },
+    );
+  };
+  const checkAll = (pool: UpstreamPool) => {
+    for (const backend of pool.backends) {
+      const pending = check(pool, backend);
+      running.add(pending);
+      pending.finally(() => running.delete(pending));
+    }
+  };
+
+  for (const pool of pools) {
+    if (!pool.config.healthCheck) continue;
+    checkAll(pool);
+    intervals.push(setInterval(
+      () => checkAll(pool),
+      pool.config.healthCheck.intervalMs ?? DEFAULT_HEALTH_CHECK_INTERVAL_MS,
+    ));
+  }
+
+  return {
+    async close() {
+      intervals.forEach(clearInterval);
+      await Promise.all(running);
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import { assertEquals } from "@std/assert";
+import { recordingFetch } from "./test_helpers.ts";
+import {
+  backendPath,
+  backendUrl,
+  createUpstreamPool,
+  startHealthChecks,
+} from "./upstreams.ts";
+
+const backends = ["https://a.test", "https://b.test", "https://c.test"];
+
+Deno.test("createUpstreamPool", async (t) => {
+  await t.step("takes turns with round_robin", () => {
+    const pool = createUpstreamPool({ name: "x", backends });
+    const picked = [1, 2, 3, 4].map(() => pool.pick().host);
+    assertEquals(picked, ["a.test", "b.test", "c.test", "a.test"]);
+  });
+
+  await t.step("prefers the first healthy backend with priority", () => {
+    const pool = createUpstreamPool({
+      name: "x",
+      backends,
+      balance: "priority",
+    });
+    assertEquals(pool.pick().host, "a.test");
+    pool.backends[0].healthy = false;
+    assertEquals(pool.pick().host, "b.test");
+    assertEquals(
+      pool.pick(new Set(), (url) => url.host !== "b.test").host,
+      "c.test",
+    );
+    assertEquals(pool.pick(new Set(["https://b.test/"])).host, "c.test");
+  });
+
+  await t.step("falls back to unhealthy backends", () => {
+    const pool = createUpstreamPool({
+      name: "x",
+      backends,
+      balance: "priority",
+    });
+    pool.backends.forEach((backend) => backend.healthy = false);
+    assertEquals(pool.pick().host, "a.test");
+    const tried = new Set(backends.map((url) => new URL(url).href));
+    assertEquals(pool.pick(tried).host, "a.test");
+  });
+});
+
+Deno.test("backendUrl appends the path to the base URL's prefix", () => {
+  const url = (base: string, path: string) =>
+    backendUrl(new URL(base), path).toString();
+  assertEquals(url("https://a.test", "/x"), "https://a.test/x");
+  assertEquals(url("https://a.test/v1/", "/x/y"), "https://a.test/v1/x/y");
+  assertEquals(url("http://a.test:8080/v1", "/"), "http://a.test:8080/v1/");
+});
+
+Deno.test("backendPath finds the path below a backend's base URL", () => {
+  const pool = createUpstreamPool({
+    name: "x",
+    backends: ["https://a.test/v1", "https://b.test"],
+  });
+  const path = (url: string) => backendPath(pool, new URL(url));
+  assertEquals(path("https://a.test/v1/x?y=1"), "/x");
+  assertEquals(path("https://a.test/v1"), "/");
+  assertEquals(path("https://a.test/v10"), undefined);
+  assertEquals(path("https://b.test/z"), "/z");
+  assertEquals(path("http://b.test/z"), undefined);
+});
+
+Deno.test("startHealthChecks marks failing backends", async () => {
+  const upstream = recordingFetch((request) =>
+    new Response(null, { status: request.url.includes("a.test") ? 503 : 200 })
+  );
+  const pool = createUpstreamPool({
+    name: "x",
+    backends: ["https://a.test/v1", "https://b.test"],
+    healthCheck: { path: "/health", intervalMs: 60000 },
+  });
+  const checks = startHealthChecks([pool], upstream.fetch);
+  await checks.close();
+
+  assertEquals(
+    upstream.requests.map((request) => request.url),
+    ["https://a.test/v1/health", "https://b.test/health"],
+  );
+  assertEquals(pool.backends.map((backend) => backend.healthy), [false, true]);
+});
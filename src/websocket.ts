@@ -0,0 +1,208 @@
+// ===================================================================
+// WEBSOCKETS (Bridging upgrade requests to upstream sockets)
+// ===================================================================
+import type { TimeoutPhase } from "./timeouts.ts";
+
+/** Options for opening the upstream side of a proxied WebSocket. */
+export interface WebSocketConnectOptions {
+  /** Subprotocols the client offered, in its order of preference. */
+  protocols: string[];
+  /** Forwarded request headers, without the client's handshake headers. */
+  headers: Headers;
+}
+
+/** Opens a WebSocket to an upstream `wss:` URL. */
+export type WebSocketConnector = (
+  url: string,
+  options: WebSocketConnectOptions,
+) => WebSocket;
+
+/** Opens upstream sockets with Deno's `WebSocket`, which accepts headers. */
+export const connectWebSocket: WebSocketConnector = (url, options) =>
+  new WebSocket(url, options);
+
+// Generated anew by the upstream socket for its own handshake.
+const HANDSHAKE_HEADERS = [
+  "sec-websocket-accept",
+  "sec-websocket-extensions",
+  "sec-websocket-key",
+  "sec-websocket-protocol",
+  "sec-websocket-version",
+];
+
+/** Whether `request` asks to be upgraded to a WebSocket. */
+export function isWebSocketUpgrade(request: Request): boolean {
+  return request.method === "GET" &&
+    (request.headers.get("upgrade") ?? "").split(",")
+      .some((token) => token.trim().toLowerCase() === "websocket");
+}
+
+/** Whether `request` carries a handshake `Deno.upgradeWebSocket` accepts. */
+export function isValidHandshake(request: Request): boolean {
+  return request.headers.get("sec-websocket-version") === "13" &&
+    /^[A-Za-z0-9+/]{22}==$/.test(
+      request.headers.get("sec-websocket-key") ?? "",
+    );
+}
+
+/** The subprotocols offered in `Sec-WebSocket-Protocol`. */
+export function offeredProtocols(headers: Headers): string[] {
+  return (headers.get("sec-websocket-protocol") ?? "").split(",")
+    .map((protocol) => protocol.trim())
+    .filter((protocol) => protocol);
+}
+
+/** Removes the client's handshake headers from forwarded `headers`. */
+export function stripHandshakeHeaders(headers: Headers): void {
+  HANDSHAKE_HEADERS.forEach((name) => headers.delete(name));
+}
+
+/**
+ * Waits for `socket` to open. Rejects when the handshake fails or takes
+ * longer than `timeoutMs`, with a `TimeoutError` in the latter case.
+ */
+export function whenOpen(socket: WebSocket, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeoutId = setTimeout(() => {
+      fail(new DOMException("WebSocket handshake timed out", "TimeoutError"));
+      socket.close();
+    }, timeoutMs);
+    // The error event carries the cause; the close event follows it.
+    let cause = "";
+    const errored = (event: Event) => {
+      if (event instanceof ErrorEvent) cause = event.message;
+    };
+    const settle = () => {
+      clearTimeout(timeoutId);
+      socket.removeEventListener("open", opened);
+      socket.removeEventListener("error", errored);
+      socket.removeEventListener("close", closed);
+    };
+    const fail = (error: Error) => {
+      settle();
+      reject(error);
+    };
+    const opened = () => {
+      settle();
+      resolve();
+    };
+    const closed = (event: CloseEvent) => {
+      const detail = cause || event.reason;
+      fail(new Error(`WebSocket handshake failed: ${detail || "closed"}`));
+    };
+    socket.addEventListener("open", opened);
+    socket.addEventListener("error", errored);
+    socket.addEventListener("close", closed);
+  });
+}
+
+/**
+ * The close code to pass on for `code`. Endpoints may only send `1000`
+ * and `3000`-`4999` themselves; anything else (going away, abnormal
+ * closure, ...) is passed on as a normal closure.
+ */
+export function forwardableCloseCode(code: number): number {
+  return code === 1000 || (code >= 3000 && code <= 4999) ? code : 1000;
+}
+
+/** Options for {@link bridgeWebSockets}. */
+export interface BridgeOptions {
+  /** Closes both sockets after this long without a frame either way. */
+  idleTimeoutMs: number;
+  /** Closes both sockets this long after the bridge was set up. */
+  totalTimeoutMs?: number;
+  /** Called for every relayed frame with its payload size. */
+  onFrame?(direction: "upstream" | "client", bytes: number): void;
+  /** Called when a timeout closes the sockets, before they are closed. */
+  onTimeout?(phase: Exclude<TimeoutPhase, "headers">, timeoutMs: number): void;
+}
+
+const encoder = new TextEncoder();
+
+function frameSize(data: string | ArrayBuffer): number {
+  return typeof data === "string"
+    ? encoder.encode(data).byteLength
+    : data.byteLength;
+}
+
+/**
+ * Relays frames between a client socket (still connecting, as returned by
+ * `Deno.upgradeWebSocket`) and an open upstream socket, until either side
+ * closes. The close code and reason are passed on to the other side.
+ * Resolves once both sockets are closed.
+ */
+export function bridgeWebSockets(
+  client: WebSocket,
+  upstream: WebSocket,
+  options: BridgeOptions,
+): Promise<void> {
+  const { idleTimeoutMs, totalTimeoutMs, onFrame, onTimeout } = options;
+  client.binaryType = "arraybuffer";
+  upstream.binaryType = "arraybuffer";
+
+  const { promise, resolve } = Promise.withResolvers<void>();
+  let open = 2;
+  let idleId: number | undefined;
+  let totalId: number | undefined;
+  const close = (socket: WebSocket, code: number, reason: string) => {
+    if (
+      socket.readyState === WebSocket.CONNECTING ||
+      socket.readyState === WebSocket.OPEN
+    ) {
+      socket.close(forwardableCloseCode(code), reason);
+    }
+  };
+  const closeBoth = (reason: string) => {
+    close(client, 1000, reason);
+    close(upstream, 1000, reason);
+  };
+  const touch = () => {
+    clearTimeout(idleId);
+    idleId = setTimeout(() => {
+      onTimeout?.("idle", idleTimeoutMs);
+      closeBoth("Idle timeout");
+    }, idleTimeoutMs);
+  };
+  if (totalTimeoutMs !== undefined) {
+    totalId = setTimeout(() => {
+      onTimeout?.("total", totalTimeoutMs);
+      closeBoth("Total timeout");
+    }, totalTimeoutMs);
+  }
+  const closed = () => {
+    if (--open > 0) return;
+    clearTimeout(idleId);
+    clearTimeout(totalId);
+    resolve();
+  };
+
+  // Upstream frames arriving before the client handshake completes wait.
+  const pending: (string | ArrayBuffer)[] = [];
+  client.onopen = () => {
+    pending.splice(0).forEach((data) => client.send(data));
+  };
+  upstream.onmessage = (event) => {
+    touch();
+    onFrame?.("client", frameSize(event.data));
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(event.data);
+    } else if (client.readyState === WebSocket.CONNECTING) {
+      pending.push(event.data);
+    }
+  };
+  client.onmessage = (event) => {
+    touch();
+    onFrame?.("upstream", frameSize(event.data));
+    if (upstream.readyState === WebSocket.OPEN) upstream.send(event.data);
+  };
+  client.onclose = (event) => {
+    close(upstream, event.code, event.reason);
+    closed();
+  };
+  upstream.onclose = (event) => {
+    close(client, event.code, event.reason);
+    closed();
+  };
+  touch();
+  return promise;
+}
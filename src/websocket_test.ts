@@ -0,0 +1,57 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+  forwardableCloseCode,
+  isValidHandshake,
+  isWebSocketUpgrade,
+  offeredProtocols,
+  stripHandshakeHeaders,
+} from "./websocket.ts";
+
+Deno.test("isWebSocketUpgrade", () => {
+  const upgrade = (method: string, value: string) =>
+    isWebSocketUpgrade(
+      new Request("http://proxy.local/", {
+        method,
+        headers: { upgrade: value },
+      }),
+    );
+  assert(upgrade("GET", "websocket"));
+  assert(upgrade("GET", "h2c, WebSocket"));
+  assert(!upgrade("GET", "h2c"));
+  assert(!upgrade("POST", "websocket"));
+});
+
+Deno.test("isValidHandshake", () => {
+  const handshake = (headers: Record<string, string>) =>
+    isValidHandshake(new Request("http://proxy.local/", { headers }));
+  assert(handshake({
+    "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+    "sec-websocket-version": "13",
+  }));
+  assert(!handshake({ "sec-websocket-version": "13" }));
+  assert(
+    !handshake({
+      "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+      "sec-websocket-version": "8",
+    }),
+  );
+});
+
+Deno.test("handshake headers", () => {
+  const headers = new Headers({
+    "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+    "sec-websocket-protocol": "chat, , json",
+    "sec-websocket-extensions": "permessage-deflate",
+    "x-custom": "kept",
+  });
+  assertEquals(offeredProtocols(headers), ["chat", "json"]);
+  stripHandshakeHeaders(headers);
+  assertEquals([...headers], [["x-custom", "kept"]]);
+});
+
+Deno.test("forwardableCloseCode", () => {
+  assertEquals(forwardableCloseCode(1000), 1000);
+  assertEquals(forwardableCloseCode(4001), 4001);
+  assertEquals(forwardableCloseCode(1001), 1000);
+  assertEquals(forwardableCloseCode(1006), 1000);
+});
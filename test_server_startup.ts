@@ -32,9 +32,17 @@ async function testServerStartup() {
     stderr: "piped",
   }).spawn();
 
-  // Wait and test connectivity
+  // Poll the health endpoint until the server answers
   console.log("⏳ Waiting for server to start...");
-  await new Promise((resolve) => setTimeout(resolve, 3000));
+  for (let attempt = 0; attempt < 50; attempt++) {
+    try {
+      const health = await fetch("http://localhost:8000/_proxy/health");
+      console.log("💓 Health:", await health.json());
+      break;
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
 
   // Test server response
   try {